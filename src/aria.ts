@@ -0,0 +1,36 @@
+/**
+ * next number of the generated element ids
+ * @type {Number}
+ */
+let nextGeneratedId: number = 1;
+
+
+/**
+ * set ARIA state or property of the element
+ * @param {Element} element target element
+ * @param {string} name name without "aria-" prefix (e.g. "selected")
+ * @param {string|boolean} value new value, NULL removes the attribute
+ */
+export function setAriaAttribute(element: Element, name: string, value: string|boolean) : void {
+    let attribute: string = "aria-" + name;
+
+    if (value === null || value === undefined)
+        element.removeAttribute(attribute);
+    else
+        element.setAttribute(attribute, String(value));
+}
+
+
+/**
+ * get id of the element, unique id is generated if the element has none
+ * (required by the id references like aria-controls)
+ * @param {Element} element the element
+ * @param {string} prefix prefix of the generated id
+ * @return {string} id of the element
+ */
+export function ensureElementId(element: Element, prefix: string) : string {
+    if (!element.id)
+        element.id = prefix + "-" + nextGeneratedId++;
+
+    return element.id;
+}
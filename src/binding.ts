@@ -0,0 +1,447 @@
+import { EventDispatcher, OwlEvent } from "./events"
+import { CommonHtmlNode, CommonHtmlElement, CommonHtmlText, CommonHtmlAttribute } from "./dom"
+import { ControllerBase } from "./component"
+
+
+/**
+ * event dispatched when model value was changed
+ */
+export class ModelChangeEvent extends OwlEvent {
+
+    /**
+     * path to the changed value
+     * @type {string}
+     */
+    public readonly path: string;
+
+    /**
+     * value before the change
+     * @type {any}
+     */
+    public readonly oldValue: any;
+
+    /**
+     * value after the change
+     * @type {any}
+     */
+    public readonly newValue: any;
+
+    /**
+     * initialize instance
+     * @param {string} path path to the changed value
+     * @param {any} oldValue value before the change
+     * @param {any} newValue value after the change
+     */
+    constructor(path: string, oldValue: any, newValue: any) {
+        super(ObservableModel.EVENT_CHANGE);
+        this.path = path;
+        this.oldValue = oldValue;
+        this.newValue = newValue;
+    }
+}
+
+
+/**
+ * hold data and notify listeners about changes
+ * values are accessed by dot separated paths (e.g. "user.name")
+ */
+export class ObservableModel extends EventDispatcher {
+
+    static EVENT_CHANGE = "change";
+
+    /**
+     * stored data
+     * @type {Object}
+     */
+    private _data: Object;
+
+    /**
+     * initialize instance
+     * @param {Object=null} data initial data
+     */
+    constructor(data: Object=null) {
+        super();
+        this._data = data || new Object();
+    }
+
+    /**
+     * get value by path
+     * @param {string} path path to the value
+     * @return {any} value or undefined if path does not exist
+     */
+    public get(path: string) : any {
+        let current: any = this._data;
+
+        for (let part of splitPath(path)) {
+            if (current === null || current === undefined)
+                return undefined;
+
+            current = current[part];
+        }
+
+        return current;
+    }
+
+    /**
+     * set value by path
+     * missing objects on the path are created
+     * @param {string} path path to the value
+     * @param {any} value new value
+     */
+    public set(path: string, value: any) : void {
+        let parts: string[] = splitPath(path);
+        let current: any = this._data;
+
+        for (let i = 0; i < parts.length - 1; ++i) {
+            if (current[parts[i]] === null || typeof current[parts[i]] != "object")
+                current[parts[i]] = new Object();
+
+            current = current[parts[i]];
+        }
+
+        let name: string = parts[parts.length - 1];
+        let oldValue: any = current[name];
+
+        if (oldValue === value)
+            return;
+
+        current[name] = value;
+        this.dispatchEvent(new ModelChangeEvent(path, oldValue, value));
+    }
+
+    /**
+     * get stored data
+     * @return {Object} stored data
+     */
+    get data(): Object {
+        return this._data;
+    }
+}
+
+
+/**
+ * model exposing a part of the parent model under an alias
+ * e.g. alias "item" targeting "todos.3" makes "item.name" equal to "todos.3.name"
+ * paths without the alias are passed to the parent model
+ */
+export class AliasModel extends ObservableModel {
+
+    /**
+     * parent model
+     * @type {ObservableModel}
+     */
+    private _parent: ObservableModel;
+
+    /**
+     * the alias
+     * @type {string}
+     */
+    private _alias: string;
+
+    /**
+     * path in the parent model the alias points to
+     * @type {string}
+     */
+    private _target: string;
+
+    /**
+     * remover of the parent change listener
+     * @type {Function}
+     */
+    private _remover: Function;
+
+    /**
+     * initialize instance
+     * @param {ObservableModel} parent parent model
+     * @param {string} alias the alias
+     * @param {string} target path in the parent model the alias points to
+     */
+    constructor(parent: ObservableModel, alias: string, target: string) {
+        super(parent.data);
+        this._parent = parent;
+        this._alias = alias;
+        this._target = target;
+        this._remover = parent.addEventListener(ObservableModel.EVENT_CHANGE, (evt: ModelChangeEvent) => {
+            this._onParentChange(evt);
+        });
+    }
+
+    /**
+     * get value by path
+     * @param {string} path path to the value
+     * @return {any} value or undefined if path does not exist
+     */
+    public get(path: string) : any {
+        return this._parent.get(this._translate(path));
+    }
+
+    /**
+     * set value by path
+     * @param {string} path path to the value
+     * @param {any} value new value
+     */
+    public set(path: string, value: any) : void {
+        this._parent.set(this._translate(path), value);
+    }
+
+    /**
+     * point the alias to the new path
+     * @param {string} target new path in the parent model
+     */
+    public retarget(target: string) : void {
+        if (this._target == target)
+            return;
+
+        let oldValue: any = this.get(this._alias);
+        this._target = target;
+        this.dispatchEvent(new ModelChangeEvent(this._alias, oldValue, this.get(this._alias)));
+    }
+
+    /**
+     * stop listening to the parent model
+     */
+    public dispose() : void {
+        this._remover();
+    }
+
+    /**
+     * get path in the parent model the alias points to
+     * @return {string} target path
+     */
+    get target(): string {
+        return this._target;
+    }
+
+    /**
+     * translate aliased path to the path of the parent model
+     * @param {string} path path to translate
+     * @return {string} path in the parent model
+     */
+    private _translate(path: string) : string {
+        let parts: string[] = splitPath(path);
+
+        if (parts[0] != this._alias)
+            return path;
+
+        parts[0] = this._target;
+        return parts.join(".");
+    }
+
+    /**
+     * pass parent change to listeners, aliased paths are translated back
+     * @param {ModelChangeEvent} evt change of the parent model
+     */
+    private _onParentChange(evt: ModelChangeEvent) : void {
+        this.dispatchEvent(new ModelChangeEvent(evt.path, evt.oldValue, evt.newValue));
+
+        if (evt.path == this._target || evt.path.indexOf(this._target + ".") == 0) {
+            let path: string = this._alias + evt.path.substr(this._target.length);
+            this.dispatchEvent(new ModelChangeEvent(path, evt.oldValue, evt.newValue));
+        } else if (this._target.indexOf(evt.path + ".") == 0) {
+            this.dispatchEvent(new ModelChangeEvent(this._alias, undefined, this.get(this._alias)));
+        }
+    }
+}
+
+
+/**
+ * bind model value to the controller property or entry node
+ * if the controller has writable property, the property is used
+ * otherwise the entry node of the same name is used
+ *
+ * two-way binding (target changes are written back to the model) is supported by
+ * - controllers dispatching ControllerBase.EVENT_CHANGE after the bound writable property changes,
+ *   neither built-in nor defineComponent controllers dispatch it for their properties, so they are bound one way
+ * - input, textarea and select entry nodes, written back on the DOM input event
+ */
+export class PropertyBinding {
+
+    /**
+     * bound controller
+     * @type {ControllerBase}
+     */
+    private _controller: ControllerBase;
+
+    /**
+     * name of the bound property or entry node
+     * @type {string}
+     */
+    private _property: string;
+
+    /**
+     * path to the value in the model
+     * @type {string}
+     */
+    private _path: string;
+
+    /**
+     * connected model (NULL if not connected)
+     * @type {ObservableModel}
+     */
+    private _model: ObservableModel;
+
+    /**
+     * functions removing registered listeners
+     * @type {Function[]}
+     */
+    private _removers: Function[];
+
+    /**
+     * initialize instance
+     * @param {ControllerBase} controller bound controller
+     * @param {string} property name of the bound property or entry node
+     * @param {string} path path to the value in the model
+     */
+    constructor(controller: ControllerBase, property: string, path: string) {
+        this._controller = controller;
+        this._property = property;
+        this._path = path;
+        this._model = null;
+        this._removers = new Array<Function>();
+    }
+
+    /**
+     * connect binding to the model and update target
+     * @param {ObservableModel} model model to connect
+     */
+    public connect(model: ObservableModel) : void {
+        this.disconnect();
+        this._model = model;
+
+        this._removers.push(model.addEventListener(ObservableModel.EVENT_CHANGE, (evt: ModelChangeEvent) => {
+            if (this._isAffectedBy(evt.path))
+                this.update();
+        }));
+
+        this._bindWriteBack();
+        this.update();
+    }
+
+    /**
+     * disconnect binding from the model
+     */
+    public disconnect() : void {
+        for (let remover of this._removers)
+            remover();
+
+        this._removers = new Array<Function>();
+        this._model = null;
+    }
+
+    /**
+     * write model value into the target
+     */
+    public update() : void {
+        let value: any = this._model.get(this._path);
+
+        if (isWritableProperty(this._controller, this._property)) {
+            this._controller[this._property] = value;
+            return;
+        }
+
+        let entry: CommonHtmlNode = this._controller.getEntry(this._property);
+        let text: string = (value === null || value === undefined) ? "" : String(value);
+
+        if (entry instanceof CommonHtmlText)
+            entry.content = text;
+        else if (entry instanceof CommonHtmlAttribute)
+            entry.value = text;
+        else if (isInputElement(entry))
+            (<HTMLInputElement>(<CommonHtmlElement>entry).element).value = text;
+        else
+            entry.node.textContent = text;
+    }
+
+    /**
+     * get name of the bound property
+     * @return {string} name of the property
+     */
+    get property(): string {
+        return this._property;
+    }
+
+    /**
+     * get path to the value in the model
+     * @return {string} path to the value
+     */
+    get path(): string {
+        return this._path;
+    }
+
+    /**
+     * listen for target changes and write them back to the model
+     * controller properties are written back on the controller change event,
+     * input entry nodes on the DOM input event
+     */
+    private _bindWriteBack() : void {
+        if (isWritableProperty(this._controller, this._property)) {
+            this._removers.push(this._controller.addEventListener(ControllerBase.EVENT_CHANGE, () => {
+                this._model.set(this._path, this._controller[this._property]);
+            }));
+        } else {
+            let entry: CommonHtmlNode = this._controller.getEntry(this._property);
+
+            if (isInputElement(entry)) {
+                let element: HTMLInputElement = <HTMLInputElement>(<CommonHtmlElement>entry).element;
+                let listener: EventListener = () => { this._model.set(this._path, element.value); };
+
+                entry.addEventListener("input", listener);
+                this._removers.push(() => { entry.removeEventListener("input", listener); });
+            }
+        }
+    }
+
+    /**
+     * return true if change of the given path affects the bound value
+     * @param {string} changedPath path of the changed value
+     * @return {boolean} true if bound value is affected
+     */
+    private _isAffectedBy(changedPath: string) : boolean {
+        return changedPath == this._path
+            || this._path.indexOf(changedPath + ".") == 0
+            || changedPath.indexOf(this._path + ".") == 0;
+    }
+}
+
+
+/**
+ * split path to its parts
+ * @param {string} path dot separated path
+ * @return {string[]} path parts
+ */
+function splitPath(path: string) : string[] {
+    return path.split(".").map((part: string) => { return part.trim(); });
+}
+
+
+/**
+ * return true if object has property which can be set
+ * @param {Object} obj object to test
+ * @param {string} name name of the property
+ * @return {boolean} true if property exists and is writable
+ */
+export function isWritableProperty(obj: Object, name: string) : boolean {
+    let current: Object = obj;
+
+    while (current) {
+        let descriptor: PropertyDescriptor = Object.getOwnPropertyDescriptor(current, name);
+
+        if (descriptor)
+            return descriptor.writable || descriptor.set !== undefined;
+
+        current = Object.getPrototypeOf(current);
+    }
+
+    return false;
+}
+
+
+/**
+ * return true if node is form input element
+ * @param {CommonHtmlNode} node node to test
+ * @return {boolean} true if node is input
+ */
+function isInputElement(node: CommonHtmlNode) : boolean {
+    let tagName: string = (node instanceof CommonHtmlElement) ? node.element.tagName : null;
+    return tagName == "INPUT" || tagName == "TEXTAREA" || tagName == "SELECT";
+}
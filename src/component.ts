@@ -1,10 +1,14 @@
 
-import { ServiceManager } from "./service_management";
+import { ServiceManager, getDependencies, createClassFactory } from "./service_management";
 import { IRenderer, RenderResult } from "./rendering";
-import { DomManipulator, CommonHtmlNode, CommonHtmlElement } from "./dom";
+import { DomManipulator, CommonHtmlNode, CommonHtmlElement, CommonNodeList, containsNode, getActiveElement, isNativelyFocusable } from "./dom";
 import { ISizer, ASizer, SizerFactory } from "./view/sizer/base"
 import { EventDispatcher, DomEvent, OwlEvent } from "./events"
 import { PropertyWatchdog, WatchdogEventFactory } from "./dom_utils"
+import { ObservableModel, PropertyBinding } from "./binding"
+import { IInterpolation, collectInterpolations } from "./interpolation"
+import { OptionError, toCamelCase } from "./options"
+import { StaticEventBinding } from "./static_events"
 
 /**
  * describe component and hold information required to create
@@ -30,6 +34,18 @@ export class ComponentDescription {
      */
     private _controllerName: string;
 
+    /**
+     * if true, rendered content is attached to the shadow root
+     * @type {boolean}
+     */
+    private _shadowDom: boolean;
+
+    /**
+     * CSS code of the component scoped stylesheets (used in shadow DOM mode)
+     * @type {string[]}
+     */
+    private _styles: string[];
+
     /**
      * create component description
      * @param {string} name name of the component
@@ -40,6 +56,17 @@ export class ComponentDescription {
         this._name = name;
         this._rendererName = rendererName;
         this._controllerName = controllerName;
+        this._shadowDom = false;
+        this._styles = new Array<string>();
+    }
+
+    /**
+     * add component scoped stylesheet
+     * stylesheets are inserted into the shadow root of each instance
+     * @param {string} css CSS code of the stylesheet
+     */
+    public addStyles(css: string) : void {
+        this._styles.push(css);
     }
 
     /**
@@ -81,6 +108,30 @@ export class ComponentDescription {
     set controllerName(val: string) {
         this._controllerName = val;
     }
+
+    /**
+     * return true if rendered content is attached to the shadow root
+     * @return {boolean} true if shadow DOM mode is used
+     */
+    get shadowDom(): boolean {
+        return this._shadowDom;
+    }
+
+    /**
+     * enable or disable shadow DOM mode
+     * @param {boolean} val true to attach rendered content to the shadow root
+     */
+    set shadowDom(val: boolean) {
+        this._shadowDom = val;
+    }
+
+    /**
+     * get CSS code of the component scoped stylesheets
+     * @return {string[]} stylesheets
+     */
+    get styles(): string[] {
+        return this._styles;
+    }
 }
 
 
@@ -89,6 +140,12 @@ export class ComponentDescription {
  */
 export class ComponentFactory {
 
+    /**
+     * class name of the shadow root host elements
+     * @type {String}
+     */
+    static SHADOW_HOST_CLASS = "owl-shadow-host";
+
     /**
      * set of registered components
      * @type {ComponentLookup}
@@ -128,33 +185,167 @@ export class ComponentFactory {
         this._components[component.name] = component;
     }
 
+    /**
+     * return true if component is registered
+     * @param {string} name name of the component
+     * @return {boolean} true if component exists
+     */
+    public hasComponent(name: string) : boolean {
+        return !!this._components[name];
+    }
+
+    /**
+     * get names of all registered components
+     * @return {string[]} component names
+     */
+    public getComponentNames() : string[] {
+        return Object.keys(this._components);
+    }
+
     public createComponentInstance(name: string, element: HTMLElement) : ControllerBase {
         this._assertExists(name);
 
         let componentDsc: ComponentDescription = this._components[name];
-        let renderer = this._getRenderer(componentDsc);
+        let serviceManager: ServiceManager = this._getServiceManagerFor(element);
+        let renderer = this._getRenderer(componentDsc, serviceManager);
+
+        return this._createComponent(componentDsc, element, serviceManager, renderer, () => {
+            return <ControllerBase>serviceManager.getServiceByPath(componentDsc.controllerName);
+        });
+    }
+
+    /**
+     * create new instance of the component whose renderer or controller is asynchronous service
+     * (e.g. code-split component loaded on demand)
+     * @param {string} name name of the component
+     * @param {HTMLElement} element placeholder of the component
+     * @return {Promise<ControllerBase>} promise resolved with controller of the new component
+     */
+    public createComponentInstanceAsync(name: string, element: HTMLElement) : Promise<ControllerBase> {
+        try {
+            this._assertExists(name);
+        } catch (err) {
+            return Promise.reject(err);
+        }
+
+        let componentDsc: ComponentDescription = this._components[name];
+        let serviceManager: ServiceManager = this._getServiceManagerFor(element);
+
+        // renderer is loaded first, so the controller is created when its service is complete
+        return serviceManager.getServiceAsync(componentDsc.rendererName).then((renderer: IRenderer) => {
+            return serviceManager.getServiceAsync(componentDsc.controllerName).then((controller: ControllerBase) => {
+                return this._createComponent(componentDsc, element, serviceManager, renderer, () => { return controller; });
+            });
+        });
+    }
+
+    /**
+     * return true if component can be created synchronously
+     * (its renderer and controller do not require asynchronous loading)
+     * @param {string} name name of the component
+     * @param {HTMLElement=null} element placeholder of the component
+     * @return {boolean} true if createComponentInstance can be used
+     * @throws Error component is not registered
+     */
+    public isComponentReady(name: string, element: HTMLElement=null) : boolean {
+        this._assertExists(name);
+
+        let componentDsc: ComponentDescription = this._components[name];
+        let serviceManager: ServiceManager = element ? this._getServiceManagerFor(element) : this._serviceManager;
+
+        return !serviceManager.isServiceAsync(componentDsc.rendererName) && !serviceManager.isServiceAsync(componentDsc.controllerName);
+    }
+
+    /**
+     * render the component and setup its controller
+     * @param {ComponentDescription} description description of the component
+     * @param {HTMLElement} element placeholder of the component
+     * @param {ServiceManager} serviceManager service manager of the component
+     * @param {IRenderer} renderer renderer of the component
+     * @param {Function} getController function returning controller of the component
+     * @return {ControllerBase} controller of the new component
+     */
+    private _createComponent(description: ComponentDescription, element: HTMLElement, serviceManager: ServiceManager,
+            renderer: IRenderer, getController: () => ControllerBase) : ControllerBase {
+
         let mappedElement = new CommonHtmlElement(element, this._domManipulator);
-        let options = renderer.getOptions(mappedElement);
+        let options = this._getOptions(renderer, mappedElement, description.name);
         let renderedContent: RenderResult = renderer.render(mappedElement, this._domManipulator, options);
 
-        let controller: ControllerBase = this._createController(componentDsc, options, renderedContent);
+        if (description.shadowDom)
+            renderedContent = this._encapsulate(description, renderedContent, options);
+
+        let controller: ControllerBase = getController();
+        controller.serviceManager = serviceManager;
+        controller.setup(renderedContent, options);
         controller.renderer = renderer;
 
         return controller;
     }
 
-    private _getRenderer(description: ComponentDescription) : IRenderer {
-        let rendererName: string = description.rendererName;
-        return <IRenderer>this._serviceManager.getServiceByPath(rendererName);
+    /**
+     * read options of the component
+     * @param {IRenderer} renderer renderer of the component
+     * @param {CommonHtmlElement} element original element
+     * @param {string} name name of the component
+     * @return {Object} parsed options
+     * @throws OptionError invalid option (with component name)
+     */
+    private _getOptions(renderer: IRenderer, element: CommonHtmlElement, name: string) : Object {
+        try {
+            return renderer.getOptions(element);
+        } catch (err) {
+            if (err instanceof OptionError && !err.componentName)
+                throw new OptionError(err.attribute, err.reason, name);
+
+            throw err;
+        }
     }
 
-    private _createController(description: ComponentDescription, options: Object, rendered: RenderResult) : ControllerBase {
-        let controllerName: string = description.controllerName;
+    /**
+     * move rendered content into the shadow root of new host element
+     * entry nodes stay untouched, the host becomes the root node
+     * @param {ComponentDescription} description description of the component
+     * @param {RenderResult} rendered rendered content
+     * @param {Object} options component options
+     * @return {RenderResult} render result with the host as root node
+     */
+    private _encapsulate(description: ComponentDescription, rendered: RenderResult, options: Object) : RenderResult {
+        let host: CommonHtmlElement = this._domManipulator.createElement("div");
+        let shadowRoot: ShadowRoot = this._domManipulator.attachShadowRoot(host, description.styles);
+        let rootNode: CommonHtmlNode = rendered.rootNode;
+
+        host.styles.addClass(ComponentFactory.SHADOW_HOST_CLASS);
 
-        let controller: ControllerBase = <ControllerBase>this._serviceManager.getServiceByPath(controllerName);
-        controller.serviceManager = this._serviceManager;
-        controller.setup(rendered, options);
-        return controller;
+        // the id has to be visible from the document
+        if (options[ControllerBase.OPT_ID] && rootNode instanceof CommonHtmlElement) {
+            rootNode.element.removeAttribute("id");
+            host.attributes.set("id", options[ControllerBase.OPT_ID]);
+        }
+
+        shadowRoot.appendChild(rootNode.node);
+
+        return new RenderResult(host, rendered.entryNodes);
+    }
+
+    /**
+     * get service manager of the new component
+     * component inside other component uses the service scope of its parent
+     * @param {HTMLElement} element placeholder of the component
+     * @return {ServiceManager} service manager to use
+     */
+    private _getServiceManagerFor(element: HTMLElement) : ServiceManager {
+        let parent: ControllerBase = element.parentNode ? findController(element.parentNode) : null;
+
+        if (parent && parent.childServiceManager)
+            return parent.childServiceManager;
+
+        return this._serviceManager;
+    }
+
+    private _getRenderer(description: ComponentDescription, serviceManager: ServiceManager) : IRenderer {
+        let rendererName: string = description.rendererName;
+        return <IRenderer>serviceManager.getServiceByPath(rendererName);
     }
 
     /**
@@ -199,6 +390,27 @@ export class ControllerManager {
         this._lookup[id] = controller;
     }
 
+    /**
+     * remove controller from the manager
+     * nothing happens if the controller is not registered
+     * @param {ControllerBase} controller controller to remove
+     */
+    public unregisterComponent(controller: ControllerBase) : void {
+        let id: string = controller.id;
+
+        if (id && this._lookup[id] === controller)
+            delete this._lookup[id];
+    }
+
+    /**
+     * return true if controller with the id is registered
+     * @param {string} name id of the controller
+     * @return {boolean} true if controller is registered
+     */
+    public has(name: string) : boolean {
+        return !!this._lookup[name];
+    }
+
     public get(name: string) : ControllerBase {
         if (!this._lookup[name])
             throw new Error("Controller '" + name + "' is not registered");
@@ -253,7 +465,56 @@ export class ComponentInserter {
      * process template and insert components
      */
     public insertComponents() : void {
-        let walker: TreeWalker = this._createWalker();
+        this.insertComponentsInto(this._rootElement);
+    }
+
+    /**
+     * process subtree and insert components
+     * the element should be attached to the application tree, so new controllers
+     * are tracked by their parents
+     * @param {HTMLElement} rootElement root of the subtree to process
+     * @return {ControllerBase[]} created controllers
+     */
+    public insertComponentsInto(rootElement: HTMLElement) : ControllerBase[] {
+        return this._insertComponents(rootElement, new Array<Promise<ControllerBase[]>>());
+    }
+
+    /**
+     * process subtree, insert components and wait until the asynchronous components are loaded
+     * @param {HTMLElement} rootElement root of the subtree to process
+     * @return {Promise<ControllerBase[]>} promise resolved with all created controllers
+     * (including components nested in the loaded ones)
+     */
+    public insertComponentsIntoAsync(rootElement: HTMLElement) : Promise<ControllerBase[]> {
+        let loading: Promise<ControllerBase[]>[] = new Array<Promise<ControllerBase[]>>();
+        let result: ControllerBase[] = this._insertComponents(rootElement, loading);
+
+        return this._collectLoaded(result, loading);
+    }
+
+    /**
+     * process subtree and insert components
+     * components which are not ready are loaded asynchronously, their subtrees are skipped
+     * @param {HTMLElement} rootElement root of the subtree to process
+     * @param {Promise<ControllerBase[]>[]} loading loading of the asynchronous components
+     * @return {ControllerBase[]} controllers created synchronously
+     */
+    private _insertComponents(rootElement: HTMLElement, loading: Promise<ControllerBase[]>[]) : ControllerBase[] {
+        let result: ControllerBase[] = new Array<ControllerBase>();
+
+        if (this._isPlaceholder(rootElement)) {
+            if (this._requiresLoading(rootElement)) {
+                loading.push(this._loadElement(rootElement));
+                return result;
+            }
+
+            let controller: ControllerBase = this._processElement(rootElement);
+            result.push(controller);
+            rootElement = <HTMLElement>controller.view.node;
+            this._insertIntoShadowRoot(controller, result, loading);
+        }
+
+        let walker: TreeWalker = this._createWalker(rootElement);
         let currentNode:Node = null;
 
         try {
@@ -266,42 +527,163 @@ export class ComponentInserter {
         while(currentNode) {
             let nodeToProcess: Node = currentNode;
 
+            if (this._requiresLoading(<HTMLElement>nodeToProcess)) {
+                loading.push(this._loadElement(<HTMLElement>nodeToProcess));
+                currentNode = this._skipSubtree(walker, nodeToProcess);
+                continue;
+            }
+
             try {
-                walker.currentNode = this._processElement(<HTMLElement>nodeToProcess);
+                let controller: ControllerBase = this._processElement(<HTMLElement>nodeToProcess);
+                walker.currentNode = controller.view.node;
+                result.push(controller);
+                this._insertIntoShadowRoot(controller, result, loading);
             } catch (err) {
                 console.error(err);
             }
 
             currentNode = walker.nextNode();
         }
+
+        return result;
+    }
+
+    /**
+     * return true if component of the placeholder has to be loaded asynchronously
+     * @param {HTMLElement} element placeholder of the component
+     * @return {boolean} true if component is not ready
+     */
+    private _requiresLoading(element: HTMLElement) : boolean {
+        let name: string = this._getComponentName(element);
+
+        // unknown component is reported by the synchronous processing
+        return this._componentFactory.hasComponent(name) && !this._componentFactory.isComponentReady(name, element);
+    }
+
+    /**
+     * load asynchronous component and insert it instead of its placeholder
+     * @param {HTMLElement} element placeholder of the component
+     * @return {Promise<ControllerBase[]>} promise resolved with controllers of the component and its nested components
+     */
+    private _loadElement(element: HTMLElement) : Promise<ControllerBase[]> {
+        let name: string = this._getComponentName(element);
+
+        return this._componentFactory.createComponentInstanceAsync(name, element).then((controller: ControllerBase) => {
+            let loading: Promise<ControllerBase[]>[] = new Array<Promise<ControllerBase[]>>();
+            let result: ControllerBase[] = [controller];
+
+            // placeholder was removed while the component was loading
+            if (!element.parentElement) {
+                controller.destroy();
+                return new Array<ControllerBase>();
+            }
+
+            this._attachComponent(controller, element);
+            this._insertIntoShadowRoot(controller, result, loading);
+            result.push.apply(result, this._insertComponents(<HTMLElement>controller.view.node, loading));
+
+            return this._collectLoaded(result, loading);
+        }).catch((err: any) => {
+            console.error(err);
+            return new Array<ControllerBase>();
+        });
+    }
+
+    /**
+     * wait for the loading components and append their controllers to the result
+     * @param {ControllerBase[]} result controllers created synchronously
+     * @param {Promise<ControllerBase[]>[]} loading loading of the asynchronous components
+     * @return {Promise<ControllerBase[]>} promise resolved with all controllers
+     */
+    private _collectLoaded(result: ControllerBase[], loading: Promise<ControllerBase[]>[]) : Promise<ControllerBase[]> {
+        return Promise.all(loading).then((loaded: ControllerBase[][]) => {
+            for (let controllers of loaded)
+                result.push.apply(result, controllers);
+
+            return result;
+        });
+    }
+
+    /**
+     * move walker behind the subtree of the node
+     * @param {TreeWalker} walker the walker
+     * @param {Node} node root of the skipped subtree
+     * @return {Node} next node outside the subtree
+     */
+    private _skipSubtree(walker: TreeWalker, node: Node) : Node {
+        let next: Node = walker.nextNode();
+
+        while (next && node.contains(next))
+            next = walker.nextNode();
+
+        return next;
+    }
+
+    /**
+     * insert components into the shadow root of the component (if there is any)
+     * the tree walker does not enter shadow roots
+     * @param {ControllerBase} controller controller of the processed component
+     * @param {ControllerBase[]} result created controllers
+     * @param {Promise<ControllerBase[]>[]} loading loading of the asynchronous components
+     */
+    private _insertIntoShadowRoot(controller: ControllerBase, result: ControllerBase[], loading: Promise<ControllerBase[]>[]) : void {
+        let shadowRoot: ShadowRoot = (<Element>controller.view.node).shadowRoot;
+
+        if (!shadowRoot)
+            return;
+
+        for (let i = 0; i < shadowRoot.children.length; ++i) {
+            let child: HTMLElement = <HTMLElement>shadowRoot.children.item(i);
+
+            for (let nested of this._insertComponents(child, loading))
+                result.push(nested);
+        }
     }
 
     /**
      * create new DOM walker
+     * @param {HTMLElement} rootElement root of the walked subtree
      * @return {TreeWalker} dom walker
      */
-    private _createWalker() : TreeWalker {
-        let document = this._rootElement.ownerDocument;
+    private _createWalker(rootElement: HTMLElement) : TreeWalker {
+        let document = rootElement.ownerDocument;
         let filter = {
             acceptNode: (node: Node): number => {
-                let element: HTMLElement = <HTMLElement>node;
-
-                return (element.tagName.substr(0, 4) == "OWL:") ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+                return this._isPlaceholder(<HTMLElement>node) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
             }
         };
-        return document.createTreeWalker(this._rootElement, NodeFilter.SHOW_ELEMENT, filter, false);
+        return document.createTreeWalker(rootElement, NodeFilter.SHOW_ELEMENT, filter, false);
+    }
+
+    /**
+     * test if element is component placeholder
+     * @param {HTMLElement} element element to test
+     * @return {boolean} true if element is placeholder
+     */
+    private _isPlaceholder(element: HTMLElement) : boolean {
+        return element.tagName.substr(0, 4) == "OWL:";
     }
 
     /**
      * process one component
      * @param {HTMLElement} element the element to process
-     * @return {Node} component visual representation
+     * @return {ControllerBase} controller of the new component
      */
-    private _processElement(element: HTMLElement) : Node {
+    private _processElement(element: HTMLElement) : ControllerBase {
         // get name
         let name = this._getComponentName(element);
         let componentController = this._componentFactory.createComponentInstance(name, element);
 
+        return this._attachComponent(componentController, element);
+    }
+
+    /**
+     * replace placeholder by the view of the component and initialize the component
+     * @param {ControllerBase} componentController controller of the new component
+     * @param {HTMLElement} element placeholder of the component
+     * @return {ControllerBase} controller of the component
+     */
+    private _attachComponent(componentController: ControllerBase, element: HTMLElement) : ControllerBase {
         element.parentElement.replaceChild(componentController.view.node, element);
         componentController.repaint();
 
@@ -315,7 +697,7 @@ export class ComponentInserter {
         if (!componentController.parent)
             console.log(componentController);
 
-        return componentController.view.node;
+        return componentController;
     }
 
     /**
@@ -343,6 +725,27 @@ export class ControllerBase extends EventDispatcher {
     static EVENT_REPAING = "repaint";
     static EVENT_TRACKING_SIGNAL = "tracking_signal";
     static EVENT_TRACKED = "tracked";
+    static EVENT_BEFORE_DESTROY = "beforeDestroy";
+    static EVENT_DESTROYED = "destroyed";
+    static EVENT_CHANGE = "change";
+
+    /**
+     * focus entered the component (dispatched by the focus manager)
+     * @type {String}
+     */
+    static EVENT_FOCUS = "focus";
+
+    /**
+     * focus left the component (dispatched by the focus manager)
+     * @type {String}
+     */
+    static EVENT_BLUR = "blur";
+
+    /**
+     * name of the view root property holding the controller
+     * @type {String}
+     */
+    static VIEW_CONTROLLER_PROPERTY = "owlViewController";
 
     /**
      * name of attribute with public id of the controller
@@ -392,6 +795,12 @@ export class ControllerBase extends EventDispatcher {
      */
     protected _serviceManager: ServiceManager;
 
+    /**
+     * service scope of the children (NULL if children use the same service manager)
+     * @type {ServiceManager}
+     */
+    protected _serviceScope: ServiceManager;
+
     /**
      * gateway between real dom and component
      * @type {DomEventGateway}
@@ -422,6 +831,36 @@ export class ControllerBase extends EventDispatcher {
      */
     private _sizeWatchdog: PropertyWatchdog;
 
+    /**
+     * listener of the tracking signal bound to the root node
+     * @type {EventListener}
+     */
+    private _trackingListener: EventListener;
+
+    /**
+     * true if controller was destroyed
+     * @type {boolean}
+     */
+    private _destroyed: boolean;
+
+    /**
+     * model of the controller (if NULL, model is inherited)
+     * @type {ObservableModel}
+     */
+    private _model: ObservableModel;
+
+    /**
+     * bindings of the model values to the controller
+     * @type {PropertyBinding[]}
+     */
+    private _bindings: PropertyBinding[];
+
+    /**
+     * {{ expression }} interpolations in the view
+     * @type {IInterpolation[]}
+     */
+    private _interpolations: IInterpolation[];
+
     constructor(type: string) {
         super()
 
@@ -430,9 +869,15 @@ export class ControllerBase extends EventDispatcher {
         this._internalId = ControllerBase._NEXT_ID++;
         this._view = null;
         this._serviceManager = null;
+        this._serviceScope = null;
         this._domEventGateway = null;
         this._parent = null;
         this._children = new Array<ControllerBase>();
+        this._trackingListener = null;
+        this._destroyed = false;
+        this._model = null;
+        this._bindings = new Array<PropertyBinding>();
+        this._interpolations = new Array<IInterpolation>();
     }
 
     /**
@@ -442,9 +887,11 @@ export class ControllerBase extends EventDispatcher {
     public setup(renderedContent: RenderResult, options: Object) : void {
         this._view = renderedContent;
         this._id = options[ControllerBase.OPT_ID] || null;
+        this._view.rootNode.node[ControllerBase.VIEW_CONTROLLER_PROPERTY] = this;
 
         this._setupGateway();
         this._setupTracking();
+        this._interpolations = collectInterpolations(this._view.rootNode);
 
         this._controllerManager = <ControllerManager>this._serviceManager.getServiceByPath("owl.controllerManager");
         this._sizeWatchdog = new PropertyWatchdog(
@@ -459,31 +906,194 @@ export class ControllerBase extends EventDispatcher {
      */
     public initialize() : void {
         this._dispatchTrackingSignal();
+        this._connectBindings();
         this.repaint();
     }
 
+    /**
+     * add model binding to the controller
+     * binding is connected when the controller is initialized
+     * @param {PropertyBinding} binding binding to add
+     */
+    public addBinding(binding: PropertyBinding) : void {
+        this._bindings.push(binding);
+    }
+
+    /**
+     * get entry node of the view
+     * @param {string} name name of the entry node
+     * @return {CommonHtmlNode} entry node
+     * @throws Error entry node does not exist
+     */
+    public getEntry(name: string) : CommonHtmlNode {
+        return this._view.getEntry(name);
+    }
+
     /**
      * cause element repaint
      */
     public repaint() : void {
         this._dispatchLocalEvent(ControllerBase.EVENT_REPAING);
         this._sizeWatchdog.watch();
+        this._updateInterpolations();
+    }
+
+    /**
+     * re-evaluate interpolations of the component and all its children
+     */
+    public detectChanges() : void {
+        this._updateInterpolations();
+
+        for (let child of this._children)
+            child.detectChanges();
+    }
+
+    /**
+     * append HTML to the component and insert components found in it
+     * @param {string} html HTML code to append
+     * @param {string=null} entryName name of the target entry node (root node is used if null)
+     * @return {ControllerBase[]} created controllers
+     */
+    public appendHtml(html: string, entryName: string=null) : ControllerBase[] {
+        let target: CommonHtmlElement = <CommonHtmlElement>(entryName ? this._view.getEntry(entryName) : this._view.rootNode);
+        let inserter: ComponentInserter = <ComponentInserter>this._serviceManager.getServiceByPath("owl.componentInserter");
+        let nodes: CommonNodeList = target.domManipulator.createNodes(html);
+        let result: ControllerBase[] = new Array<ControllerBase>();
+
+        for (let node of nodes) {
+            target.append(node);
+            this._interpolations.push.apply(this._interpolations, collectInterpolations(node));
+
+            if (node instanceof CommonHtmlElement)
+                result.push.apply(result, inserter.insertComponentsInto(node.element));
+        }
+
+        this._updateInterpolations();
+        return result;
+    }
+
+    /**
+     * destroy the component and all its children
+     * release all listeners (own listeners after "destroyed" is dispatched), unregister the component and remove its view from the DOM
+     */
+    public destroy() : void {
+        if (this._destroyed)
+            return;
+
+        this._dispatchLocalEvent(ControllerBase.EVENT_BEFORE_DESTROY);
+
+        for (let child of this.children)
+            child.destroy();
+
+        if (this._serviceScope)
+            this._serviceScope.dispose();
+
+        this._teardown();
+
+        if (this._parent)
+            this._parent._removeChild(this);
+
+        if (this._controllerManager)
+            this._controllerManager.unregisterComponent(this);
+
+        this._releaseView();
+        this._destroyed = true;
+
+        // the last listener of "destroyed" releases all listeners of the controller
+        this.addEventListener(ControllerBase.EVENT_DESTROYED, () => { this.removeAllListeners(); }, null, { priority: -Infinity });
+        this._dispatchLocalEvent(ControllerBase.EVENT_DESTROYED);
     }
 
     public getSupportedEvents(): string[] {
         return [];
     }
 
+    /**
+     * create service scope for the children of the component
+     * scoped services get one instance per scope, the scope is disposed when the component is destroyed
+     * @return {ServiceManager} the scope (existing one if it was already created)
+     */
+    public createServiceScope() : ServiceManager {
+        if (!this._serviceScope)
+            this._serviceScope = this._serviceManager.createScope();
+
+        return this._serviceScope;
+    }
+
+    /**
+     * start to forward DOM event of the type from the view
+     * @param {string} eventType type of the DOM event
+     */
+    public listenForDomEvent(eventType: string) : void {
+        this._domEventGateway.listenForEvent(eventType);
+    }
+
+    /**
+     * move focus to the component
+     * element without tabindex gets tabindex -1, so it is focusable by the script only
+     */
+    public focus() : void {
+        let target: HTMLElement = this._getFocusTarget();
+
+        if (!target.hasAttribute("tabindex") && !isNativelyFocusable(target))
+            target.tabIndex = -1;
+
+        target.focus();
+    }
+
+    /**
+     * remove focus from the component (nothing happens if the focus is elsewhere)
+     */
+    public blur() : void {
+        let focused: Element = getActiveElement(this._getFocusTarget().ownerDocument);
+
+        if (focused && this.hasFocus)
+            (<HTMLElement>focused).blur();
+    }
+
+    /**
+     * get element receiving focus of the component (root of the view by default)
+     * @return {HTMLElement} focus target
+     */
+    protected _getFocusTarget() : HTMLElement {
+        return <HTMLElement>this._view.rootNode.node;
+    }
+
     /**
      * dispatch local OWL event (event has not origin in real DOM)
      * @param {string} eventType event type
      * @param {Object=null} data optional data
+     * @param {boolean=false} bubbles true if event bubbles up to the parent controllers
      */
-    protected _dispatchLocalEvent(eventType: string, data: Object=null) : void {
-        let evt: OwlEvent = new OwlEvent(eventType, data);
+    protected _dispatchLocalEvent(eventType: string, data: Object=null, bubbles: boolean=false) : void {
+        let evt: OwlEvent = new OwlEvent(eventType, data, bubbles);
         this.dispatchEvent(evt);
     }
 
+    /**
+     * dispatch local cancelable OWL event
+     * @param {string} eventType event type
+     * @param {Object=null} data optional data
+     * @return {boolean} false if some listener prevented the default action
+     */
+    protected _dispatchCancelableEvent(eventType: string, data: Object=null) : boolean {
+        let evt: OwlEvent = new OwlEvent(eventType, data, false, true);
+        return this.dispatchEvent(evt);
+    }
+
+    /**
+     * events propagate through the parent controllers
+     * @return {EventDispatcher[]} parent controllers, the nearest one first
+     */
+    protected _getPropagationPath() : EventDispatcher[] {
+        let result: EventDispatcher[] = new Array<EventDispatcher>();
+
+        for (let current: ControllerBase = this._parent; current; current = current._parent)
+            result.push(current);
+
+        return result;
+    }
+
     protected _onTrackingReceived(evt: CustomEvent) : void {
     }
 
@@ -494,8 +1104,72 @@ export class ControllerBase extends EventDispatcher {
         return (dispatcher, diff) => { return new OwlEvent(evtType); };
     }
 
+    /**
+     * unbind all listeners registered by the controller
+     * override to release custom resources (do not forget to call parent)
+     */
+    protected _teardown() : void {
+        for (let binding of this._bindings)
+            binding.disconnect();
+
+        if (!this._view)
+            return;
+
+        this._domEventGateway.unlistenAll();
+        this._view.rootNode.removeEventListener(ControllerBase.EVENT_TRACKING_SIGNAL, this._trackingListener);
+        this._trackingListener = null;
+    }
+
+    /**
+     * evaluate interpolations of the component
+     */
+    private _updateInterpolations() : void {
+        for (let interpolation of this._interpolations)
+            interpolation.update(this);
+    }
+
+    /**
+     * connect bindings to the current model
+     */
+    private _connectBindings() : void {
+        if (!this._bindings.length)
+            return;
+
+        let model: ObservableModel = this.model;
+
+        for (let binding of this._bindings)
+            binding.connect(model);
+    }
+
+    /**
+     * reconnect bindings of the controller and of the children inheriting the model
+     */
+    private _reconnectBindings() : void {
+        this._connectBindings();
+
+        for (let child of this._children) {
+            if (!child._model)
+                child._reconnectBindings();
+        }
+    }
+
+    /**
+     * remove view from the DOM and evict its nodes from the mapped node cache
+     */
+    private _releaseView() : void {
+        if (!this._view)
+            return;
+
+        let rootNode: CommonHtmlNode = this._view.rootNode;
+
+        delete rootNode.node[ControllerBase.VIEW_CONTROLLER_PROPERTY];
+        rootNode.detach();
+        rootNode.domManipulator.releaseNode(rootNode.node);
+    }
+
     private _dispatchTrackingSignal() : void {
-        let evt = new CustomEvent(ControllerBase.EVENT_TRACKING_SIGNAL, { detail: this, "bubbles": true });
+        // composed signal crosses shadow roots of the parents
+        let evt = new CustomEvent(ControllerBase.EVENT_TRACKING_SIGNAL, <CustomEventInit>{ detail: this, "bubbles": true, "composed": true });
         this._view.rootNode.node.dispatchEvent(evt);
     }
 
@@ -513,7 +1187,7 @@ export class ControllerBase extends EventDispatcher {
     private _setupTracking() : void {
         let self: ControllerBase = this;
 
-        this._view.rootNode.node.addEventListener(ControllerBase.EVENT_TRACKING_SIGNAL, (evt: Event) => {
+        this._trackingListener = (evt: Event) => {
             let realEvt: CustomEvent = <CustomEvent>evt;
             let sender = <ControllerBase>realEvt.detail;
 
@@ -537,8 +1211,9 @@ export class ControllerBase extends EventDispatcher {
             }
 
             return true;
-        });
+        };
 
+        this._view.rootNode.addEventListener(ControllerBase.EVENT_TRACKING_SIGNAL, this._trackingListener);
     }
 
     /**
@@ -565,10 +1240,10 @@ export class ControllerBase extends EventDispatcher {
 
     /**
      * get view representation of the component
-     * @return {CommonHtmlNode} view representation of the component
+     * @return {CommonHtmlNode} view representation of the component (NULL if the controller is not set up)
      */
     get view(): CommonHtmlNode {
-        return this._view.rootNode;
+        return this._view ? this._view.rootNode : null;
     }
 
     /**
@@ -595,6 +1270,14 @@ export class ControllerBase extends EventDispatcher {
         this._serviceManager = val;
     }
 
+    /**
+     * get service manager of the children
+     * @return {ServiceManager} service scope of the component or its own service manager
+     */
+    get childServiceManager(): ServiceManager {
+        return this._serviceScope || this._serviceManager;
+    }
+
     get renderer(): IRenderer {
         return this._renderer;
     }
@@ -614,21 +1297,108 @@ export class ControllerBase extends EventDispatcher {
     get children(): ControllerBase[] {
         return this._children.slice(0, this._children.length);
     }
+
+    get destroyed(): boolean {
+        return this._destroyed;
+    }
+
+    /**
+     * return true if the focused element is inside the view
+     * @return {boolean} true if component has focus
+     */
+    get hasFocus(): boolean {
+        let target: HTMLElement = this._getFocusTarget();
+        let focused: Element = getActiveElement(target.ownerDocument);
+
+        return focused !== null && containsNode(target, focused);
+    }
+
+    /**
+     * return true if component is reachable by the tab key
+     * @return {boolean} true if component is in the tab order
+     */
+    get focusable(): boolean {
+        let target: HTMLElement = this._getFocusTarget();
+        return (target.hasAttribute("tabindex") || isNativelyFocusable(target)) && target.tabIndex >= 0;
+    }
+
+    /**
+     * add component to the tab order or remove it
+     * @param {boolean} val true if component is reachable by the tab key
+     */
+    set focusable(val: boolean) {
+        if (val && !this.focusable)
+            this._getFocusTarget().tabIndex = 0;
+        else if (!val)
+            this._getFocusTarget().tabIndex = -1;
+    }
+
+    /**
+     * get position of the component in the tab order
+     * @return {number} tabindex of the focus target
+     */
+    get tabIndex(): number {
+        return this._getFocusTarget().tabIndex;
+    }
+
+    /**
+     * set position of the component in the tab order
+     * @param {number} val tabindex of the focus target
+     */
+    set tabIndex(val: number) {
+        this._getFocusTarget().tabIndex = val;
+    }
+
+    /**
+     * get model of the controller
+     * if controller has no own model, model of the parent (or the application model) is used
+     * @return {ObservableModel} model of the controller
+     */
+    get model(): ObservableModel {
+        if (this._model)
+            return this._model;
+
+        if (this._parent)
+            return this._parent.model;
+
+        return <ObservableModel>this._serviceManager.getServiceByPath("owl.model");
+    }
+
+    /**
+     * set own model of the controller and reconnect bindings
+     * @param {ObservableModel} val new model
+     */
+    set model(val: ObservableModel) {
+        this._model = val;
+
+        if (this._view)
+            this._reconnectBindings();
+    }
 }
 
 
 export class DomEventGateway {
 
+    /**
+     * name of the property marking DOM events already dispatched by some controller
+     * the event reaches parent controllers by the OWL event bubbling
+     * @type {String}
+     */
+    static DISPATCHED_MARK = "owlDispatched";
+
     private _controller: ControllerBase;
 
     private _rootNode: CommonHtmlNode;
 
     private _managedEventTypes: string[];
 
+    private _listener: EventListener;
+
     constructor(controller: ControllerBase) {
         this._controller = controller;
         this._rootNode = controller.view;
         this._managedEventTypes = new Array<string>();
+        this._listener = (evt) => { this._handleEvent(evt); };
     }
 
     public listenForEnumeratedEvents(eventTypes: string[]) : void {
@@ -638,23 +1408,95 @@ export class DomEventGateway {
     }
 
     public listenForEvent(eventType) : void {
-        this._rootNode.addEventListener(eventType, (evt) => { this._handleEvent(evt); });
+        if (this._managedEventTypes.indexOf(eventType) != -1)
+            return;
+
+        this._rootNode.addEventListener(eventType, this._listener);
+        this._managedEventTypes.push(eventType);
+    }
+
+    /**
+     * remove all DOM listeners registered by the gateway
+     */
+    public unlistenAll() : void {
+        for (let eventType of this._managedEventTypes)
+            this._rootNode.removeEventListener(eventType, this._listener);
+
+        this._managedEventTypes = new Array<string>();
     }
 
     private _handleEvent(event: Event) : void {
+        if (event[DomEventGateway.DISPATCHED_MARK])
+            return;
+
+        event[DomEventGateway.DISPATCHED_MARK] = true;
         let wrappedEvent = new DomEvent(event);
         this._controller.dispatchEvent(wrappedEvent);
     }
 }
 
 
+/**
+ * create function registering the component
+ * dependencies declared by the static inject list of the controller are passed to its constructor after the name
+ * @param {string} baseNs service namespace of the renderer and controller
+ * @param {string} name name of the component
+ * @param {Function} renderer renderer class
+ * @param {Function} controller controller class
+ * @return {Function} registration function (cm: ComponentFactory, sm: ServiceManager) => void
+ */
 export function registerFunctionFactory(baseNs: string, name: string, renderer, controller): Function {
     return (cm: ComponentFactory, sm: ServiceManager) => {
         let rendererName: string = baseNs + ".renderer";
         let controllerName: string = baseNs + ".controller";
 
         sm.registerService(rendererName, () => { return new renderer(); }, false);
-        sm.registerService(controllerName, () => { return new controller(name); }, false);
+        sm.registerService(controllerName, createClassFactory(controller, name), false, getDependencies(controller));
+
+        let dsc: ComponentDescription = new ComponentDescription(name, rendererName, controllerName);
+        cm.registerComponent(dsc);
+    }
+}
+
+
+/**
+ * renderer and controller classes of the component loaded on demand
+ */
+export interface ComponentClasses {
+    renderer: Function;
+    controller: Function;
+}
+
+
+/**
+ * create function registering the component whose classes are loaded asynchronously (e.g. code-split bundle)
+ * loader is called once, when the first instance is inserted
+ * the loaded controller replaces the controller service, so its dependencies are resolved
+ * by the service manager (scope) requesting the component
+ * @param {string} baseNs service namespace of the renderer and controller
+ * @param {string} name name of the component
+ * @param {Function} loader function returning Promise resolved with the component classes
+ * @return {Function} registration function (cm: ComponentFactory, sm: ServiceManager) => void
+ */
+export function registerAsyncFunctionFactory(baseNs: string, name: string, loader: () => Promise<ComponentClasses>): Function {
+    return (cm: ComponentFactory, sm: ServiceManager) => {
+        let classesName: string = baseNs + ".classes";
+        let rendererName: string = baseNs + ".renderer";
+        let controllerName: string = baseNs + ".controller";
+
+        sm.registerAsyncService(classesName, () => {
+            return loader().then((classes: ComponentClasses) => {
+                sm.overrideService(controllerName, createClassFactory(classes.controller, name), false, getDependencies(classes.controller));
+                return classes;
+            });
+        });
+        sm.registerService(rendererName, (classes: ComponentClasses) => {
+            return createClassFactory(classes.renderer)();
+        }, false, [classesName]);
+        // replaced by the loaded controller, requests started before the loading are passed to the replacement
+        sm.registerAsyncService(controllerName, (classes: ComponentClasses) => {
+            return sm.getServiceAsync(controllerName);
+        }, false, [classesName]);
 
         let dsc: ComponentDescription = new ComponentDescription(name, rendererName, controllerName);
         cm.registerComponent(dsc);
@@ -663,29 +1505,54 @@ export function registerFunctionFactory(baseNs: string, name: string, renderer,
 
 
 export function bindStaticEvents(controller: ControllerBase, originalNode: HTMLElement): void {
+    let removers: Function[] = new Array<Function>();
+
     for (let i = 0; i < originalNode.attributes.length; ++i) {
         let attr: Attr = originalNode.attributes.item(i);
 
-        if (isStaticEvent(attr)) {
-            let eventType = getStaticEventType(attr);
-            let expr = attr.value;
-            let handler = createStaticEventHandler(expr, controller);
-            controller.addEventListener(eventType, handler);
+        if (StaticEventBinding.isStaticEvent(attr.name)) {
+            removers.push(new StaticEventBinding(attr.name, attr.value).bind(controller));
+        } else if (isPropertyBinding(attr)) {
+            let binding = new PropertyBinding(controller, getBoundPropertyName(attr), attr.value);
+            controller.addBinding(binding);
         }
     }
+
+    if (removers.length) {
+        controller.once(ControllerBase.EVENT_DESTROYED, () => {
+            for (let remover of removers)
+                remover();
+        });
+    }
 }
 
-function isStaticEvent(attr: Attr): boolean {
-    return attr.name.substr(0, 5) == "hoot:";
+/**
+ * find controller owning the node (the nearest view root among the ancestors)
+ * @param {Node} node node inside some view
+ * @return {ControllerBase} owning controller (NULL if the node is not inside any view)
+ */
+export function findController(node: Node): ControllerBase {
+    let current: Node = node;
+
+    while (current) {
+        if (current[ControllerBase.VIEW_CONTROLLER_PROPERTY])
+            return current[ControllerBase.VIEW_CONTROLLER_PROPERTY];
+
+        if (current.nodeType == Node.DOCUMENT_FRAGMENT_NODE && (<ShadowRoot>current).host)
+            current = (<ShadowRoot>current).host;
+        else
+            current = current.parentNode;
+    }
+
+    return null;
 }
 
-function getStaticEventType(attr: Attr): string {
-    return attr.name.substr(5);
+function isPropertyBinding(attr: Attr): boolean {
+    return attr.name.substr(0, 5) == "bind:";
 }
 
-function createStaticEventHandler(expr: string, context: ControllerBase): Function {
-    let result = new Function("$event", expr);
-    return result.bind(context);
+function getBoundPropertyName(attr: Attr): string {
+    return toCamelCase(attr.name.substr(5));
 }
 
 
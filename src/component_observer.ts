@@ -0,0 +1,131 @@
+import { ComponentInserter, ControllerBase } from "./component"
+import { containsNode } from "./dom"
+
+
+/**
+ * watch the application root element and keep components in sync with the DOM
+ * placeholders added later are replaced by components
+ * controllers whose view was removed from the DOM are destroyed
+ * changes inside shadow roots of the components are not observed
+ */
+export class ComponentObserver {
+
+    /**
+     * inserter used to insert new components
+     * @type {ComponentInserter}
+     */
+    private _inserter: ComponentInserter;
+
+    /**
+     * root controller of the application
+     * @type {ControllerBase}
+     */
+    private _rootController: ControllerBase;
+
+    /**
+     * observed root element
+     * @type {HTMLElement}
+     */
+    private _rootElement: HTMLElement;
+
+    /**
+     * the mutation observer instance (NULL if not observing)
+     * @type {MutationObserver}
+     */
+    private _observer: MutationObserver;
+
+    /**
+     * initialize instance
+     * @param {ComponentInserter} inserter inserter used to insert new components
+     * @param {ControllerBase} rootController root controller of the application
+     */
+    constructor(inserter: ComponentInserter, rootController: ControllerBase) {
+        this._inserter = inserter;
+        this._rootController = rootController;
+        this._rootElement = <HTMLElement>rootController.view.node;
+        this._observer = null;
+    }
+
+    /**
+     * start observing of the root element
+     */
+    public start() : void {
+        if (this._observer)
+            return;
+
+        this._observer = new MutationObserver((records: MutationRecord[]) => {
+            this._processRecords(records);
+        });
+        this._observer.observe(this._rootElement, { childList: true, subtree: true });
+    }
+
+    /**
+     * stop observing of the root element
+     */
+    public stop() : void {
+        if (!this._observer)
+            return;
+
+        this._observer.disconnect();
+        this._observer = null;
+    }
+
+    /**
+     * return true if root element is observed
+     * @return {boolean} true if observing
+     */
+    get isObserving(): boolean {
+        return this._observer !== null;
+    }
+
+    /**
+     * process mutation records
+     * @param {MutationRecord[]} records records to process
+     */
+    private _processRecords(records: MutationRecord[]) : void {
+        let removalFound: boolean = false;
+
+        for (let record of records) {
+            if (record.removedNodes.length)
+                removalFound = true;
+
+            for (let i = 0; i < record.addedNodes.length; ++i)
+                this._processAddedNode(record.addedNodes.item(i));
+        }
+
+        if (removalFound)
+            this._destroyDetachedControllers(this._rootController);
+
+        // changes made by the observer itself are already processed
+        if (this._observer)
+            this._observer.takeRecords();
+    }
+
+    /**
+     * insert components into the added node
+     * @param {Node} node added node
+     */
+    private _processAddedNode(node: Node) : void {
+        if (node.nodeType != Node.ELEMENT_NODE || !containsNode(this._rootElement, node))
+            return;
+
+        try {
+            this._inserter.insertComponentsInto(<HTMLElement>node);
+        } catch (err) {
+            console.error(err);
+        }
+    }
+
+    /**
+     * destroy child controllers which view is not in the application tree
+     * @param {ControllerBase} controller controller whose children are checked
+     */
+    private _destroyDetachedControllers(controller: ControllerBase) : void {
+        for (let child of controller.children) {
+            if (containsNode(this._rootElement, child.view.node))
+                this._destroyDetachedControllers(child);
+            else
+                child.destroy();
+        }
+    }
+}
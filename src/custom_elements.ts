@@ -0,0 +1,319 @@
+import { ComponentFactory, ComponentInserter, ControllerManager, ControllerBase, bindStaticEvents } from "./component"
+import { DomManipulator } from "./dom"
+import { IRenderer } from "./rendering"
+import { OwlEvent } from "./events"
+import { isWritableProperty } from "./binding"
+import { OptionDefinitionLookup, OptionError, toKebabCase, toCamelCase, findOptionByAttribute, readOption } from "./options"
+
+
+/**
+ * options of the exported custom element
+ */
+export interface CustomElementOptions {
+
+    /**
+     * name of the custom element ("owl-" + kebab-case form of the component name by default)
+     * @type {string}
+     */
+    tagName?: string;
+
+    /**
+     * attributes whose changes are written to the controller properties of the same (camelCase) name
+     * @type {string[]}
+     */
+    observedAttributes?: string[];
+
+    /**
+     * controller events dispatched as DOM CustomEvents on the element (["change"] by default)
+     * DOM event type is prefixed by "owl:" (e.g. "owl:change"), so it does not collide with the native events
+     * @type {string[]}
+     */
+    events?: string[];
+}
+
+
+/**
+ * window providing constructor of the HTML elements
+ */
+interface ElementWindow extends Window {
+    HTMLElement: typeof HTMLElement;
+}
+
+
+/**
+ * constructor of the custom element
+ */
+interface ElementClass {
+    (): HTMLElement;
+    prototype: HTMLElement;
+}
+
+
+/**
+ * export registered components as custom elements (Web Components)
+ * the component is rendered into the element when it is connected to the document
+ * and destroyed when the element is disconnected
+ */
+export class CustomElementAdapter {
+
+    /**
+     * name of the element property holding the controller
+     * @type {String}
+     */
+    static CONTROLLER_PROPERTY = "owlController";
+
+    /**
+     * prefix of the default element names
+     * @type {String}
+     */
+    static TAG_PREFIX = "owl-";
+
+    /**
+     * prefix of the forwarded DOM events
+     * @type {String}
+     */
+    static EVENT_PREFIX = "owl:";
+
+    /**
+     * component factory
+     * @type {ComponentFactory}
+     */
+    private _componentFactory: ComponentFactory;
+
+    /**
+     * inserter used for the components nested in the rendered content
+     * @type {ComponentInserter}
+     */
+    private _inserter: ComponentInserter;
+
+    /**
+     * manage controllers
+     * @type {ControllerManager}
+     */
+    private _controllerManager: ControllerManager;
+
+    /**
+     * the instance of dom manipulator
+     * @type {DomManipulator}
+     */
+    private _domManipulator: DomManipulator;
+
+    /**
+     * initialize instance
+     * @param {ComponentFactory} componentFactory component factory
+     * @param {ComponentInserter} inserter inserter used for the nested components
+     * @param {ControllerManager} controllerManager manage controllers
+     * @param {DomManipulator} domManipulator dom manipulator
+     */
+    constructor(componentFactory: ComponentFactory, inserter: ComponentInserter, controllerManager: ControllerManager, domManipulator: DomManipulator) {
+        this._componentFactory = componentFactory;
+        this._inserter = inserter;
+        this._controllerManager = controllerManager;
+        this._domManipulator = domManipulator;
+    }
+
+    /**
+     * define custom element for the component
+     * @param {string} componentName name of the registered component
+     * @param {CustomElementOptions={}} options options of the custom element
+     * @return {string} name of the defined element
+     * @throws Error component does not exist or element is already defined
+     */
+    public define(componentName: string, options: CustomElementOptions={}) : string {
+        if (!this._componentFactory.hasComponent(componentName))
+            throw new Error("Component '" + componentName + "' does not exist");
+
+        let tagName: string = options.tagName || this._getDefaultTagName(componentName);
+        let registry: CustomElementRegistry = this._domManipulator.window.customElements;
+
+        if (!registry)
+            throw new Error("Custom elements are not supported");
+
+        if (registry.get(tagName))
+            throw new Error("Custom element '" + tagName + "' is already defined");
+
+        registry.define(tagName, this._createElementClass(componentName, options));
+        return tagName;
+    }
+
+    /**
+     * define custom elements for all registered components
+     * @return {string[]} names of the defined elements
+     */
+    public defineAll() : string[] {
+        let result: string[] = new Array<string>();
+
+        for (let componentName of this._componentFactory.getComponentNames())
+            result.push(this.define(componentName));
+
+        return result;
+    }
+
+    /**
+     * get controller of the custom element
+     * @param {HTMLElement} element the custom element
+     * @return {ControllerBase} controller (NULL if the element is not connected)
+     */
+    public static getController(element: HTMLElement) : ControllerBase {
+        return element[CustomElementAdapter.CONTROLLER_PROPERTY] || null;
+    }
+
+    /**
+     * get element name derived from the component name (e.g. "owl-simple-button" for "owlSimpleButton")
+     * @param {string} componentName name of the component
+     * @return {string} element name
+     */
+    private _getDefaultTagName(componentName: string) : string {
+        let tagName: string = toKebabCase(componentName);
+
+        if (tagName.substr(0, CustomElementAdapter.TAG_PREFIX.length) == CustomElementAdapter.TAG_PREFIX)
+            return tagName;
+
+        return CustomElementAdapter.TAG_PREFIX + tagName;
+    }
+
+    /**
+     * create constructor of the custom element
+     * the constructor is plain function, because custom elements can not be created by ES5 classes
+     * @param {string} componentName name of the component
+     * @param {CustomElementOptions} options options of the custom element
+     * @return {Function} element constructor
+     */
+    private _createElementClass(componentName: string, options: CustomElementOptions) : Function {
+        let adapter: CustomElementAdapter = this;
+        let win: ElementWindow = <ElementWindow>this._domManipulator.window;
+        let observedAttributes: string[] = options.observedAttributes || [];
+        let events: string[] = options.events || [ControllerBase.EVENT_CHANGE];
+
+        let elementClass: ElementClass = <ElementClass>function() : HTMLElement {
+            return Reflect.construct(win.HTMLElement, [], elementClass);
+        };
+
+        elementClass.prototype = Object.create(win.HTMLElement.prototype);
+        elementClass.prototype.constructor = elementClass;
+        Object.setPrototypeOf(elementClass, win.HTMLElement);
+
+        Object.defineProperty(elementClass, "observedAttributes", {
+            get: () => { return observedAttributes; }
+        });
+
+        elementClass.prototype["connectedCallback"] = function() {
+            adapter._connect(this, componentName, events);
+        };
+
+        elementClass.prototype["disconnectedCallback"] = function() {
+            adapter._disconnect(this);
+        };
+
+        elementClass.prototype["attributeChangedCallback"] = function(name: string, oldValue: string, newValue: string) {
+            adapter._changeAttribute(this, componentName, name, newValue);
+        };
+
+        return elementClass;
+    }
+
+    /**
+     * render the component into the connected element
+     * @param {HTMLElement} element connected element
+     * @param {string} componentName name of the component
+     * @param {string[]} events controller events dispatched on the element
+     */
+    private _connect(element: HTMLElement, componentName: string, events: string[]) : void {
+        if (CustomElementAdapter.getController(element))
+            return;
+
+        let controller: ControllerBase = this._componentFactory.createComponentInstance(componentName, element);
+        let view: HTMLElement = <HTMLElement>controller.view.node;
+
+        // the id belongs to the element itself
+        if (element.id && view.getAttribute("id") == element.id)
+            view.removeAttribute("id");
+
+        element[CustomElementAdapter.CONTROLLER_PROPERTY] = controller;
+        element.appendChild(view);
+        controller.repaint();
+
+        if (controller.id)
+            this._controllerManager.registerComponent(controller);
+
+        bindStaticEvents(controller, element);
+        controller.initialize();
+        this._inserter.insertComponentsInto(view);
+
+        for (let eventType of events)
+            this._forwardEvent(controller, element, eventType);
+    }
+
+    /**
+     * destroy the component of the disconnected element
+     * destruction is deferred to the microtask, so the moved element (disconnected and connected again)
+     * keeps its component and the projected content
+     * @param {HTMLElement} element disconnected element
+     */
+    private _disconnect(element: HTMLElement) : void {
+        let controller: ControllerBase = CustomElementAdapter.getController(element);
+
+        if (!controller)
+            return;
+
+        Promise.resolve().then(() => {
+            if (element.isConnected || CustomElementAdapter.getController(element) !== controller)
+                return;
+
+            delete element[CustomElementAdapter.CONTROLLER_PROPERTY];
+            controller.destroy();
+        });
+    }
+
+    /**
+     * write changed attribute to the controller property
+     * the value is coerced by the option schema of the renderer if the option is declared
+     * (only the changed option is read, other attributes are not validated again)
+     * @param {HTMLElement} element the custom element
+     * @param {string} componentName name of the component
+     * @param {string} name name of the attribute
+     * @param {string} value new value of the attribute (NULL if removed)
+     * @throws OptionError the value does not match the option schema
+     */
+    private _changeAttribute(element: HTMLElement, componentName: string, name: string, value: string) : void {
+        let controller: ControllerBase = CustomElementAdapter.getController(element);
+
+        // attributes of not connected element are read as options on connect
+        if (!controller)
+            return;
+
+        let renderer: IRenderer = controller.renderer;
+        let schema: OptionDefinitionLookup = (typeof renderer.getOptionSchema == "function") ? renderer.getOptionSchema() : {};
+        let option: string = findOptionByAttribute(schema, name);
+        let property: string = option || toCamelCase(name);
+
+        if (!isWritableProperty(controller, property))
+            return;
+
+        if (option === null) {
+            controller[property] = value;
+            return;
+        }
+
+        try {
+            controller[property] = readOption(name, value, schema[option]);
+        } catch (err) {
+            if (err instanceof OptionError)
+                throw new OptionError(err.attribute, err.reason, componentName);
+
+            throw err;
+        }
+    }
+
+    /**
+     * dispatch controller events as DOM events on the element (with "owl:" prefix)
+     * @param {ControllerBase} controller source controller
+     * @param {HTMLElement} element the custom element
+     * @param {string} eventType type of the event
+     */
+    private _forwardEvent(controller: ControllerBase, element: HTMLElement, eventType: string) : void {
+        controller.addEventListener(eventType, (evt: OwlEvent) => {
+            element.dispatchEvent(new CustomEvent(CustomElementAdapter.EVENT_PREFIX + eventType, { detail: evt, bubbles: true }));
+        });
+    }
+}
@@ -0,0 +1,260 @@
+import { AbstractRenderer, RenderResult, EntryNodeLookup } from "./rendering"
+import { DomManipulator, CommonHtmlNode, CommonHtmlElement, CommonHtmlText } from "./dom"
+import { ControllerBase, ComponentFactory, ComponentDescription } from "./component"
+import { ServiceManager, getDependencies, createClassFactory } from "./service_management"
+import { OptionDefinitionLookup } from "./options"
+import { isWritableProperty } from "./binding"
+
+
+/**
+ * declarative description of the component
+ */
+export interface ComponentDefinition {
+
+    /**
+     * name of the component (e.g. "myCard" for <owl:my-card>)
+     * @type {string}
+     */
+    name: string;
+
+    /**
+     * HTML template, elements marked by owl-entry="name" become entry nodes
+     * original content marked by slot="name" is moved into the entry of the same name,
+     * the rest into the "content" entry (or into the root if there is no such entry)
+     * content of the template entries is kept as fallback if nothing is moved into them
+     * @type {string}
+     */
+    template: string;
+
+    /**
+     * kinds of the entry nodes: "element" (default), "text" (text content of the marked element)
+     * or "attribute:<name>" (attribute of the marked element)
+     * @type {EntryKindLookup}
+     */
+    entries?: EntryKindLookup;
+
+    /**
+     * declared options
+     * values are applied to the writable controller properties of the same name
+     * @type {OptionDefinitionLookup}
+     */
+    options?: OptionDefinitionLookup;
+
+    /**
+     * controller class (ControllerBase by default)
+     * @type {typeof ControllerBase}
+     */
+    controller?: typeof ControllerBase;
+
+    /**
+     * if true, rendered content is attached to the shadow root
+     * @type {boolean}
+     */
+    shadowDom?: boolean;
+
+    /**
+     * CSS code of the component scoped stylesheets (used in shadow DOM mode)
+     * @type {string[]}
+     */
+    styles?: string[];
+
+    /**
+     * service namespace of the renderer and controller ("owl.component.defined.<name>" by default)
+     * @type {string}
+     */
+    namespace?: string;
+}
+
+
+/**
+ * the key is entry node name
+ * the value is kind of the entry
+ */
+export class EntryKindLookup {
+    [name: string]: string;
+}
+
+
+/**
+ * renderer of the components created by defineComponent
+ */
+export class DefinedRenderer extends AbstractRenderer {
+
+    /**
+     * name of the attribute marking entry nodes
+     * @type {String}
+     */
+    static ENTRY_ATTRIBUTE = "owl-entry";
+
+    /**
+     * name of the entry where original content is moved to
+     * @type {String}
+     */
+    static ENTRY_CONTENT = "content";
+
+    /**
+     * definition of the component
+     * @type {ComponentDefinition}
+     */
+    private _definition: ComponentDefinition;
+
+    /**
+     * initialize instance
+     * @param {ComponentDefinition} definition definition of the component
+     */
+    constructor(definition: ComponentDefinition) {
+        super();
+        this._definition = definition;
+    }
+
+    public render(originalNode: CommonHtmlElement, manipulator: DomManipulator, options: Object) : RenderResult {
+        let rootNode: CommonHtmlElement = manipulator.createNewFragment(this._definition.template);
+        let entryNodes: EntryNodeLookup = this._collectEntries(rootNode, manipulator);
+        let contentEntry: CommonHtmlNode = entryNodes[DefinedRenderer.ENTRY_CONTENT];
+        let defaultTarget: CommonHtmlElement = (contentEntry instanceof CommonHtmlElement) ? contentEntry : rootNode;
+
+        this._projectContent(originalNode, entryNodes, defaultTarget);
+
+        this._setupId(rootNode, options);
+        this._setupClassNames(rootNode, options);
+
+        let result: RenderResult = new RenderResult(rootNode, entryNodes);
+        this._processRenderResult(result);
+
+        return result;
+    }
+
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+
+        for (let name in this._definition.options)
+            schema[name] = this._definition.options[name];
+
+        return schema;
+    }
+
+    /**
+     * find marked elements and build entry node lookup
+     * @param {CommonHtmlElement} rootNode rendered template
+     * @param {DomManipulator} manipulator dom manipulator
+     * @return {EntryNodeLookup} entry nodes
+     */
+    private _collectEntries(rootNode: CommonHtmlElement, manipulator: DomManipulator) : EntryNodeLookup {
+        let entryNodes: EntryNodeLookup = new EntryNodeLookup();
+        let marked: Element[] = Array.prototype.slice.call(
+            rootNode.element.querySelectorAll("[" + DefinedRenderer.ENTRY_ATTRIBUTE + "]"));
+
+        if (rootNode.element.hasAttribute(DefinedRenderer.ENTRY_ATTRIBUTE))
+            marked.unshift(rootNode.element);
+
+        for (let element of marked) {
+            let name: string = element.getAttribute(DefinedRenderer.ENTRY_ATTRIBUTE);
+            element.removeAttribute(DefinedRenderer.ENTRY_ATTRIBUTE);
+
+            let mapped: CommonHtmlElement = <CommonHtmlElement>manipulator.mapNode(element);
+            entryNodes[name] = this._resolveEntry(name, mapped, manipulator);
+        }
+
+        return entryNodes;
+    }
+
+    /**
+     * get entry node of the declared kind
+     * @param {string} name name of the entry
+     * @param {CommonHtmlElement} element marked element
+     * @param {DomManipulator} manipulator dom manipulator
+     * @return {CommonHtmlNode} entry node
+     * @throws Error unknown entry kind
+     */
+    private _resolveEntry(name: string, element: CommonHtmlElement, manipulator: DomManipulator) : CommonHtmlNode {
+        let kinds: EntryKindLookup = this._definition.entries || new EntryKindLookup();
+        let kind: string = kinds[name] || "element";
+
+        if (kind == "element")
+            return element;
+
+        if (kind == "text")
+            return this._getTextNode(element, manipulator);
+
+        if (kind.substr(0, 10) == "attribute:") {
+            let attributeName: string = kind.substr(10);
+
+            if (!element.attributes.has(attributeName))
+                element.attributes.set(attributeName, "");
+
+            return element.attributes.get(attributeName);
+        }
+
+        throw new Error("Unknown kind '" + kind + "' of the entry '" + name + "'");
+    }
+
+    /**
+     * get first text child of the element (created if missing)
+     * @param {CommonHtmlElement} element parent element
+     * @param {DomManipulator} manipulator dom manipulator
+     * @return {CommonHtmlText} text node
+     */
+    private _getTextNode(element: CommonHtmlElement, manipulator: DomManipulator) : CommonHtmlText {
+        for (let child of element.chidlren) {
+            if (child instanceof CommonHtmlText)
+                return child;
+        }
+
+        let text: Text = element.element.ownerDocument.createTextNode("");
+        element.element.appendChild(text);
+
+        return <CommonHtmlText>manipulator.mapNode(text);
+    }
+}
+
+
+/**
+ * create function registering the declared component
+ * @param {ComponentDefinition} definition definition of the component
+ * @return {Function} registration function (cm: ComponentFactory, sm: ServiceManager) => void
+ */
+export function defineComponent(definition: ComponentDefinition): Function {
+    let baseNs: string = definition.namespace || "owl.component.defined." + definition.name;
+    let controllerClass = createControllerClass(definition.controller || ControllerBase, definition.options);
+
+    return (cm: ComponentFactory, sm: ServiceManager) => {
+        let rendererName: string = baseNs + ".renderer";
+        let controllerName: string = baseNs + ".controller";
+
+        sm.registerService(rendererName, () => { return new DefinedRenderer(definition); }, false);
+        sm.registerService(controllerName, createClassFactory(controllerClass, definition.name), false, getDependencies(controllerClass));
+
+        let dsc: ComponentDescription = new ComponentDescription(definition.name, rendererName, controllerName);
+        dsc.shadowDom = !!definition.shadowDom;
+
+        for (let css of definition.styles || [])
+            dsc.addStyles(css);
+
+        cm.registerComponent(dsc);
+    }
+}
+
+
+/**
+ * extend controller class to apply declared options to its properties
+ * @param {typeof ControllerBase} base controller class
+ * @param {OptionDefinitionLookup} definitions declared options
+ * @return {typeof ControllerBase} extended class
+ */
+function createControllerClass(base: typeof ControllerBase, definitions: OptionDefinitionLookup): typeof ControllerBase {
+    if (!definitions)
+        return base;
+
+    return class extends base {
+
+        public setup(renderedContent: RenderResult, options: Object) : void {
+            super.setup(renderedContent, options);
+
+            for (let name in definitions) {
+                if (isWritableProperty(this, name))
+                    this[name] = options[name];
+            }
+        }
+    };
+}
+
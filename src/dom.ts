@@ -18,14 +18,53 @@ export class DomManipulator {
         this.rootElement = <CommonHtmlElement>this.mapNode(rootElement);
     }
 
+    /**
+     * parse HTML with one root element (whitespace around the element is ignored)
+     * @param {string} html HTML code to parse
+     * @return {CommonHtmlElement} the root element
+     * @throws Error there is no root element, more of them or text next to it
+     */
     public createNewFragment(html: string) : CommonHtmlElement {
         let parser: DOMParser = new DOMParser();
         let fragment: Document = parser.parseFromString(html, "text/html");
-        let element: HTMLElement = <HTMLElement>fragment.body.firstChild;
+        let children: NodeList = fragment.body.childNodes;
+        let element: HTMLElement = null;
+
+        for (let i = 0; i < children.length; ++i) {
+            let child: Node = children.item(i);
+
+            if (child.nodeType == Node.TEXT_NODE && !child.textContent.trim())
+                continue;
+
+            if (child.nodeType != Node.ELEMENT_NODE || element)
+                throw new Error("Template '" + html + "' has to have exactly one root element");
+
+            element = <HTMLElement>child;
+        }
+
+        if (!element)
+            throw new Error("Template '" + html + "' has to have exactly one root element");
 
         return <CommonHtmlElement>this.mapNode(element);
     }
 
+    /**
+     * parse HTML and return all top level nodes
+     * @param {string} html HTML code to parse
+     * @return {CommonNodeList} parsed nodes
+     */
+    public createNodes(html: string) : CommonNodeList {
+        let parser: DOMParser = new DOMParser();
+        let fragment: Document = parser.parseFromString(html, "text/html");
+        let children: NodeList = fragment.body.childNodes;
+        let result: CommonNodeList = CommonNodeList.createInstance();
+
+        for (let i = 0; i < children.length; ++i)
+            result.push(this.mapNode(children.item(i)));
+
+        return result;
+    }
+
     public createAttribute(name: string, value:string=null) : CommonHtmlAttribute {
         let attr = this.rootElement.element.ownerDocument.createAttribute(name);
         attr.value = value;
@@ -53,6 +92,46 @@ export class DomManipulator {
         return mappedNode;
     }
 
+    /**
+     * remove node and whole its subtree (including attributes and shadow root) from the cache
+     * @param {Node} node raw node to release
+     */
+    public releaseNode(node: Node) : void {
+        if (this._cache.isCached(node))
+            this._cache.removeElement(node);
+
+        if (node.nodeType == Node.ELEMENT_NODE) {
+            let attributes: NamedNodeMap = (<Element>node).attributes;
+
+            for (let i = 0; i < attributes.length; ++i)
+                this.releaseNode(attributes.item(i));
+        }
+
+        for (let i = 0; i < node.childNodes.length; ++i)
+            this.releaseNode(node.childNodes.item(i));
+
+        if (node.nodeType == Node.ELEMENT_NODE && (<Element>node).shadowRoot)
+            this.releaseNode((<Element>node).shadowRoot);
+    }
+
+    /**
+     * attach open shadow root to the element
+     * @param {CommonHtmlElement} host element hosting the shadow root
+     * @param {string[]} styles CSS code inserted into the shadow root as style elements
+     * @return {ShadowRoot} created shadow root
+     */
+    public attachShadowRoot(host: CommonHtmlElement, styles: string[]) : ShadowRoot {
+        let shadowRoot: ShadowRoot = host.element.attachShadow({ mode: "open" });
+
+        for (let css of styles) {
+            let style: HTMLStyleElement = this.window.document.createElement("style");
+            style.textContent = css;
+            shadowRoot.appendChild(style);
+        }
+
+        return shadowRoot;
+    }
+
     private _initializeLookup() : void {
         this._initializeAttrLookup();
         this._initializeTextLookup();
@@ -92,6 +171,92 @@ export function domManipulatorFactory(window: Window, rootElement: HTMLElement)
 }
 
 
+/**
+ * test if node is in the subtree of the root, shadow roots are crossed through their hosts
+ * @param {Node} root root of the subtree
+ * @param {Node} node node to test
+ * @return {boolean} true if node is in the subtree
+ */
+export function containsNode(root: Node, node: Node) : boolean {
+    let current: Node = node;
+
+    while (current) {
+        if (current === root)
+            return true;
+
+        if (current.nodeType == Node.DOCUMENT_FRAGMENT_NODE && (<ShadowRoot>current).host)
+            current = (<ShadowRoot>current).host;
+        else
+            current = current.parentNode;
+    }
+
+    return false;
+}
+
+
+/**
+ * get focused element of the document, shadow roots are entered through their hosts
+ * @param {Document} document the document
+ * @return {Element} focused element (NULL if nothing is focused)
+ */
+export function getActiveElement(document: Document) : Element {
+    let focused: Element = document.activeElement;
+
+    while (focused && focused.shadowRoot && focused.shadowRoot.activeElement)
+        focused = focused.shadowRoot.activeElement;
+
+    return focused || null;
+}
+
+
+/**
+ * selector of the elements focusable without tabindex
+ * @type {String}
+ */
+const NATIVELY_FOCUSABLE = "a[href], area[href], button, input, select, textarea, iframe, [contenteditable]";
+
+
+/**
+ * test if element can receive focus without tabindex attribute
+ * @param {Element} element element to test
+ * @return {boolean} true if element is natively focusable
+ */
+export function isNativelyFocusable(element: Element) : boolean {
+    return element.matches(NATIVELY_FOCUSABLE) && !element.hasAttribute("disabled");
+}
+
+
+/**
+ * get elements reachable by the tab key in the document order
+ * @param {Element} root root of the searched subtree (included)
+ * @return {HTMLElement[]} tabbable elements
+ */
+export function getTabbableElements(root: Element) : HTMLElement[] {
+    let candidates: HTMLElement[] = Array.prototype.slice.call(root.querySelectorAll(NATIVELY_FOCUSABLE + ", [tabindex]"));
+    candidates.unshift(<HTMLElement>root);
+
+    let result: HTMLElement[] = candidates.filter((element: HTMLElement) => {
+        let tabIndex: string = element.getAttribute("tabindex");
+
+        if (tabIndex !== null)
+            return parseInt(tabIndex, 10) >= 0 && !element.hasAttribute("disabled");
+
+        return isNativelyFocusable(element);
+    });
+
+    // positive tabindex goes first, stable sort keeps document order
+    return result
+        .map((element: HTMLElement, index: number) => { return { element: element, index: index }; })
+        .sort((a, b) => {
+            let aTab: number = a.element.tabIndex > 0 ? a.element.tabIndex : Infinity;
+            let bTab: number = b.element.tabIndex > 0 ? b.element.tabIndex : Infinity;
+
+            return (aTab == bTab) ? a.index - b.index : (aTab < bTab ? -1 : 1);
+        })
+        .map((item) => { return item.element; });
+}
+
+
 class NodeMapperAbstractFactoryLookup {
     [key: number]: NodeMapperAbstractFactory;
 }
@@ -331,6 +496,7 @@ class MappedElementCache {
     public removeElement(node: Node) : void {
         let id: number = this._getNodeId(node);
         delete this._cache[id];
+        delete (<Object>node)[MappedElementCache.ELEMENT_INTERNAL_ID_NAME];
     }
 
     /**
@@ -488,6 +654,18 @@ export class CommonHtmlNode {
         this.node.addEventListener(eventType, handler);
     }
 
+    public removeEventListener(eventType: string, handler: EventListener) : void {
+        this.node.removeEventListener(eventType, handler);
+    }
+
+    /**
+     * remove node from its parent (if any)
+     */
+    public detach() : void {
+        if (this._node.parentNode)
+            this._node.parentNode.removeChild(this._node);
+    }
+
     get node() : Node {
         return this._node;
     }
@@ -0,0 +1,15 @@
+/**
+ * base class of the errors thrown by the library
+ * restores prototype chain broken by extending Error in ES5, so instanceof works for the subclasses
+ */
+export class OwlError extends Error {
+
+    /**
+     * initialize instance
+     * @param {string} message description of the error
+     */
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
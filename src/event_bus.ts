@@ -0,0 +1,212 @@
+import { EventDispatcher, OwlEvent } from "./events"
+import { ControllerBase } from "./component"
+
+
+/**
+ * callback receiving messages of the channel
+ */
+export type MessageCallback<T> = (payload: T, message: BusMessage<T>) => void;
+
+
+/**
+ * message published to the channel
+ */
+export class BusMessage<T> extends OwlEvent {
+
+    /**
+     * name of the channel
+     * @type {string}
+     */
+    public readonly channel: string;
+
+    /**
+     * transfered payload
+     * @type {T}
+     */
+    public readonly payload: T;
+
+    /**
+     * initialize instance
+     * @param {string} channel name of the channel
+     * @param {T} payload transfered payload
+     */
+    constructor(channel: string, payload: T) {
+        super(Channel.EVENT_MESSAGE, payload);
+        this.channel = channel;
+        this.payload = payload;
+    }
+}
+
+
+/**
+ * named channel of the event bus
+ * the last published message is kept for the late subscribers
+ */
+export class Channel<T> extends EventDispatcher {
+
+    static EVENT_MESSAGE = "message";
+
+    /**
+     * name of the channel
+     * @type {string}
+     */
+    private _name: string;
+
+    /**
+     * last published payload
+     * @type {T}
+     */
+    private _lastPayload: T;
+
+    /**
+     * true if some message was published
+     * @type {boolean}
+     */
+    private _hasMessage: boolean;
+
+    /**
+     * initialize instance
+     * @param {string} name name of the channel
+     */
+    constructor(name: string) {
+        super();
+        this._name = name;
+        this._lastPayload = null;
+        this._hasMessage = false;
+    }
+
+    /**
+     * publish message to all subscribers
+     * @param {T} payload payload of the message
+     */
+    public publish(payload: T) : void {
+        this._lastPayload = payload;
+        this._hasMessage = true;
+        this.dispatchEvent(new BusMessage<T>(this._name, payload));
+    }
+
+    /**
+     * subscribe to the messages of the channel
+     * if owner is set, subscription is canceled when the owner dispatches "destroyed" event
+     * (e.g. when the subscribing controller is destroyed)
+     * @param {MessageCallback<T>} callback function receiving messages
+     * @param {EventDispatcher=null} owner owner of the subscription
+     * @param {boolean=false} replay if true, the last published message is passed to the callback immediately
+     * @return {Function} function canceling the subscription
+     */
+    public subscribe(callback: MessageCallback<T>, owner: EventDispatcher=null, replay: boolean=false) : Function {
+        let listenerRemover: Function = this.addEventListener(Channel.EVENT_MESSAGE, (message: BusMessage<T>) => {
+            callback(message.payload, message);
+        });
+        let ownerRemover: Function = null;
+        let unsubscribe = () => {
+            listenerRemover();
+
+            if (ownerRemover)
+                ownerRemover();
+        };
+
+        if (owner)
+            ownerRemover = owner.once(ControllerBase.EVENT_DESTROYED, unsubscribe);
+
+        if (replay && this._hasMessage)
+            callback(this._lastPayload, new BusMessage<T>(this._name, this._lastPayload));
+
+        return unsubscribe;
+    }
+
+    /**
+     * get name of the channel
+     * @return {string} name of the channel
+     */
+    get name(): string {
+        return this._name;
+    }
+
+    /**
+     * get last published payload
+     * @return {T} last payload (NULL if nothing was published)
+     */
+    get lastPayload(): T {
+        return this._lastPayload;
+    }
+
+    /**
+     * return true if some message was published
+     * @return {boolean} true if there is the last message
+     */
+    get hasMessage(): boolean {
+        return this._hasMessage;
+    }
+}
+
+
+/**
+ * application-wide publish/subscribe communication through named channels
+ */
+export class EventBus {
+
+    /**
+     * created channels
+     * @type {ChannelLookup}
+     */
+    private _channels: ChannelLookup;
+
+    /**
+     * initialize instance
+     */
+    constructor() {
+        this._channels = new ChannelLookup();
+    }
+
+    /**
+     * get channel of the name (created if it does not exist)
+     * @param {string} name name of the channel
+     * @return {Channel<T>} the channel
+     */
+    public channel<T>(name: string) : Channel<T> {
+        if (!this._channels[name])
+            this._channels[name] = new Channel<any>(name);
+
+        return this._channels[name];
+    }
+
+    /**
+     * publish message to the channel
+     * @param {string} channel name of the channel
+     * @param {T} payload payload of the message
+     */
+    public publish<T>(channel: string, payload: T) : void {
+        this.channel<T>(channel).publish(payload);
+    }
+
+    /**
+     * subscribe to the messages of the channel
+     * @param {string} channel name of the channel
+     * @param {MessageCallback<T>} callback function receiving messages
+     * @param {EventDispatcher=null} owner owner of the subscription (e.g. controller), unsubscribed when destroyed
+     * @param {boolean=false} replay if true, the last published message is passed to the callback immediately
+     * @return {Function} function canceling the subscription
+     */
+    public subscribe<T>(channel: string, callback: MessageCallback<T>, owner: EventDispatcher=null, replay: boolean=false) : Function {
+        return this.channel<T>(channel).subscribe(callback, owner, replay);
+    }
+
+    /**
+     * return true if channel exists
+     * @param {string} name name of the channel
+     * @return {boolean} true if channel exists
+     */
+    public hasChannel(name: string) : boolean {
+        return !!this._channels[name];
+    }
+}
+
+
+/**
+ * the key is channel name
+ * the value is the channel
+ */
+class ChannelLookup {
+    [name: string]: Channel<any>;
+}
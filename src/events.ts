@@ -4,6 +4,14 @@
  */
 export class OwlEvent {
 
+    static NONE = 0;
+
+    static CAPTURING_PHASE = 1;
+
+    static AT_TARGET = 2;
+
+    static BUBBLING_PHASE = 3;
+
     /**
      * type of the event
      * @type {string}
@@ -16,6 +24,18 @@ export class OwlEvent {
      */
     public readonly data: Object;
 
+    /**
+     * true if event bubbles up to the parent dispatchers
+     * @type {boolean}
+     */
+    public readonly bubbles: boolean;
+
+    /**
+     * true if default action of the event can be prevented
+     * @type {boolean}
+     */
+    public readonly cancelable: boolean;
+
     /**
      * sender of the event
      * @type {EventDispatcher}
@@ -34,14 +54,97 @@ export class OwlEvent {
      */
     private _propagate: boolean;
 
+    /**
+     * true if remaining handlers of the current dispatcher should be skipped
+     * @type {boolean}
+     */
+    private _immediatePropagationStopped: boolean;
+
+    /**
+     * current phase of the event flow
+     * @type {number}
+     */
+    private _eventPhase: number;
+
+    /**
+     * true if default action was prevented
+     * @type {boolean}
+     */
+    private _defaultPrevented: boolean;
+
     /**
      * initialize instance
      * @param {string} type type of the event
+     * @param {Object=null} data transfered additional data
+     * @param {boolean=false} bubbles true if event bubbles up to the parent dispatchers
+     * @param {boolean=false} cancelable true if default action of the event can be prevented
      */
-    constructor(type: string, data: Object=null) {
+    constructor(type: string, data: Object=null, bubbles: boolean=false, cancelable: boolean=false) {
         this.type = type;
         this._propagate = true;
+        this._immediatePropagationStopped = false;
+        this._eventPhase = OwlEvent.NONE;
+        this._defaultPrevented = false;
         this.data = data;
+        this.bubbles = bubbles;
+        this.cancelable = cancelable;
+    }
+
+    /**
+     * prevent default action of the event
+     * nothing happens if event is not cancelable
+     */
+    public preventDefault() : void {
+        if (this.cancelable)
+            this._defaultPrevented = true;
+    }
+
+    /**
+     * return true if default action was prevented
+     * @return {boolean} true if default action was prevented
+     */
+    get defaultPrevented(): boolean {
+        return this._defaultPrevented;
+    }
+
+    /**
+     * stop propagation to the other dispatchers
+     * remaining handlers of the current dispatcher are still called
+     */
+    public stopPropagation() : void {
+        this._propagate = false;
+    }
+
+    /**
+     * stop propagation to the other dispatchers and skip remaining handlers of the current one
+     */
+    public stopImmediatePropagation() : void {
+        this._propagate = false;
+        this._immediatePropagationStopped = true;
+    }
+
+    /**
+     * return true if remaining handlers of the current dispatcher should be skipped
+     * @return {boolean} true if immediate propagation was stopped
+     */
+    get immediatePropagationStopped(): boolean {
+        return this._immediatePropagationStopped;
+    }
+
+    /**
+     * get current phase of the event flow
+     * @return {number} one of NONE, CAPTURING_PHASE, AT_TARGET, BUBBLING_PHASE
+     */
+    get eventPhase(): number {
+        return this._eventPhase;
+    }
+
+    /**
+     * set current phase of the event flow
+     * @param {number} val new phase
+     */
+    set eventPhase(val: number) {
+        this._eventPhase = val;
     }
 
     /**
@@ -103,16 +206,140 @@ export class DomEvent extends OwlEvent {
     public originalEvent: Event;
 
     constructor(evt: Event, data: Object=null) {
-        super(evt.type, data);
+        super(evt.type, data, evt.bubbles, evt.cancelable);
         this.originalEvent = evt;
     }
+
+    /**
+     * prevent default action of the event and of the original DOM event
+     */
+    public preventDefault() : void {
+        super.preventDefault();
+        this.originalEvent.preventDefault();
+    }
+}
+
+/**
+ * event dispatched when event handler fails (with the "event" error policy)
+ */
+export class HandlerErrorEvent extends OwlEvent {
+
+    /**
+     * the thrown error
+     * @type {any}
+     */
+    public readonly error: any;
+
+    /**
+     * event whose handler failed
+     * @type {OwlEvent}
+     */
+    public readonly failedEvent: OwlEvent;
+
+    /**
+     * initialize instance
+     * @param {any} error the thrown error
+     * @param {OwlEvent} failedEvent event whose handler failed
+     */
+    constructor(error: any, failedEvent: OwlEvent) {
+        super(EventDispatcher.EVENT_ERROR);
+        this.error = error;
+        this.failedEvent = failedEvent;
+    }
+}
+
+
+/**
+ * result of the asynchronous dispatching
+ */
+export class DispatchReport {
+
+    /**
+     * the dispatched event
+     * @type {OwlEvent}
+     */
+    public readonly event: OwlEvent;
+
+    /**
+     * values returned (or resolved) by the handlers in order of calling
+     * @type {any[]}
+     */
+    public readonly results: any[];
+
+    /**
+     * errors thrown (or rejected) by the handlers in order of calling
+     * @type {any[]}
+     */
+    public readonly errors: any[];
+
+    /**
+     * initialize instance
+     * @param {OwlEvent} event the dispatched event
+     */
+    constructor(event: OwlEvent) {
+        this.event = event;
+        this.results = new Array<any>();
+        this.errors = new Array<any>();
+    }
+
+    /**
+     * return true if some handler failed
+     * @return {boolean} true if there is some error
+     */
+    get failed(): boolean {
+        return this.errors.length > 0;
+    }
 }
 
+
+/**
+ * how errors thrown by the handlers are processed in the synchronous dispatching
+ * "log" - error is logged to the console and remaining handlers are called
+ * "rethrow" - dispatching stops, queued events are dropped and the error is thrown from the dispatchEvent
+ * "event" - error is dispatched as "error" event (logged if nobody listens)
+ */
+export type ErrorPolicy = "log" | "rethrow" | "event";
+
+
+/**
+ * options of the event listener
+ */
+export interface ListenerOptions {
+
+    /**
+     * if true, listener is called in the capturing phase
+     * @type {boolean}
+     */
+    capture?: boolean;
+
+    /**
+     * if true, listener is removed after the first call
+     * @type {boolean}
+     */
+    once?: boolean;
+
+    /**
+     * listeners with higher priority are called first (0 by default)
+     * listeners with the same priority are called in order of registration
+     * @type {number}
+     */
+    priority?: number;
+}
+
+
 /**
  * base class for all event dispatching classes
  */
 export class EventDispatcher {
 
+    /**
+     * event type of the listeners receiving all events
+     * @type {String}
+     */
+    static WILDCARD = "*";
+
+    static EVENT_ERROR = "error";
+
     /**
      * current event queue
      * @type {OwlEvent[]}
@@ -133,6 +360,18 @@ export class EventDispatcher {
      */
     private _handlers: EventHandlerLookup;
 
+    /**
+     * registration order of the next handler
+     * @type {number}
+     */
+    private _nextSequence: number;
+
+    /**
+     * processing of the handler errors in the synchronous dispatching
+     * @type {ErrorPolicy}
+     */
+    private _errorPolicy: ErrorPolicy;
+
     /**
      * initialize instance
      */
@@ -140,33 +379,148 @@ export class EventDispatcher {
         this._queue = new Array<OwlEvent>();
         this._handlers = new EventHandlerLookup();
         this._inDispatchProcess = false;
+        this._nextSequence = 0;
+        this._errorPolicy = "log";
     }
 
     /**
      * dispatch event
+     * events dispatched from the handlers are queued, cancelable events are processed immediately
+     * so the result is known when the method returns
      * @param {OwlEvent} evt event instance to dispatch
+     * @return {boolean} false if default action of the event was prevented
      */
-    public dispatchEvent(evt: OwlEvent): void {
+    public dispatchEvent(evt: OwlEvent): boolean {
         evt.target = this;
+
+        if (evt.cancelable && this._inDispatchProcess) {
+            this._propagateEvent(evt);
+            return !evt.defaultPrevented;
+        }
+
         this._queue.push(evt);
 
         if (!this._inDispatchProcess)
             this._processQueue();
+
+        return !evt.defaultPrevented;
+    }
+
+    /**
+     * dispatch event and wait for the handlers
+     * handlers are called one by one, promise returned by the handler is awaited before the next one is called
+     * errors are collected into the report, the error policy is not applied
+     * @param {OwlEvent} evt event instance to dispatch
+     * @return {Promise<DispatchReport>} report resolved when all handlers are finished
+     */
+    public dispatchEventAsync(evt: OwlEvent) : Promise<DispatchReport> {
+        evt.target = this;
+
+        let report: DispatchReport = new DispatchReport(evt);
+        let steps: DispatchStep[] = this._getDispatchSteps(evt);
+
+        return this._runStepsAsync(evt, steps, 0, null, report).then(() => {
+            evt.eventPhase = OwlEvent.NONE;
+            return report;
+        });
     }
 
     /**
      * add event listener for event type
+     * listeners of the "*" type receive events of all types
+     * @param {string} eventType type of the event
+     * @param {Function} callback function call when event is dispatched
+     * @param {Object=null} context optional call context
+     * @param {boolean|ListenerOptions=false} options listener options (true for capturing listener)
+     * @return {Function} listener remover
+     */
+    public addEventListener(eventType: string, callback: Function, context: Object=null, options: boolean|ListenerOptions=false) : Function {
+        let listenerOptions: ListenerOptions = (typeof options == "boolean") ? { capture: options } : options;
+        let handler: EventHandler = new EventHandler(eventType, callback, context, listenerOptions, this._nextSequence++);
+
+        this._getHandlerHolder(eventType).push(handler);
+
+        return () => { this._removeHandler(handler); };
+    }
+
+    /**
+     * add event listener removed after the first call
      * @param {string} eventType type of the event
      * @param {Function} callback function call when event is dispatched
      * @param {Object=null} context optional call context
      * @return {Function} listener remover
      */
-    public addEventListener(eventType: string, callback: Function, context: Object=null) : Function {
-        let handlers: EventHandler[] = this._getHandlerHolder(eventType);
-        let index: number = handlers.length;
+    public once(eventType: string, callback: Function, context: Object=null) : Function {
+        return this.addEventListener(eventType, callback, context, { once: true });
+    }
+
+    /**
+     * remove event listeners with the callback and context
+     * @param {string} eventType type of the event
+     * @param {Function} callback registered callback
+     * @param {Object=null} context registered context
+     * @return {boolean} true if some listener was removed
+     */
+    public removeEventListener(eventType: string, callback: Function, context: Object=null) : boolean {
+        let handlers: EventHandler[] = this._handlers[eventType] || new Array<EventHandler>();
+        let found: EventHandler[] = handlers.filter((handler: EventHandler) => {
+            return handler.callback === callback && handler.context === context;
+        });
+
+        for (let handler of found)
+            this._removeHandler(handler);
 
-        handlers.push(new EventHandler(callback, context));
-        return this._createRemover(handlers, index);
+        return found.length > 0;
+    }
+
+    /**
+     * remove all listeners of the event type
+     * @param {string=null} eventType type of the event (listeners of all types are removed if not set)
+     */
+    public removeAllListeners(eventType: string=null) : void {
+        let types: string[] = (eventType === null) ? Object.keys(this._handlers) : [eventType];
+
+        for (let type of types) {
+            for (let handler of this._handlers[type] || [])
+                handler.removed = true;
+
+            delete this._handlers[type];
+        }
+    }
+
+    /**
+     * return true if some listener receives events of the type (including "*" listeners)
+     * @param {string} eventType type of the event
+     * @return {boolean} true if there is some listener
+     */
+    public hasListeners(eventType: string) : boolean {
+        return !!(this._handlers[eventType] && this._handlers[eventType].length)
+            || !!(this._handlers[EventDispatcher.WILDCARD] && this._handlers[EventDispatcher.WILDCARD].length);
+    }
+
+    /**
+     * get processing of the handler errors in the synchronous dispatching
+     * @return {ErrorPolicy} error policy
+     */
+    get errorPolicy(): ErrorPolicy {
+        return this._errorPolicy;
+    }
+
+    /**
+     * set processing of the handler errors in the synchronous dispatching
+     * @param {ErrorPolicy} val new error policy
+     */
+    set errorPolicy(val: ErrorPolicy) {
+        this._errorPolicy = val;
+    }
+
+    /**
+     * get dispatchers the events propagate through, the nearest one first
+     * override to enable capturing and bubbling
+     * @return {EventDispatcher[]} propagation path
+     */
+    protected _getPropagationPath() : EventDispatcher[] {
+        return new Array<EventDispatcher>();
     }
 
     /**
@@ -182,22 +536,43 @@ export class EventDispatcher {
     }
 
     /**
-     * create remover for element in array
-     * @type {A} type of the array
-     * @param {A} arr array ot remove from
-     * @param {number} index index of the element to remove
-     * @returns Function remover
+     * remove handler from the registry
+     * the handler is skipped if it is removed during dispatching
+     * @param {EventHandler} handler handler to remove
      */
-    private _createRemover<A>(arr: A, index:number) : Function {
-        function remover() {
-            delete arr[index];
-        }
+    private _removeHandler(handler: EventHandler) : void {
+        let eventType: string = handler.eventType;
+        let handlers: EventHandler[] = this._handlers[eventType];
+        let index: number = handlers ? handlers.indexOf(handler) : -1;
 
-        return remover;
+        handler.removed = true;
+
+        if (index != -1)
+            handlers.splice(index, 1);
+
+        if (handlers && !handlers.length)
+            delete this._handlers[eventType];
+    }
+
+    /**
+     * get handlers of the event in order of calling
+     * @param {string} eventType event type
+     * @return {EventHandler[]} handlers of the type and "*" handlers sorted by priority
+     */
+    private _getSortedHandlers(eventType: string) : EventHandler[] {
+        let handlers: EventHandler[] = (this._handlers[eventType] || new Array<EventHandler>()).slice();
+
+        if (eventType != EventDispatcher.WILDCARD && this._handlers[EventDispatcher.WILDCARD])
+            handlers = handlers.concat(this._handlers[EventDispatcher.WILDCARD]);
+
+        return handlers.sort((a: EventHandler, b: EventHandler) => {
+            return (b.priority - a.priority) || (a.sequence - b.sequence);
+        });
     }
 
     /**
      * process event queue
+     * the queue is cleared if the processing is interrupted by a rethrown error
      */
     private _processQueue() : void {
         this._inDispatchProcess = true;
@@ -205,31 +580,212 @@ export class EventDispatcher {
         try {
             while (this._queue.length) {
                 let evt = this._queue.shift();
-                this._processEvent(evt);
+                this._propagateEvent(evt);
             }
         } finally {
+            this._queue.length = 0;
             this._inDispatchProcess = false;
         }
     }
 
+    /**
+     * get the dispatchers and phases the event passes through
+     * capturing phase, the target and the bubbling phase (if event bubbles)
+     * @param {OwlEvent} evt event to propagate
+     * @return {DispatchStep[]} steps of the event flow
+     */
+    private _getDispatchSteps(evt: OwlEvent) : DispatchStep[] {
+        let path: EventDispatcher[] = this._getPropagationPath();
+        let result: DispatchStep[] = new Array<DispatchStep>();
+
+        for (let i = path.length - 1; i >= 0; --i)
+            result.push(new DispatchStep(path[i], OwlEvent.CAPTURING_PHASE, true));
+
+        result.push(new DispatchStep(this, OwlEvent.AT_TARGET, true));
+        result.push(new DispatchStep(this, OwlEvent.AT_TARGET, false));
+
+        if (evt.bubbles) {
+            for (let dispatcher of path)
+                result.push(new DispatchStep(dispatcher, OwlEvent.BUBBLING_PHASE, false));
+        }
+
+        return result;
+    }
+
+    /**
+     * return true if event flow continues to the step
+     * stopped propagation still lets the current dispatcher finish
+     * @param {OwlEvent} evt propagated event
+     * @param {DispatchStep} step next step
+     * @param {EventDispatcher} previous dispatcher of the previous step
+     * @return {boolean} true if step should be processed
+     */
+    private _canEnterStep(evt: OwlEvent, step: DispatchStep, previous: EventDispatcher) : boolean {
+        return evt.propagate || step.dispatcher === previous;
+    }
+
+    /**
+     * pass event through all steps of the event flow
+     * @param {OwlEvent} evt event to propagate
+     */
+    private _propagateEvent(evt: OwlEvent) : void {
+        let previous: EventDispatcher = null;
+
+        try {
+            for (let step of this._getDispatchSteps(evt)) {
+                if (!this._canEnterStep(evt, step, previous))
+                    break;
+
+                evt.eventPhase = step.phase;
+                step.dispatcher._processEvent(evt, step.capture);
+                previous = step.dispatcher;
+            }
+        } finally {
+            evt.eventPhase = OwlEvent.NONE;
+        }
+    }
+
     /**
      * process one event
      * @param {OwlEvent} evt event to process
+     * @param {boolean} capture if true, capturing listeners are called, otherwise the other ones
      */
-    private _processEvent(evt: OwlEvent) : void {
+    private _processEvent(evt: OwlEvent, capture: boolean) : void {
         evt.currentTarget = this;
-        let handlers: EventHandler[] = this._getHandlerHolder(evt.type);
 
-        handlers.forEach(function (handler) {
+        // the snapshot is iterated, so handlers can be added or removed by the handlers
+        for (let handler of this._getSortedHandlers(evt.type)) {
+            if (handler.capture != capture || handler.removed)
+                continue;
+
+            if (evt.immediatePropagationStopped)
+                break;
+
+            if (handler.once)
+                this._removeHandler(handler);
+
             try {
                 handler.handle(evt);
             } catch (err) {
-                console.error(err);
+                this.handleError(err, evt);
             }
+        }
+    }
+
+    /**
+     * process error thrown by the handler according to the error policy
+     * handlers deferred out of the dispatching (e.g. debounced) report their errors here
+     * @param {any} err the thrown error
+     * @param {OwlEvent} evt event whose handler failed
+     * @throws any the error if policy is "rethrow"
+     */
+    public handleError(err: any, evt: OwlEvent) : void {
+        if (this._errorPolicy == "rethrow")
+            throw err;
+
+        // failure of the error handler is only logged to prevent endless loop
+        if (this._errorPolicy == "event" && !(evt instanceof HandlerErrorEvent) && this.hasListeners(EventDispatcher.EVENT_ERROR))
+            this.dispatchEvent(new HandlerErrorEvent(err, evt));
+        else
+            console.error(err);
+    }
+
+    /**
+     * process steps of the event flow one by one
+     * @param {OwlEvent} evt propagated event
+     * @param {DispatchStep[]} steps steps of the event flow
+     * @param {number} index index of the current step
+     * @param {EventDispatcher} previous dispatcher of the previous step
+     * @param {DispatchReport} report collected results
+     * @return {Promise<void>} promise resolved when all steps are processed
+     */
+    private _runStepsAsync(evt: OwlEvent, steps: DispatchStep[], index: number, previous: EventDispatcher, report: DispatchReport) : Promise<void> {
+        if (index >= steps.length || !this._canEnterStep(evt, steps[index], previous))
+            return Promise.resolve();
+
+        let step: DispatchStep = steps[index];
+
+        evt.eventPhase = step.phase;
+        evt.currentTarget = step.dispatcher;
+
+        let handlers: EventHandler[] = step.dispatcher._getSortedHandlers(evt.type).filter((handler: EventHandler) => {
+            return handler.capture == step.capture;
+        });
+
+        return step.dispatcher._runHandlersAsync(evt, handlers, 0, report).then(() => {
+            return this._runStepsAsync(evt, steps, index + 1, step.dispatcher, report);
         });
     }
+
+    /**
+     * call handlers one by one and wait for the returned promises
+     * @param {OwlEvent} evt processed event
+     * @param {EventHandler[]} handlers handlers to call
+     * @param {number} index index of the current handler
+     * @param {DispatchReport} report collected results
+     * @return {Promise<void>} promise resolved when all handlers are finished
+     */
+    private _runHandlersAsync(evt: OwlEvent, handlers: EventHandler[], index: number, report: DispatchReport) : Promise<void> {
+        if (index >= handlers.length || evt.immediatePropagationStopped)
+            return Promise.resolve();
+
+        let handler: EventHandler = handlers[index];
+        let next = () => { return this._runHandlersAsync(evt, handlers, index + 1, report); };
+
+        if (handler.removed)
+            return next();
+
+        if (handler.once)
+            this._removeHandler(handler);
+
+        let result: any;
+
+        try {
+            result = handler.handle(evt);
+        } catch (err) {
+            report.errors.push(err);
+            return next();
+        }
+
+        return Promise.resolve(result).then(
+            (value: any) => { report.results.push(value); },
+            (err: any) => { report.errors.push(err); }
+        ).then(next);
+    }
 }
 
+
+/**
+ * one dispatcher and phase of the event flow
+ */
+class DispatchStep {
+
+    /**
+     * dispatcher whose handlers are called
+     * @type {EventDispatcher}
+     */
+    public readonly dispatcher: EventDispatcher;
+
+    /**
+     * phase of the event flow
+     * @type {number}
+     */
+    public readonly phase: number;
+
+    /**
+     * true if capturing handlers are called
+     * @type {boolean}
+     */
+    public readonly capture: boolean;
+
+    constructor(dispatcher: EventDispatcher, phase: number, capture: boolean) {
+        this.dispatcher = dispatcher;
+        this.phase = phase;
+        this.capture = capture;
+    }
+}
+
+
 class EventHandlerLookup {
     [key: string]: EventHandler[];
 }
@@ -239,6 +795,18 @@ class EventHandlerLookup {
  */
 class EventHandler {
 
+    /**
+     * type of the handled events
+     * @type {string}
+     */
+    public readonly eventType: string;
+
+    /**
+     * true if handler was removed from the dispatcher
+     * @type {boolean}
+     */
+    public removed: boolean;
+
     /**
      * callback function
      * @type {Function}
@@ -251,25 +819,45 @@ class EventHandler {
      */
     private _context: Object;
 
+    /**
+     * listener options
+     * @type {ListenerOptions}
+     */
+    private _options: ListenerOptions;
+
+    /**
+     * registration order of the handler
+     * @type {number}
+     */
+    private _sequence: number;
+
     /**
      * initialize instance
+     * @param {string} eventType type of the handled events
      * @param {Function} callback callback to set
-     * @param {Object=null} context context object to call callback in
+     * @param {Object} context context object to call callback in
+     * @param {ListenerOptions} options listener options
+     * @param {number} sequence registration order of the handler
      */
-    constructor(callback: Function, context: Object=null) {
+    constructor(eventType: string, callback: Function, context: Object, options: ListenerOptions, sequence: number) {
+        this.eventType = eventType;
         this._callback = callback;
         this._context = context;
+        this._options = options || {};
+        this._sequence = sequence;
+        this.removed = false;
     }
 
     /**
      * handle event
      * @param {OwlEvent} event event to handle
+     * @return {any} value returned by the callback
      */
-    public handle(event: OwlEvent) : void {
+    public handle(event: OwlEvent) : any {
         if (this._context)
-            this._callback.call(this._context, event);
+            return this._callback.call(this._context, event);
         else
-            this._callback(event);
+            return this._callback(event);
     }
 
     /**
@@ -287,4 +875,36 @@ class EventHandler {
     get context(): Object {
         return this._context;
     }
+
+    /**
+     * return true if handler is called in the capturing phase
+     * @return {boolean} capture flag
+     */
+    get capture(): boolean {
+        return !!this._options.capture;
+    }
+
+    /**
+     * return true if handler is removed after the first call
+     * @return {boolean} once flag
+     */
+    get once(): boolean {
+        return !!this._options.once;
+    }
+
+    /**
+     * get priority of the handler
+     * @return {number} priority
+     */
+    get priority(): number {
+        return this._options.priority || 0;
+    }
+
+    /**
+     * get registration order of the handler
+     * @return {number} registration order
+     */
+    get sequence(): number {
+        return this._sequence;
+    }
 }
@@ -0,0 +1,531 @@
+import { ControllerBase, findController } from "./component"
+import { EventDispatcher, OwlEvent } from "./events"
+import { containsNode, getActiveElement, getTabbableElements } from "./dom"
+
+
+/**
+ * direction of the arrow-key navigation
+ */
+export type NavigationOrientation = "vertical" | "horizontal" | "both";
+
+
+/**
+ * track the focused controller, dispatch "focus" and "blur" events to the controllers
+ * and keep the focus inside the trapping components (e.g. overlays)
+ */
+export class FocusManager extends EventDispatcher {
+
+    /**
+     * focused controller changed, data contain previous and current controller
+     * @type {String}
+     */
+    static EVENT_CHANGE = "change";
+
+    /**
+     * document whose focus is tracked
+     * @type {Document}
+     */
+    private _document: Document;
+
+    /**
+     * focused controller (NULL if focus is outside of the components)
+     * @type {ControllerBase}
+     */
+    private _focusedController: ControllerBase;
+
+    /**
+     * active traps, the innermost last
+     * @type {FocusTrap[]}
+     */
+    private _traps: FocusTrap[];
+
+    /**
+     * DOM listeners (NULL if manager is not attached)
+     * @type {EventListener}
+     */
+    private _focusInListener: EventListener;
+
+    private _focusOutListener: EventListener;
+
+    private _keyDownListener: EventListener;
+
+    /**
+     * initialize instance
+     * @param {Document} document document whose focus is tracked
+     */
+    constructor(document: Document) {
+        super();
+        this._document = document;
+        this._focusedController = null;
+        this._traps = new Array<FocusTrap>();
+        this._focusInListener = null;
+        this._focusOutListener = null;
+        this._keyDownListener = null;
+    }
+
+    /**
+     * start to listen for the focus changes
+     */
+    public attach() : void {
+        if (this._focusInListener)
+            return;
+
+        this._focusInListener = (evt: Event) => { this._onFocusIn(<FocusEvent>evt); };
+        this._focusOutListener = (evt: Event) => { this._onFocusOut(<FocusEvent>evt); };
+        this._keyDownListener = (evt: Event) => { this._onKeyDown(<KeyboardEvent>evt); };
+
+        this._document.addEventListener("focusin", this._focusInListener);
+        this._document.addEventListener("focusout", this._focusOutListener);
+        this._document.addEventListener("keydown", this._keyDownListener);
+    }
+
+    /**
+     * stop listening for the focus changes
+     */
+    public detach() : void {
+        if (!this._focusInListener)
+            return;
+
+        this._document.removeEventListener("focusin", this._focusInListener);
+        this._document.removeEventListener("focusout", this._focusOutListener);
+        this._document.removeEventListener("keydown", this._keyDownListener);
+
+        this._focusInListener = null;
+        this._focusOutListener = null;
+        this._keyDownListener = null;
+    }
+
+    /**
+     * move focus to the controller
+     * @param {ControllerBase} controller controller to focus
+     */
+    public focus(controller: ControllerBase) : void {
+        controller.focus();
+    }
+
+    /**
+     * keep focus inside the controller until the trap is released
+     * the focus returns to the previously focused element on release
+     * trap is released automatically when the controller is destroyed
+     * @param {ControllerBase} controller trapping controller
+     * @return {Function} trap remover
+     */
+    public trapFocus(controller: ControllerBase) : Function {
+        let trap: FocusTrap = new FocusTrap(controller, this._document);
+        let ownerRemover: Function = null;
+        let release = () => {
+            ownerRemover();
+            this._releaseTrap(trap);
+        };
+
+        ownerRemover = controller.once(ControllerBase.EVENT_BEFORE_DESTROY, release);
+        this._traps.push(trap);
+        trap.activate();
+
+        return release;
+    }
+
+    /**
+     * get focused controller
+     * @return {ControllerBase} focused controller (NULL if focus is outside of the components)
+     */
+    get focusedController(): ControllerBase {
+        if (this._focusedController && this._focusedController.destroyed)
+            this._focusedController = null;
+
+        return this._focusedController;
+    }
+
+    /**
+     * get the innermost active trap
+     * @return {FocusTrap} active trap (NULL if there is none)
+     */
+    get activeTrap(): FocusTrap {
+        return this._traps.length ? this._traps[this._traps.length - 1] : null;
+    }
+
+    private _onFocusIn(evt: FocusEvent) : void {
+        let target: Element = getActiveElement(this._document) || <Element>evt.target;
+        let trap: FocusTrap = this.activeTrap;
+
+        if (trap && !trap.contains(target)) {
+            trap.focusFirst();
+            return;
+        }
+
+        this._setFocusedController(findController(target));
+    }
+
+    private _onFocusOut(evt: FocusEvent) : void {
+        let related: Node = <Node>evt.relatedTarget;
+
+        // focus moving to other element is handled by the following focusin
+        if (!related || related.nodeType != Node.ELEMENT_NODE)
+            this._setFocusedController(null);
+    }
+
+    private _onKeyDown(evt: KeyboardEvent) : void {
+        let trap: FocusTrap = this.activeTrap;
+
+        if (trap && evt.key == "Tab")
+            trap.handleTab(evt);
+    }
+
+    /**
+     * remove trap and restore the focus if it was the innermost one
+     * @param {FocusTrap} trap trap to remove
+     */
+    private _releaseTrap(trap: FocusTrap) : void {
+        let index: number = this._traps.indexOf(trap);
+
+        if (index == -1)
+            return;
+
+        this._traps.splice(index, 1);
+        trap.deactivate(index == this._traps.length);
+    }
+
+    /**
+     * set focused controller and dispatch focus events
+     * @param {ControllerBase} controller newly focused controller
+     */
+    private _setFocusedController(controller: ControllerBase) : void {
+        let previous: ControllerBase = this.focusedController;
+
+        if (previous === controller)
+            return;
+
+        this._focusedController = controller;
+
+        if (previous)
+            previous.dispatchEvent(new OwlEvent(ControllerBase.EVENT_BLUR, { related: controller }));
+
+        if (controller)
+            controller.dispatchEvent(new OwlEvent(ControllerBase.EVENT_FOCUS, { related: previous }));
+
+        this.dispatchEvent(new OwlEvent(FocusManager.EVENT_CHANGE, { previous: previous, current: controller }));
+    }
+}
+
+
+/**
+ * keep focus inside the view of the controller
+ */
+export class FocusTrap {
+
+    /**
+     * trapping controller
+     * @type {ControllerBase}
+     */
+    private _controller: ControllerBase;
+
+    /**
+     * the document
+     * @type {Document}
+     */
+    private _document: Document;
+
+    /**
+     * element focused before the trap was activated
+     * @type {HTMLElement}
+     */
+    private _returnFocus: HTMLElement;
+
+    /**
+     * initialize instance
+     * @param {ControllerBase} controller trapping controller
+     * @param {Document} document the document
+     */
+    constructor(controller: ControllerBase, document: Document) {
+        this._controller = controller;
+        this._document = document;
+        this._returnFocus = null;
+    }
+
+    /**
+     * remember focused element and move focus into the trap
+     */
+    public activate() : void {
+        this._returnFocus = <HTMLElement>getActiveElement(this._document);
+
+        if (!this.contains(this._returnFocus))
+            this.focusFirst();
+    }
+
+    /**
+     * release the trap
+     * @param {boolean} restoreFocus if true, previously focused element gets the focus back
+     */
+    public deactivate(restoreFocus: boolean) : void {
+        let target: HTMLElement = this._returnFocus;
+        this._returnFocus = null;
+
+        if (restoreFocus && target && target.focus && containsNode(this._document, target))
+            target.focus();
+    }
+
+    /**
+     * return true if node is inside the trap
+     * @param {Node} node tested node
+     * @return {boolean} true if node is inside the trap
+     */
+    public contains(node: Node) : boolean {
+        return !!node && containsNode(this._controller.view.node, node);
+    }
+
+    /**
+     * focus first tabbable element of the trap (the controller itself if there is none)
+     */
+    public focusFirst() : void {
+        let tabbable: HTMLElement[] = getTabbableElements(<Element>this._controller.view.node);
+
+        if (tabbable.length)
+            tabbable[0].focus();
+        else
+            this._controller.focus();
+    }
+
+    /**
+     * cycle the tab key navigation inside the trap
+     * @param {KeyboardEvent} evt the keydown event
+     */
+    public handleTab(evt: KeyboardEvent) : void {
+        let tabbable: HTMLElement[] = getTabbableElements(<Element>this._controller.view.node);
+        let index: number = tabbable.indexOf(<HTMLElement>getActiveElement(this._document));
+        let target: HTMLElement = null;
+
+        if (!tabbable.length) {
+            evt.preventDefault();
+            return;
+        }
+
+        if (evt.shiftKey && index <= 0)
+            target = tabbable[tabbable.length - 1];
+        else if (!evt.shiftKey && (index == -1 || index == tabbable.length - 1))
+            target = tabbable[0];
+
+        if (target) {
+            evt.preventDefault();
+            target.focus();
+        }
+    }
+
+    get controller(): ControllerBase {
+        return this._controller;
+    }
+}
+
+
+/**
+ * roving tabindex over the child controllers
+ * only the active child is in the tab order, arrow keys, Home and End move the focus between children
+ */
+export class RovingTabIndex extends EventDispatcher {
+
+    /**
+     * active child changed, data contain item and previous item
+     * @type {String}
+     */
+    static EVENT_CHANGE = "change";
+
+    /**
+     * the container
+     * @type {ControllerBase}
+     */
+    private _container: ControllerBase;
+
+    /**
+     * direction of the navigation
+     * @type {NavigationOrientation}
+     */
+    private _orientation: NavigationOrientation;
+
+    /**
+     * if true, navigation continues from the last child to the first one and vice versa
+     * @type {boolean}
+     */
+    private _wrap: boolean;
+
+    /**
+     * child in the tab order
+     * @type {ControllerBase}
+     */
+    private _activeItem: ControllerBase;
+
+    /**
+     * DOM listeners (NULL if not attached)
+     * @type {EventListener}
+     */
+    private _keyDownListener: EventListener;
+
+    private _focusInListener: EventListener;
+
+    /**
+     * initialize instance
+     * @param {ControllerBase} container controller whose children are navigated
+     * @param {NavigationOrientation="vertical"} orientation direction of the navigation
+     * @param {boolean=true} wrap if true, navigation wraps around
+     */
+    constructor(container: ControllerBase, orientation: NavigationOrientation="vertical", wrap: boolean=true) {
+        super();
+        this._container = container;
+        this._orientation = orientation;
+        this._wrap = wrap;
+        this._activeItem = null;
+        this._keyDownListener = null;
+        this._focusInListener = null;
+    }
+
+    /**
+     * start to handle the keyboard navigation
+     */
+    public attach() : void {
+        if (this._keyDownListener)
+            return;
+
+        this._keyDownListener = (evt: Event) => { this._onKeyDown(<KeyboardEvent>evt); };
+        this._focusInListener = (evt: Event) => { this._onFocusIn(evt); };
+
+        this._container.view.addEventListener("keydown", this._keyDownListener);
+        this._container.view.addEventListener("focusin", this._focusInListener);
+        this.refresh();
+    }
+
+    /**
+     * stop handling the keyboard navigation
+     */
+    public detach() : void {
+        if (!this._keyDownListener)
+            return;
+
+        this._container.view.removeEventListener("keydown", this._keyDownListener);
+        this._container.view.removeEventListener("focusin", this._focusInListener);
+        this._keyDownListener = null;
+        this._focusInListener = null;
+    }
+
+    /**
+     * update tabindex of the children (call when children change)
+     */
+    public refresh() : void {
+        let items: ControllerBase[] = this.items;
+
+        if (items.indexOf(this._activeItem) == -1)
+            this._activeItem = items.length ? items[0] : null;
+
+        for (let item of items)
+            item.tabIndex = (item === this._activeItem) ? 0 : -1;
+    }
+
+    /**
+     * make the child active
+     * @param {ControllerBase} item child of the container
+     * @param {boolean=true} focus if true, the child gets focus
+     */
+    public activate(item: ControllerBase, focus: boolean=true) : void {
+        let previous: ControllerBase = this._activeItem;
+
+        this._activeItem = item;
+        this.refresh();
+
+        if (focus)
+            item.focus();
+
+        if (previous !== item)
+            this.dispatchEvent(new OwlEvent(RovingTabIndex.EVENT_CHANGE, { item: item, previous: previous }));
+    }
+
+    /**
+     * get navigated children
+     * @return {ControllerBase[]} children of the container
+     */
+    get items(): ControllerBase[] {
+        return this._container.children.filter((item: ControllerBase) => { return !item.destroyed; });
+    }
+
+    get activeItem(): ControllerBase {
+        return this._activeItem;
+    }
+
+    get orientation(): NavigationOrientation {
+        return this._orientation;
+    }
+
+    private _onKeyDown(evt: KeyboardEvent) : void {
+        // nested container has already moved the focus
+        if (evt.defaultPrevented)
+            return;
+
+        let items: ControllerBase[] = this.items;
+        let current: number = this._findItemIndex(items, <Node>evt.target, true);
+
+        if (current == -1)
+            return;
+
+        let next: number = this._getNextIndex(evt.key, current, items.length);
+
+        if (next == -1)
+            return;
+
+        evt.preventDefault();
+        this.activate(items[next]);
+    }
+
+    private _onFocusIn(evt: Event) : void {
+        let items: ControllerBase[] = this.items;
+        let index: number = this._findItemIndex(items, <Node>evt.target, false);
+
+        if (index != -1 && items[index] !== this._activeItem)
+            this.activate(items[index], false);
+    }
+
+    /**
+     * find child containing the node
+     * @param {ControllerBase[]} items children
+     * @param {Node} node searched node
+     * @param {boolean} exact if true, the node has to be the view root of the child
+     * (e.g. arrow keys in the text input of the child are not navigation)
+     * @return {number} index of the child (-1 if not found)
+     */
+    private _findItemIndex(items: ControllerBase[], node: Node, exact: boolean) : number {
+        for (let i = 0; i < items.length; ++i) {
+            let root: Node = items[i].view.node;
+
+            if (exact ? root === node : containsNode(root, node))
+                return i;
+        }
+
+        return -1;
+    }
+
+    /**
+     * get index of the child the key moves to
+     * @param {string} key pressed key
+     * @param {number} current index of the current child
+     * @param {number} count number of the children
+     * @return {number} index of the target child (-1 if key does not navigate)
+     */
+    private _getNextIndex(key: string, current: number, count: number) : number {
+        let vertical: boolean = this._orientation != "horizontal";
+        let horizontal: boolean = this._orientation != "vertical";
+        let step: number = 0;
+
+        if ((vertical && key == "ArrowDown") || (horizontal && key == "ArrowRight"))
+            step = 1;
+        else if ((vertical && key == "ArrowUp") || (horizontal && key == "ArrowLeft"))
+            step = -1;
+        else if (key == "Home")
+            return 0;
+        else if (key == "End")
+            return count - 1;
+        else
+            return -1;
+
+        let next: number = current + step;
+
+        if (this._wrap)
+            return (next + count) % count;
+
+        return Math.max(0, Math.min(count - 1, next));
+    }
+}
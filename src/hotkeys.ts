@@ -0,0 +1,498 @@
+import { ControllerBase } from "./component"
+import { OwlEvent } from "./events"
+import { CommonHtmlNode, containsNode, getActiveElement } from "./dom"
+
+
+/**
+ * options of the registered hotkey
+ */
+export interface HotkeyOptions {
+
+    /**
+     * type of the event dispatched to the owner ("hotkey" by default)
+     * @type {string}
+     */
+    eventType?: string;
+
+    /**
+     * if true, hotkey works regardless of the focus
+     * otherwise the focus has to be inside the view of the owner
+     * @type {boolean}
+     */
+    global?: boolean;
+
+    /**
+     * hotkeys with higher priority win conflicts (0 by default)
+     * @type {number}
+     */
+    priority?: number;
+
+    /**
+     * if true, hotkey without ctrl/alt/meta works in the text inputs too
+     * @type {boolean}
+     */
+    inInputs?: boolean;
+}
+
+
+/**
+ * event dispatched to the owner of the pressed hotkey
+ */
+export class HotkeyEvent extends OwlEvent {
+
+    static DEFAULT_TYPE = "hotkey";
+
+    /**
+     * the pressed combination in normalized form (e.g. "ctrl+s" or "g i")
+     * @type {string}
+     */
+    public readonly combination: string;
+
+    /**
+     * last keyboard event of the combination
+     * @type {KeyboardEvent}
+     */
+    public readonly originalEvent: KeyboardEvent;
+
+    /**
+     * initialize instance
+     * @param {string} type type of the event
+     * @param {string} combination the pressed combination
+     * @param {KeyboardEvent} originalEvent last keyboard event of the combination
+     */
+    constructor(type: string, combination: string, originalEvent: KeyboardEvent) {
+        super(type, { combination: combination });
+        this.combination = combination;
+        this.originalEvent = originalEvent;
+    }
+}
+
+
+/**
+ * owner of the hotkey (implemented by ControllerBase)
+ */
+export interface IHotkeyOwner {
+
+    /**
+     * view containing the focus of the scoped hotkeys (NULL if there is no view)
+     * @type {CommonHtmlNode}
+     */
+    readonly view: CommonHtmlNode;
+
+    /**
+     * parent in the controller tree (NULL for the top level owner)
+     * @type {IHotkeyOwner}
+     */
+    readonly parent: IHotkeyOwner;
+
+    /**
+     * listen for the destruction of the owner
+     * @param {string} eventType event type
+     * @param {Function} callback called once
+     * @return {Function} listener remover
+     */
+    once(eventType: string, callback: Function) : Function;
+
+    /**
+     * receive event of the pressed hotkey
+     * @param {OwlEvent} evt the hotkey event
+     * @return {boolean} false if default was prevented
+     */
+    dispatchEvent(evt: OwlEvent) : boolean;
+}
+
+
+/**
+ * keyboard shortcut manager
+ * combination is sequence of strokes separated by space (e.g. "g i"),
+ * stroke is key optionally prefixed by modifiers (e.g. "ctrl+shift+s")
+ * if more hotkeys match, the one with the highest priority wins, then the one with the deepest owner
+ * and then the last registered one
+ * hotkeys are removed when the owner is destroyed
+ */
+export class HotkeyManager {
+
+    /**
+     * max delay between strokes of the sequence in ms
+     * @type {Number}
+     */
+    static SEQUENCE_TIMEOUT = 1000;
+
+    static MODIFIERS = ["ctrl", "alt", "shift", "meta"];
+
+    /**
+     * normalized names of the special keys
+     * @type {Object}
+     */
+    static KEY_ALIASES = {
+        " ": "space", "spacebar": "space", "escape": "esc", "del": "delete",
+        "arrowup": "up", "arrowdown": "down", "arrowleft": "left", "arrowright": "right"
+    };
+
+    /**
+     * document whose keyboard events are handled
+     * @type {Document}
+     */
+    private _document: Document;
+
+    /**
+     * registered hotkeys
+     * @type {Hotkey[]}
+     */
+    private _hotkeys: Hotkey[];
+
+    /**
+     * strokes of the sequence in progress
+     * @type {string[]}
+     */
+    private _buffer: string[];
+
+    /**
+     * time of the last stroke
+     * @type {number}
+     */
+    private _lastStrokeTime: number;
+
+    /**
+     * registration order of the next hotkey
+     * @type {number}
+     */
+    private _nextSequence: number;
+
+    /**
+     * keydown listener (NULL if manager is not attached)
+     * @type {EventListener}
+     */
+    private _listener: EventListener;
+
+    /**
+     * initialize instance
+     * @param {Document} document document whose keyboard events are handled
+     */
+    constructor(document: Document) {
+        this._document = document;
+        this._hotkeys = new Array<Hotkey>();
+        this._buffer = new Array<string>();
+        this._lastStrokeTime = 0;
+        this._nextSequence = 0;
+        this._listener = null;
+    }
+
+    /**
+     * start to listen for the keyboard events
+     */
+    public attach() : void {
+        if (this._listener)
+            return;
+
+        this._listener = (evt: Event) => { this.handleKeyboardEvent(<KeyboardEvent>evt); };
+        this._document.addEventListener("keydown", this._listener);
+    }
+
+    /**
+     * stop listening for the keyboard events
+     */
+    public detach() : void {
+        if (!this._listener)
+            return;
+
+        this._document.removeEventListener("keydown", this._listener);
+        this._listener = null;
+    }
+
+    /**
+     * register hotkey
+     * @param {string} combination key combination (e.g. "ctrl+s", "g i")
+     * @param {IHotkeyOwner} owner controller the event is dispatched to
+     * @param {HotkeyOptions={}} options options of the hotkey
+     * @return {Function} hotkey remover
+     * @throws Error combination is already registered for the owner
+     */
+    public register(combination: string, owner: IHotkeyOwner, options: HotkeyOptions={}) : Function {
+        let strokes: string[] = HotkeyManager.parseCombination(combination);
+        let normalized: string = strokes.join(" ");
+
+        for (let hotkey of this._hotkeys) {
+            if (hotkey.owner === owner && hotkey.combination == normalized)
+                throw new Error("Hotkey '" + normalized + "' is already registered for the controller");
+        }
+
+        let hotkey: Hotkey = new Hotkey(strokes, owner, options, this._nextSequence++);
+        let ownerRemover: Function = owner.once(ControllerBase.EVENT_DESTROYED, () => { this._remove(hotkey); });
+
+        hotkey.remover = () => {
+            this._remove(hotkey);
+            ownerRemover();
+        };
+
+        this._hotkeys.push(hotkey);
+        return hotkey.remover;
+    }
+
+    /**
+     * remove all hotkeys of the owner
+     * @param {IHotkeyOwner} owner owner of the hotkeys
+     */
+    public unregisterAll(owner: IHotkeyOwner) : void {
+        for (let hotkey of this._hotkeys.slice()) {
+            if (hotkey.owner === owner)
+                hotkey.remover();
+        }
+    }
+
+    /**
+     * get combinations registered for the owner
+     * @param {IHotkeyOwner} owner owner of the hotkeys
+     * @return {string[]} normalized combinations
+     */
+    public getCombinations(owner: IHotkeyOwner) : string[] {
+        return this._hotkeys
+            .filter((hotkey: Hotkey) => { return hotkey.owner === owner; })
+            .map((hotkey: Hotkey) => { return hotkey.combination; });
+    }
+
+    /**
+     * process keyboard event
+     * @param {KeyboardEvent} evt the keydown event
+     */
+    public handleKeyboardEvent(evt: KeyboardEvent) : void {
+        let stroke: string = HotkeyManager.normalizeEvent(evt);
+
+        if (stroke === null)
+            return;
+
+        let now: number = new Date().getTime();
+
+        if (now - this._lastStrokeTime > HotkeyManager.SEQUENCE_TIMEOUT)
+            this._buffer = new Array<string>();
+
+        this._buffer.push(stroke);
+        this._lastStrokeTime = now;
+
+        let candidates: Hotkey[] = this._getActiveHotkeys(evt);
+        let match: Hotkey = this._findMatch(candidates, this._buffer);
+
+        // failed sequence, the stroke can start new one
+        if (!match && !this._isPrefix(candidates, this._buffer) && this._buffer.length > 1) {
+            this._buffer = [stroke];
+            match = this._findMatch(candidates, this._buffer);
+        }
+
+        if (match) {
+            this._buffer = new Array<string>();
+            evt.preventDefault();
+            match.owner.dispatchEvent(new HotkeyEvent(match.eventType, match.combination, evt));
+        } else if (!this._isPrefix(candidates, this._buffer)) {
+            this._buffer = new Array<string>();
+        }
+    }
+
+    /**
+     * parse combination to the normalized strokes
+     * @param {string} combination key combination (e.g. "Ctrl+S", "g i")
+     * @return {string[]} normalized strokes
+     * @throws Error combination is invalid
+     */
+    public static parseCombination(combination: string) : string[] {
+        let strokes: string[] = combination.trim().split(/\s+/);
+
+        return strokes.map((stroke: string) => {
+            let parts: string[] = stroke.toLowerCase().split("+");
+            let key: string = parts.pop();
+            let modifiers: string[] = new Array<string>();
+
+            // "ctrl++" means the plus key
+            if (key === "" && parts[parts.length - 1] === "") {
+                parts.pop();
+                key = "+";
+            }
+
+            if (!key)
+                throw new Error("Hotkey '" + combination + "' has no key");
+
+            for (let modifier of parts) {
+                if (HotkeyManager.MODIFIERS.indexOf(modifier) == -1)
+                    throw new Error("Unknown modifier '" + modifier + "' in hotkey '" + combination + "'");
+
+                modifiers.push(modifier);
+            }
+
+            return HotkeyManager._formatStroke(modifiers, HotkeyManager._normalizeKey(key));
+        });
+    }
+
+    /**
+     * convert keyboard event to the normalized stroke
+     * shift is ignored for the printable non letter keys (e.g. "?")
+     * @param {KeyboardEvent} evt keyboard event
+     * @return {string} normalized stroke (NULL for the modifier keys)
+     */
+    public static normalizeEvent(evt: KeyboardEvent) : string {
+        let key: string = HotkeyManager._normalizeKey((evt.key || "").toLowerCase());
+
+        if (!key || ["control", "alt", "shift", "meta"].indexOf(key) != -1)
+            return null;
+
+        let modifiers: string[] = new Array<string>();
+
+        if (evt.ctrlKey) modifiers.push("ctrl");
+        if (evt.altKey) modifiers.push("alt");
+        if (evt.shiftKey && (key.length > 1 || key.toLowerCase() != key.toUpperCase())) modifiers.push("shift");
+        if (evt.metaKey) modifiers.push("meta");
+
+        return HotkeyManager._formatStroke(modifiers, key);
+    }
+
+    private static _normalizeKey(key: string) : string {
+        return HotkeyManager.KEY_ALIASES[key] || key;
+    }
+
+    private static _formatStroke(modifiers: string[], key: string) : string {
+        let sorted: string[] = HotkeyManager.MODIFIERS.filter((modifier: string) => { return modifiers.indexOf(modifier) != -1; });
+        return sorted.concat([key]).join("+");
+    }
+
+    /**
+     * remove hotkey from the registry
+     * @param {Hotkey} hotkey hotkey to remove
+     */
+    private _remove(hotkey: Hotkey) : void {
+        let index: number = this._hotkeys.indexOf(hotkey);
+
+        if (index != -1)
+            this._hotkeys.splice(index, 1);
+    }
+
+    /**
+     * get hotkeys active for the current focus, the winning ones first
+     * @param {KeyboardEvent} evt handled event
+     * @return {Hotkey[]} active hotkeys
+     */
+    private _getActiveHotkeys(evt: KeyboardEvent) : Hotkey[] {
+        let focused: Element = getActiveElement(this._document);
+        let inInput: boolean = this._isEditable(focused) && !evt.ctrlKey && !evt.altKey && !evt.metaKey;
+
+        let result: Hotkey[] = this._hotkeys.filter((hotkey: Hotkey) => {
+            if (inInput && !hotkey.inInputs)
+                return false;
+
+            return hotkey.global || (focused !== null && this._isInOwnerView(hotkey, focused));
+        });
+
+        return result.sort((a: Hotkey, b: Hotkey) => {
+            return (b.priority - a.priority) || (b.depth - a.depth) || (b.sequence - a.sequence);
+        });
+    }
+
+    /**
+     * return true if the node is inside the view of the hotkey owner
+     * owners without view (not set up or released) never contain the focus
+     * @param {Hotkey} hotkey tested hotkey
+     * @param {Node} node focused node
+     * @return {boolean} true if the owner contains the node
+     */
+    private _isInOwnerView(hotkey: Hotkey, node: Node) : boolean {
+        let view: CommonHtmlNode = hotkey.owner.view;
+
+        return !!view && !!view.node && containsNode(view.node, node);
+    }
+
+    /**
+     * find hotkey matching the strokes
+     * @param {Hotkey[]} candidates sorted active hotkeys
+     * @param {string[]} strokes pressed strokes
+     * @return {Hotkey} matching hotkey (NULL if there is none)
+     */
+    private _findMatch(candidates: Hotkey[], strokes: string[]) : Hotkey {
+        let combination: string = strokes.join(" ");
+
+        for (let hotkey of candidates) {
+            if (hotkey.combination == combination)
+                return hotkey;
+        }
+
+        return null;
+    }
+
+    /**
+     * return true if strokes can be completed to some hotkey
+     * @param {Hotkey[]} candidates active hotkeys
+     * @param {string[]} strokes pressed strokes
+     * @return {boolean} true if some longer hotkey starts with the strokes
+     */
+    private _isPrefix(candidates: Hotkey[], strokes: string[]) : boolean {
+        let prefix: string = strokes.join(" ") + " ";
+
+        return candidates.some((hotkey: Hotkey) => { return hotkey.combination.indexOf(prefix) == 0; });
+    }
+
+    /**
+     * return true if element accepts text input
+     * @param {Element} element element to test
+     * @return {boolean} true if element is editable
+     */
+    private _isEditable(element: Element) : boolean {
+        if (!element)
+            return false;
+
+        let tagName: string = element.tagName;
+        return tagName == "INPUT" || tagName == "TEXTAREA" || tagName == "SELECT" || (<HTMLElement>element).isContentEditable;
+    }
+}
+
+
+/**
+ * registered hotkey
+ */
+class Hotkey {
+
+    public readonly strokes: string[];
+
+    public readonly combination: string;
+
+    public readonly owner: IHotkeyOwner;
+
+    public readonly sequence: number;
+
+    public remover: Function;
+
+    private _options: HotkeyOptions;
+
+    constructor(strokes: string[], owner: IHotkeyOwner, options: HotkeyOptions, sequence: number) {
+        this.strokes = strokes;
+        this.combination = strokes.join(" ");
+        this.owner = owner;
+        this.sequence = sequence;
+        this.remover = null;
+        this._options = options;
+    }
+
+    get eventType(): string {
+        return this._options.eventType || HotkeyEvent.DEFAULT_TYPE;
+    }
+
+    get global(): boolean {
+        return !!this._options.global;
+    }
+
+    get priority(): number {
+        return this._options.priority || 0;
+    }
+
+    get inInputs(): boolean {
+        return !!this._options.inInputs;
+    }
+
+    /**
+     * get depth of the owner in the controller tree
+     * @return {number} number of the parents
+     */
+    get depth(): number {
+        let result: number = 0;
+
+        for (let current: IHotkeyOwner = this.owner.parent; current; current = current.parent)
+            ++result;
+
+        return result;
+    }
+}
@@ -3,10 +3,17 @@ import { DomManipulator, CommonHtmlElement } from "./dom";
 import { ServiceManager } from "./service_management";
 import { ModuleManager, ModuleFactoryFn } from "./modules"
 import { register } from "./view/components/register"
-import { ComponentFactory, ComponentInserter, ControllerManager } from "./component"
+import { ComponentFactory, ComponentInserter, ControllerManager, ControllerBase } from "./component"
 import { sizerFactory } from "./view/sizer/factory"
 import { SizerFactory } from "./view/sizer/base"
 import { Application } from "./application"
+import { ComponentObserver } from "./component_observer"
+import { ObservableModel } from "./binding"
+import { ComponentDefinition, defineComponent } from "./definition"
+import { CustomElementAdapter, CustomElementOptions } from "./custom_elements"
+import { EventBus } from "./event_bus"
+import { HotkeyManager } from "./hotkeys"
+import { FocusManager } from "./focus"
 
 
 export class OwlWebLib {
@@ -21,6 +28,18 @@ export class OwlWebLib {
 
     static SERVICE_PREFIX_CONTROLLER_MANAGER: string = "owl.controllerManager";
 
+    static SERVICE_PREFIX_COMPONENT_INSERTER: string = "owl.componentInserter";
+
+    static SERVICE_PREFIX_MODEL: string = "owl.model";
+
+    static SERVICE_PREFIX_CUSTOM_ELEMENTS: string = "owl.customElements";
+
+    static SERVICE_PREFIX_EVENT_BUS: string = "owl.eventBus";
+
+    static SERVICE_PREFIX_HOTKEYS: string = "owl.hotkeys";
+
+    static SERVICE_PREFIX_FOCUS_MANAGER: string = "owl.focusManager";
+
     private _serviceManager: ServiceManager;
 
     private _domManipulator: DomManipulator;
@@ -41,6 +60,24 @@ export class OwlWebLib {
 
     private _sizerFactory: SizerFactory;
 
+    private _componentObserver: ComponentObserver;
+
+    private _observeMutations: boolean;
+
+    private _model: ObservableModel;
+
+    private _definedComponents: Function[];
+
+    private _customElementAdapter: CustomElementAdapter;
+
+    private _customElements: Function[];
+
+    private _eventBus: EventBus;
+
+    private _hotkeyManager: HotkeyManager;
+
+    private _focusManager: FocusManager;
+
     constructor() {
         this._serviceManager = new ServiceManager();
         this._moduleManager = new ModuleManager();
@@ -48,19 +85,132 @@ export class OwlWebLib {
         this._sizerFactory = sizerFactory();
         this._domManipulator = null;
         this._componentFactory = null;
+        this._componentObserver = null;
+        this._observeMutations = false;
+        this._model = new ObservableModel();
+        this._definedComponents = new Array<Function>();
+        this._customElementAdapter = null;
+        this._customElements = new Array<Function>();
+        this._eventBus = new EventBus();
+        this._hotkeyManager = null;
+        this._focusManager = null;
     }
 
     public addMoudle(name: string, dependencies: string[], factory: ModuleFactoryFn) : void {
         this._moduleManager.addModule(name, dependencies, factory);
     }
 
-    public run(window: Window, rootElement: HTMLElement) : void {
+    /**
+     * define new component from the template
+     * component is registered when the application runs (or immediately if it is running)
+     * @param {ComponentDefinition} definition definition of the component
+     */
+    public defineComponent(definition: ComponentDefinition) : void {
+        let register: Function = defineComponent(definition);
+
+        if (this._componentFactory)
+            register(this._componentFactory, this._serviceManager);
+        else
+            this._definedComponents.push(register);
+    }
+
+    /**
+     * export registered component as custom element (e.g. <owl-simple-button>)
+     * element is defined when the application runs (or immediately if it is running)
+     * @param {string} componentName name of the component
+     * @param {CustomElementOptions={}} options options of the custom element
+     */
+    public defineCustomElement(componentName: string, options: CustomElementOptions={}) : void {
+        let define: Function = (adapter: CustomElementAdapter) => { adapter.define(componentName, options); };
+
+        if (this._customElementAdapter)
+            define(this._customElementAdapter);
+        else
+            this._customElements.push(define);
+    }
+
+    /**
+     * run the application
+     * modules are initialized first, then components are inserted and modules are started
+     * insertion is asynchronous, modules are started when components of the asynchronous services are loaded
+     * @param {Window} window the window
+     * @param {HTMLElement} rootElement root element of the application
+     * @return {Promise<void>} promise resolved when all components are inserted and all modules are ready
+     * (rejected with ModuleError naming the failed module or with the error of the initialization)
+     */
+    public run(window: Window, rootElement: HTMLElement) : Promise<void> {
         this._rootElement = rootElement;
         this._application = new Application();
         this._window = window;
 
-        this._initialize();
-        this._componentInserter.insertComponents();
+        try {
+            this._initialize();
+        } catch (err) {
+            return Promise.reject(err);
+        }
+
+        return this._moduleManager.initializeModules(this._serviceManager).then(() => {
+            return this._componentInserter.insertComponentsIntoAsync(rootElement);
+        }).then(() => {
+            this._application.detectChanges();
+
+            if (this._observeMutations)
+                this._componentObserver.start();
+
+            return this._moduleManager.startModules();
+        });
+    }
+
+    /**
+     * shut the application down
+     * modules are stopped in reverse order of the initialization, then inserted components are destroyed,
+     * global listeners are released and the service manager is disposed
+     * @return {Promise<void>} promise resolved when all modules are stopped
+     * (rejected with ModuleError of the first failed module)
+     */
+    public shutdown() : Promise<void> {
+        if (this._componentObserver)
+            this._componentObserver.stop();
+
+        return this._moduleManager.stopModules().then(() => {
+            this._release();
+        }, (err: Error) => {
+            this._release();
+            throw err;
+        });
+    }
+
+    /**
+     * re-evaluate {{ expression }} interpolations of all components
+     */
+    public detectChanges() : void {
+        this._application.detectChanges();
+    }
+
+    /**
+     * enable or disable automatic insertion of components added to the root element later
+     * and automatic destruction of components removed from it
+     * @param {boolean=true} enabled true to enable observing
+     */
+    public observeMutations(enabled: boolean=true) : void {
+        this._observeMutations = enabled;
+
+        if (!this._componentObserver)
+            return;
+
+        if (enabled)
+            this._componentObserver.start();
+        else
+            this._componentObserver.stop();
+    }
+
+    /**
+     * insert components into subtree added after the application run
+     * @param {HTMLElement} element root of the subtree
+     * @return {ControllerBase[]} created controllers
+     */
+    public compile(element: HTMLElement) : ControllerBase[] {
+        return this._componentInserter.insertComponentsInto(element);
     }
 
     public get serviceManager(): ServiceManager {
@@ -75,6 +225,14 @@ export class OwlWebLib {
         return this._componentFactory;
     }
 
+    public get model(): ObservableModel {
+        return this._model;
+    }
+
+    public get eventBus(): EventBus {
+        return this._eventBus;
+    }
+
     public get rootElement(): HTMLElement {
         return this._rootElement;
     }
@@ -83,18 +241,39 @@ export class OwlWebLib {
         return this._window;
     }
 
+    /**
+     * destroy inserted components, release global listeners and dispose services
+     */
+    private _release() : void {
+        if (this._application) {
+            for (let child of this._application.children)
+                child.destroy();
+        }
+
+        if (this._hotkeyManager)
+            this._hotkeyManager.detach();
+
+        if (this._focusManager)
+            this._focusManager.detach();
+
+        this._serviceManager.dispose();
+    }
+
     private _initialize() : void {
         this._initializeMembers();
         this._initializeCommonServices();
         this._initializeComponents();
         this._initializeApplication();
         this._initializeInserter();
-        this._moduleManager.initializeModules(this._serviceManager);
     }
 
     private _initializeMembers() : void {
         this._domManipulator = new DomManipulator(this._window, this._rootElement);
         this._componentFactory = new ComponentFactory(this._serviceManager, this._domManipulator);
+        this._hotkeyManager = new HotkeyManager(this._window.document);
+        this._hotkeyManager.attach();
+        this._focusManager = new FocusManager(this._window.document);
+        this._focusManager.attach();
     }
 
     private _initializeCommonServices() : void {
@@ -103,10 +282,19 @@ export class OwlWebLib {
         this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_COMPONENT_MANAGER, () => { return this._componentFactory; });
         this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_SIZER_MANAGER, () => { return this._sizerFactory; });
         this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_CONTROLLER_MANAGER, () => { return this._controllerManager; });
+        this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_COMPONENT_INSERTER, () => { return this._componentInserter; });
+        this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_MODEL, () => { return this._model; });
+        this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_CUSTOM_ELEMENTS, () => { return this._customElementAdapter; });
+        this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_EVENT_BUS, () => { return this._eventBus; });
+        this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_HOTKEYS, () => { return this._hotkeyManager; });
+        this._serviceManager.registerService(OwlWebLib.SERVICE_PREFIX_FOCUS_MANAGER, () => { return this._focusManager; });
     }
 
     private _initializeComponents() : void {
         register(this._componentFactory, this._serviceManager);
+
+        for (let definedRegister of this._definedComponents)
+            definedRegister(this._componentFactory, this._serviceManager);
     }
 
     private _initializeApplication() : void {
@@ -116,5 +304,11 @@ export class OwlWebLib {
 
     private _initializeInserter(): void {
         this._componentInserter = new ComponentInserter(this._componentFactory, this._controllerManager, this._application);
+        this._componentObserver = new ComponentObserver(this._componentInserter, this._application);
+        this._customElementAdapter = new CustomElementAdapter(
+            this._componentFactory, this._componentInserter, this._controllerManager, this._domManipulator);
+
+        for (let define of this._customElements)
+            define(this._customElementAdapter);
     }
 }
@@ -0,0 +1,587 @@
+import { DomManipulator, CommonHtmlNode, CommonHtmlElement, CommonHtmlText, CommonHtmlAttribute } from "./dom"
+
+
+/**
+ * interface for all interpolations
+ */
+export interface IInterpolation {
+
+    /**
+     * evaluate expressions and update the DOM if result was changed
+     * @param {Object} context context the expressions are evaluated in
+     */
+    update(context: Object): void;
+}
+
+
+/**
+ * parsed text with {{ expression }} (escaped) and {{{ expression }}} (raw HTML) parts
+ */
+export class InterpolationTemplate {
+
+    /**
+     * pattern matching raw and escaped expressions
+     * @type {RegExp}
+     */
+    static EXPRESSION_PATTERN: RegExp = /\{\{\{([\s\S]+?)\}\}\}|\{\{([\s\S]+?)\}\}/g;
+
+    /**
+     * parts of the template
+     * @type {TemplatePart[]}
+     */
+    private _parts: TemplatePart[];
+
+    /**
+     * initialize instance
+     * @param {TemplatePart[]} parts parts of the template
+     */
+    constructor(parts: TemplatePart[]) {
+        this._parts = parts;
+    }
+
+    /**
+     * parse text to the template
+     * @param {string} text text to parse
+     * @return {InterpolationTemplate} parsed template
+     */
+    public static parse(text: string) : InterpolationTemplate {
+        let parts: TemplatePart[] = new Array<TemplatePart>();
+        let pattern: RegExp = new RegExp(InterpolationTemplate.EXPRESSION_PATTERN.source, "g");
+        let lastIndex: number = 0;
+        let match: RegExpExecArray;
+
+        while ((match = pattern.exec(text)) !== null) {
+            if (match.index > lastIndex)
+                parts.push(new StaticPart(text.substring(lastIndex, match.index)));
+
+            if (match[1] !== undefined)
+                parts.push(new ExpressionPart(match[1], true));
+            else
+                parts.push(new ExpressionPart(match[2], false));
+
+            lastIndex = pattern.lastIndex;
+        }
+
+        if (lastIndex < text.length)
+            parts.push(new StaticPart(text.substring(lastIndex)));
+
+        return new InterpolationTemplate(parts);
+    }
+
+    /**
+     * render template
+     * @param {Object} context context the expressions are evaluated in
+     * @param {boolean} escape if true, result is HTML code (all but raw parts are escaped)
+     * @return {string} rendered text
+     */
+    public render(context: Object, escape: boolean) : string {
+        let result: string = "";
+
+        for (let part of this._parts)
+            result += part.render(context, escape);
+
+        return result;
+    }
+
+    /**
+     * return true if template contains some expression
+     * @return {boolean} true if template contains expression
+     */
+    get hasExpressions(): boolean {
+        return this._parts.some((part: TemplatePart) => { return part instanceof ExpressionPart; });
+    }
+
+    /**
+     * return true if template contains some raw HTML expression
+     * @return {boolean} true if template contains raw expression
+     */
+    get hasRawExpressions(): boolean {
+        return this._parts.some((part: TemplatePart) => { return part instanceof ExpressionPart && part.raw; });
+    }
+}
+
+
+/**
+ * interpolate content of the text node
+ * if text contains raw HTML expressions, the text node is replaced by span element
+ */
+export class TextInterpolation implements IInterpolation {
+
+    /**
+     * parsed template
+     * @type {InterpolationTemplate}
+     */
+    private _template: InterpolationTemplate;
+
+    /**
+     * interpolated text node
+     * @type {CommonHtmlText}
+     */
+    private _text: CommonHtmlText;
+
+    /**
+     * element replacing the text node (NULL if template has no raw expression)
+     * @type {CommonHtmlElement}
+     */
+    private _wrapper: CommonHtmlElement;
+
+    /**
+     * last rendered value
+     * @type {string}
+     */
+    private _lastValue: string;
+
+    /**
+     * initialize instance
+     * @param {CommonHtmlText} text text node to interpolate
+     * @param {InterpolationTemplate} template parsed content of the text node
+     */
+    constructor(text: CommonHtmlText, template: InterpolationTemplate) {
+        this._text = text;
+        this._template = template;
+        this._wrapper = null;
+        this._lastValue = null;
+
+        if (template.hasRawExpressions)
+            this._replaceByWrapper();
+    }
+
+    /**
+     * evaluate expressions and update the DOM if result was changed
+     * @param {Object} context context the expressions are evaluated in
+     */
+    public update(context: Object) : void {
+        let value: string = this._template.render(context, this._wrapper !== null);
+
+        if (value === this._lastValue)
+            return;
+
+        if (this._wrapper)
+            this._wrapper.element.innerHTML = value;
+        else
+            this._text.content = value;
+
+        this._lastValue = value;
+    }
+
+    /**
+     * replace text node by the span element
+     */
+    private _replaceByWrapper() : void {
+        let textNode: Node = this._text.node;
+
+        this._wrapper = this._text.domManipulator.createElement("span");
+        this._wrapper.styles.addClass("owl-interpolation");
+        textNode.parentNode.replaceChild(this._wrapper.node, textNode);
+    }
+}
+
+
+/**
+ * interpolate value of the attribute
+ */
+export class AttributeInterpolation implements IInterpolation {
+
+    /**
+     * parsed template
+     * @type {InterpolationTemplate}
+     */
+    private _template: InterpolationTemplate;
+
+    /**
+     * interpolated attribute
+     * @type {CommonHtmlAttribute}
+     */
+    private _attribute: CommonHtmlAttribute;
+
+    /**
+     * last rendered value
+     * @type {string}
+     */
+    private _lastValue: string;
+
+    /**
+     * initialize instance
+     * @param {CommonHtmlAttribute} attribute attribute to interpolate
+     * @param {InterpolationTemplate} template parsed value of the attribute
+     */
+    constructor(attribute: CommonHtmlAttribute, template: InterpolationTemplate) {
+        this._attribute = attribute;
+        this._template = template;
+        this._lastValue = null;
+    }
+
+    /**
+     * evaluate expressions and update the DOM if result was changed
+     * @param {Object} context context the expressions are evaluated in
+     */
+    public update(context: Object) : void {
+        let value: string = this._template.render(context, false);
+
+        if (value === this._lastValue)
+            return;
+
+        this._attribute.value = value;
+        this._lastValue = value;
+    }
+}
+
+
+/**
+ * find all interpolated text nodes and attributes in the subtree
+ * content of the component placeholders (owl: elements) is skipped, it belongs to other components
+ * @param {CommonHtmlNode} root root of the subtree
+ * @return {IInterpolation[]} found interpolations
+ */
+export function collectInterpolations(root: CommonHtmlNode) : IInterpolation[] {
+    let result: IInterpolation[] = new Array<IInterpolation>();
+    let manipulator: DomManipulator = root.domManipulator;
+    let nodes: Node[] = new Array<Node>();
+
+    collectNodes(root.node, nodes);
+
+    for (let node of nodes) {
+        let value: string = (node.nodeType == Node.TEXT_NODE) ? node.textContent : (<Attr>node).value;
+
+        if (value.indexOf("{{") == -1)
+            continue;
+
+        let template: InterpolationTemplate = InterpolationTemplate.parse(value);
+
+        if (!template.hasExpressions)
+            continue;
+
+        if (node.nodeType == Node.TEXT_NODE)
+            result.push(new TextInterpolation(<CommonHtmlText>manipulator.mapNode(node), template));
+        else
+            result.push(new AttributeInterpolation(<CommonHtmlAttribute>manipulator.mapNode(node), template));
+    }
+
+    return result;
+}
+
+
+/**
+ * escape HTML special characters
+ * @param {string} text text to escape
+ * @return {string} escaped text
+ */
+export function escapeHtml(text: string) : string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+
+/**
+ * collect text nodes and attributes of the subtree (including the shadow root of the elements)
+ * @param {Node} node current node
+ * @param {Node[]} result found nodes
+ */
+function collectNodes(node: Node, result: Node[]) : void {
+    if (node.nodeType == Node.TEXT_NODE) {
+        result.push(node);
+        return;
+    }
+
+    if (node.nodeType != Node.ELEMENT_NODE || (<Element>node).tagName.substr(0, 4) == "OWL:")
+        return;
+
+    let attributes: NamedNodeMap = (<Element>node).attributes;
+
+    for (let i = 0; i < attributes.length; ++i)
+        result.push(attributes.item(i));
+
+    for (let i = 0; i < node.childNodes.length; ++i)
+        collectNodes(node.childNodes.item(i), result);
+
+    // rendered content of the shadow DOM mode components is attached to the shadow root of the host
+    let shadowRoot: ShadowRoot = (<Element>node).shadowRoot;
+
+    if (!shadowRoot)
+        return;
+
+    for (let i = 0; i < shadowRoot.childNodes.length; ++i)
+        collectNodes(shadowRoot.childNodes.item(i), result);
+}
+
+
+/**
+ * part of the template
+ */
+abstract class TemplatePart {
+
+    /**
+     * render part
+     * @param {Object} context context the expressions are evaluated in
+     * @param {boolean} escape true if result is HTML code
+     * @return {string} rendered part
+     */
+    public abstract render(context: Object, escape: boolean): string;
+}
+
+
+/**
+ * static text of the template
+ */
+class StaticPart extends TemplatePart {
+
+    /**
+     * static text
+     * @type {string}
+     */
+    private _text: string;
+
+    constructor(text: string) {
+        super();
+        this._text = text;
+    }
+
+    public render(context: Object, escape: boolean) : string {
+        return escape ? escapeHtml(this._text) : this._text;
+    }
+}
+
+
+/**
+ * step of the expression path
+ * args are NULL for property access, list of literal arguments for method call
+ */
+interface PathStep {
+    name: string;
+    args: any[];
+}
+
+
+/**
+ * expression of the template
+ * the expression is path of properties and method calls with literal arguments evaluated in the context
+ * e.g. this.title, this.model.get('item.name'), "this." prefix is optional
+ */
+class ExpressionPart extends TemplatePart {
+
+    /**
+     * parsed path of the expression (NULL if the expression is invalid)
+     * @type {PathStep[]}
+     */
+    private _steps: PathStep[];
+
+    /**
+     * source code of the expression
+     * @type {string}
+     */
+    private _expression: string;
+
+    /**
+     * true if result is inserted as raw HTML
+     * @type {boolean}
+     */
+    private _raw: boolean;
+
+    /**
+     * true if failure of the evaluation was already reported
+     * @type {boolean}
+     */
+    private _failureReported: boolean;
+
+    constructor(expression: string, raw: boolean) {
+        super();
+        this._expression = expression.trim();
+        this._raw = raw;
+        this._failureReported = false;
+
+        try {
+            this._steps = new ExpressionParser(this._expression).parse();
+        } catch (err) {
+            // invalid expression is rendered as empty string, the rest of the template still works
+            console.error("Expression '" + this._expression + "' is invalid", err);
+            this._steps = null;
+        }
+    }
+
+    public render(context: Object, escape: boolean) : string {
+        let value: any = null;
+
+        try {
+            if (this._steps)
+                value = this._evaluate(context);
+        } catch (err) {
+            // report only the first failure, not every repaint
+            if (!this._failureReported)
+                console.error("Expression '" + this._expression + "' failed", err);
+
+            this._failureReported = true;
+            value = null;
+        }
+
+        let text: string = (value === null || value === undefined) ? "" : String(value);
+        return (escape && !this._raw) ? escapeHtml(text) : text;
+    }
+
+    get raw(): boolean {
+        return this._raw;
+    }
+
+    /**
+     * walk the path from the context
+     * missing value on the path or call of missing method results in undefined
+     * @param {Object} context context the expression is evaluated in
+     * @return {any} value of the expression
+     */
+    private _evaluate(context: Object) : any {
+        let current: any = context;
+
+        for (let step of this._steps) {
+            if (current === null || current === undefined)
+                return undefined;
+
+            let value: any = current[step.name];
+
+            if (step.args === null)
+                current = value;
+            else if (typeof value == "function")
+                current = value.apply(current, step.args);
+            else
+                return undefined;
+        }
+
+        return current;
+    }
+}
+
+
+/**
+ * parser of the interpolation expression
+ */
+class ExpressionParser {
+
+    static IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+
+    static NUMBER = /^-?\d+(\.\d+)?/;
+
+    static STRING = /^('([^'\\]|\\.)*'|"([^"\\]|\\.)*")/;
+
+    private _text: string;
+
+    private _position: number;
+
+    constructor(text: string) {
+        this._text = text;
+        this._position = 0;
+    }
+
+    /**
+     * parse whole expression
+     * @return {PathStep[]} steps of the path
+     * @throws Error expression is invalid
+     */
+    public parse() : PathStep[] {
+        let result: PathStep[] = new Array<PathStep>();
+
+        if (this._text.substr(0, 5) == "this.")
+            this._position = 5;
+
+        do {
+            this._skipSpaces();
+            result.push(this._parseStep());
+            this._skipSpaces();
+        } while (this._accept("."));
+
+        if (!this._isEnd())
+            this._fail("unexpected '" + this._text.substr(this._position) + "'");
+
+        return result;
+    }
+
+    private _parseStep() : PathStep {
+        let name: string = this._expect(ExpressionParser.IDENTIFIER, "property name");
+
+        this._skipSpaces();
+
+        if (!this._accept("("))
+            return { name: name, args: null };
+
+        let args: any[] = new Array<any>();
+
+        this._skipSpaces();
+
+        if (!this._accept(")")) {
+            do {
+                args.push(this._parseArgument());
+                this._skipSpaces();
+            } while (this._accept(","));
+
+            if (!this._accept(")"))
+                this._fail("')' expected");
+        }
+
+        return { name: name, args: args };
+    }
+
+    private _parseArgument() : any {
+        this._skipSpaces();
+
+        let token: string = this._match(ExpressionParser.STRING);
+
+        if (token !== null)
+            return token.substr(1, token.length - 2).replace(/\\(.)/g, "$1");
+
+        if ((token = this._match(ExpressionParser.NUMBER)) !== null)
+            return Number(token);
+
+        if ((token = this._match(ExpressionParser.IDENTIFIER)) !== null) {
+            switch (token) {
+                case "true": return true;
+                case "false": return false;
+                case "null": return null;
+            }
+
+            this._fail("unknown argument '" + token + "', only literals are allowed");
+        }
+
+        this._fail("argument expected");
+    }
+
+    private _match(pattern: RegExp) : string {
+        let match: RegExpExecArray = pattern.exec(this._text.substr(this._position));
+
+        if (!match)
+            return null;
+
+        this._position += match[0].length;
+        return match[0];
+    }
+
+    private _expect(pattern: RegExp, description: string) : string {
+        let token: string = this._match(pattern);
+
+        if (token === null)
+            this._fail(description + " expected");
+
+        return token;
+    }
+
+    private _accept(char: string) : boolean {
+        if (this._text.charAt(this._position) != char)
+            return false;
+
+        ++this._position;
+        return true;
+    }
+
+    private _skipSpaces() : void {
+        while (/\s/.test(this._text.charAt(this._position)))
+            ++this._position;
+    }
+
+    private _isEnd() : boolean {
+        return this._position >= this._text.length;
+    }
+
+    private _fail(reason: string) : never {
+        throw new Error(reason + " at position " + this._position);
+    }
+}
@@ -1,6 +1,74 @@
 import { ServiceManager, ServiceNamespace } from "./service_management"
+import { OwlError } from "./errors"
 
-export type ModuleFactoryFn = (rootServiceManager: ServiceManager, moduleServiceManager: ServiceManager, dependecies: ServiceManagerLookup) => void;
+export type ModuleFactoryFn = (rootServiceManager: ServiceManager, moduleServiceManager: ServiceManager, dependecies: ServiceManagerLookup) => void | IModuleLifecycle;
+
+
+/**
+ * lifecycle hooks optionally returned by the module factory
+ * each hook may return Promise, the next step waits for it
+ */
+export interface IModuleLifecycle {
+
+    /**
+     * called after the factory, modules depending on this one are initialized when it finishes
+     */
+    init?(): void | Promise<any>;
+
+    /**
+     * called after the components are inserted
+     */
+    start?(): void | Promise<any>;
+
+    /**
+     * called on the application shutdown (in reverse order of the initialization)
+     */
+    stop?(): void | Promise<any>;
+}
+
+
+/**
+ * phase of the module lifecycle
+ */
+export type ModulePhase = "factory" | "init" | "start" | "stop";
+
+
+/**
+ * error thrown when module fails in some phase of its lifecycle
+ */
+export class ModuleError extends OwlError {
+
+    /**
+     * name of the failed module
+     * @type {string}
+     */
+    public readonly moduleName: string;
+
+    /**
+     * phase where the module failed
+     * @type {ModulePhase}
+     */
+    public readonly phase: ModulePhase;
+
+    /**
+     * original error
+     * @type {any}
+     */
+    public readonly cause: any;
+
+    /**
+     * initialize instance
+     * @param {string} moduleName name of the failed module
+     * @param {ModulePhase} phase phase where the module failed
+     * @param {any} cause original error
+     */
+    constructor(moduleName: string, phase: ModulePhase, cause: any) {
+        super("Module '" + moduleName + "' failed in " + phase + ": " + (cause instanceof Error ? cause.message : String(cause)));
+        this.moduleName = moduleName;
+        this.phase = phase;
+        this.cause = cause;
+    }
+}
 
 
 /**
@@ -20,11 +88,25 @@ export class ModuleManager {
      */
     private _modules: Module[];
 
+    /**
+     * initialized modules in order of the initialization
+     * @type {InitializedModule[]}
+     */
+    private _initialized: InitializedModule[];
+
+    /**
+     * module-level scope, parent of the service managers of the modules
+     * @type {ServiceManager}
+     */
+    private _moduleServiceManager: ServiceManager;
+
     /**
      * initialize instance
      */
     constructor() {
         this._modules = new Array<Module>();
+        this._initialized = new Array<InitializedModule>();
+        this._moduleServiceManager = null;
     }
 
     /**
@@ -39,27 +121,139 @@ export class ModuleManager {
 
     /**
      * initialize all registered modules
+     * modules are initialized one by one in order of the dependencies,
+     * factory of the module is called when init hooks of its dependencies are finished
      * @param {ServiceManager} serviceManager the top level service manager
+     * @return {Promise<void>} promise resolved when all modules are initialized
+     * (rejected with ModuleError if some module fails)
+     */
+    public initializeModules(serviceManager: ServiceManager) : Promise<void> {
+        let order: Module[];
+        let moduleManagers: ServiceManagerLookup = new ServiceManagerLookup();
+        let moduleServiceManager: ServiceManager;
+
+        try {
+            order = this._resolveOrder();
+            moduleServiceManager = serviceManager.createScope(serviceManager.getNamespaceByPath(ModuleManager.MODULE_NS));
+            this._moduleServiceManager = moduleServiceManager;
+        } catch (err) {
+            return Promise.reject(err);
+        }
+
+        return order.reduce((previous: Promise<void>, moduleInstance: Module) => {
+            return previous.then(() => {
+                let rootSource: string = serviceManager.source;
+
+                // services registered to the top level manager by the factory or the init hook are marked with the module name
+                serviceManager.source = moduleInstance.name;
+
+                return new Promise<void>((resolve: Function) => {
+                    let initialized: InitializedModule = this._initializeModule(moduleInstance,
+                        serviceManager, moduleServiceManager, moduleManagers);
+
+                    moduleManagers[moduleInstance.name] = initialized.serviceManager;
+                    this._initialized.push(initialized);
+
+                    resolve(this._callHook(initialized, "init"));
+                }).then(() => {
+                    serviceManager.source = rootSource;
+                }, (err: any) => {
+                    serviceManager.source = rootSource;
+                    throw err;
+                });
+            });
+        }, Promise.resolve());
+    }
+
+    /**
+     * call start hooks of the initialized modules (in order of the initialization)
+     * @return {Promise<void>} promise resolved when all modules are started
+     * (rejected with ModuleError if some module fails)
+     */
+    public startModules() : Promise<void> {
+        return this._initialized.reduce((previous: Promise<void>, initialized: InitializedModule) => {
+            return previous.then(() => { return this._callHook(initialized, "start"); });
+        }, Promise.resolve());
+    }
+
+    /**
+     * call stop hooks of the initialized modules (in reverse order of the initialization)
+     * and dispose service managers of the modules and the module-level scope
+     * all modules are stopped even if some of them fails
+     * @return {Promise<void>} promise resolved when all modules are stopped
+     * (rejected with ModuleError of the first failed module)
+     */
+    public stopModules() : Promise<void> {
+        let modules: InitializedModule[] = this._initialized.slice().reverse();
+        let failure: ModuleError = null;
+
+        this._initialized = new Array<InitializedModule>();
+
+        return modules.reduce((previous: Promise<void>, initialized: InitializedModule) => {
+            return previous.then(() => {
+                return this._callHook(initialized, "stop").catch((err: ModuleError) => {
+                    failure = failure || err;
+                });
+            }).then(() => {
+                initialized.serviceManager.dispose();
+            });
+        }, Promise.resolve()).then(() => {
+            if (this._moduleServiceManager)
+                this._moduleServiceManager.dispose();
+
+            this._moduleServiceManager = null;
+
+            if (failure)
+                throw failure;
+        });
+    }
+
+    /**
+     * get names of the initialized modules
+     * @return {string[]} names of the modules in order of the initialization
+     */
+    public getInitializedModuleNames() : string[] {
+        return this._initialized.map((initialized: InitializedModule) => { return initialized.module.name; });
+    }
+
+    /**
+     * get modules in order of the initialization
+     * @return {Module[]} sorted modules
+     * @throws Error dependencies can not be satisfied
      */
-    public initializeModules(serviceManager: ServiceManager) : void {
+    private _resolveOrder() : Module[] {
         let resolver: DependencyResolver = this._createResolver();
         let moduleLookup: Object = new Object();
-        let moduleManagers: ServiceManagerLookup = new ServiceManagerLookup();
-        let moduleServiceManager: ServiceManager = new ServiceManager(serviceManager.getNamespaceByPath(ModuleManager.MODULE_NS));
+        let result: Module[] = new Array<Module>();
 
         for (let m of this._modules) moduleLookup[m.name] = m;
 
         while(resolver.getRemainingModulesCount() > 0) {
             let moduleName = resolver.getSatisfiedModuleName();
-            let moduleInstance: Module = moduleLookup[moduleName];
-
-            let sm: ServiceManager = this._initializeModule(moduleInstance,
-                serviceManager, moduleServiceManager, moduleManagers);
-
-            moduleManagers[moduleName] = sm;
 
+            result.push(moduleLookup[moduleName]);
             resolver.markAsResolved(moduleName);
         }
+
+        return result;
+    }
+
+    /**
+     * call lifecycle hook of the module
+     * @param {InitializedModule} initialized the module
+     * @param {ModulePhase} phase phase of the hook
+     * @return {Promise<void>} promise resolved when the hook is finished (rejected with ModuleError)
+     */
+    private _callHook(initialized: InitializedModule, phase: ModulePhase) : Promise<void> {
+        let lifecycle: IModuleLifecycle = initialized.lifecycle;
+        let hook: Function = lifecycle ? lifecycle[phase] : null;
+
+        if (typeof hook != "function")
+            return Promise.resolve();
+
+        return new Promise<void>((resolve: Function) => { resolve(hook.call(lifecycle)); }).catch((err: any) => {
+            throw new ModuleError(initialized.module.name, phase, err);
+        });
     }
 
     /**
@@ -81,21 +275,34 @@ export class ModuleManager {
      * @param {ServiceManager} rootServiceManager root service manager (top level)
      * @param {ServiceManager} moduleLevelServiceManager service manager with modules
      * @param {ServiceManagerLookup} moduleManagers lookup with all initialized modules service managers
-     * @return {ServiceManager} service manager of the new instantized module
+     * @return {InitializedModule} the module with its service manager and lifecycle hooks
+     * @throws ModuleError factory of the module failed
      */
     private _initializeModule(moduleInstance: Module,
             rootServiceManager: ServiceManager,
             moduleLevelServiceManager: ServiceManager,
-            moduleManagers: ServiceManagerLookup) : ServiceManager {
+            moduleManagers: ServiceManagerLookup) : InitializedModule {
 
-        let moduleServiceManager: ServiceManager = new ServiceManager(
+        let moduleServiceManager: ServiceManager = moduleLevelServiceManager.createScope(
             moduleLevelServiceManager.getNamespaceByPath(moduleInstance.name));
         let customizedLookup = this._buildLookupForModuleFactory(
             moduleManagers, moduleInstance.dependencies);
+        let lifecycle: void | IModuleLifecycle;
 
-        moduleInstance.factoryFn(rootServiceManager, moduleServiceManager, customizedLookup);
+        // services registered by the module are marked with the module name
+        moduleServiceManager.source = moduleInstance.name;
+
+        try {
+            lifecycle = moduleInstance.factoryFn(rootServiceManager, moduleServiceManager, customizedLookup);
+        } catch (err) {
+            throw new ModuleError(moduleInstance.name, "factory", err);
+        }
 
-        return moduleServiceManager;
+        return {
+            module: moduleInstance,
+            serviceManager: moduleServiceManager,
+            lifecycle: lifecycle || null
+        };
     }
 
     /**
@@ -126,6 +333,16 @@ export class ServiceManagerLookup {
 }
 
 
+/**
+ * initialized module with its service manager and lifecycle hooks
+ */
+interface InitializedModule {
+    module: Module;
+    serviceManager: ServiceManager;
+    lifecycle: IModuleLifecycle;
+}
+
+
 /**
  * represent module and hold data need for the initialization
  */
@@ -215,6 +432,8 @@ class DependencyResolver {
 
         if (record)
             record.addDependencies(dependencies);
+        else
+            this._remainingDependencies.push(new DependencyResolvingRecord(moduleName, dependencies));
     }
 
     /**
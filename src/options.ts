@@ -0,0 +1,217 @@
+import { CommonHtmlElement } from "./dom"
+import { OwlError } from "./errors"
+
+
+/**
+ * supported types of the options
+ */
+export type OptionType = "string" | "number" | "boolean" | "json";
+
+
+/**
+ * declaration of one option
+ */
+export interface OptionDefinition {
+
+    /**
+     * type of the option value (string by default)
+     * @type {OptionType}
+     */
+    type?: OptionType;
+
+    /**
+     * value used when attribute is not set
+     * @type {any}
+     */
+    default?: any;
+
+    /**
+     * name of the attribute (kebab-case form of the option name by default)
+     * @type {string}
+     */
+    attribute?: string;
+
+    /**
+     * allowed values (any value is allowed if not set)
+     * @type {any[]}
+     */
+    values?: any[];
+
+    /**
+     * if true, attribute has to be set
+     * @type {boolean}
+     */
+    required?: boolean;
+}
+
+
+/**
+ * the key is option name
+ * the value is option definition
+ */
+export class OptionDefinitionLookup {
+    [name: string]: OptionDefinition;
+}
+
+
+/**
+ * error thrown when option value in the markup is invalid
+ */
+export class OptionError extends OwlError {
+
+    /**
+     * name of the invalid attribute
+     * @type {string}
+     */
+    public readonly attribute: string;
+
+    /**
+     * description of the problem
+     * @type {string}
+     */
+    public readonly reason: string;
+
+    /**
+     * name of the component (NULL if unknown)
+     * @type {string}
+     */
+    public readonly componentName: string;
+
+    /**
+     * initialize instance
+     * @param {string} attribute name of the invalid attribute
+     * @param {string} reason description of the problem
+     * @param {string=null} componentName name of the component
+     */
+    constructor(attribute: string, reason: string, componentName: string=null) {
+        super("Invalid attribute '" + attribute + "'"
+            + (componentName ? " of component '" + componentName + "'" : "")
+            + ": " + reason);
+
+        this.name = "OptionError";
+        this.attribute = attribute;
+        this.reason = reason;
+        this.componentName = componentName;
+    }
+}
+
+
+/**
+ * read declared options from the element attributes
+ * @param {CommonHtmlElement} element element to read options from
+ * @param {OptionDefinitionLookup} definitions declared options
+ * @return {Object} parsed options
+ * @throws OptionError attribute value is invalid or required attribute is missing
+ */
+export function readOptions(element: CommonHtmlElement, definitions: OptionDefinitionLookup) : Object {
+    let result: Object = new Object();
+
+    for (let name in definitions) {
+        let definition: OptionDefinition = definitions[name];
+        let attributeName: string = definition.attribute || toKebabCase(name);
+
+        if (element.attributes.has(attributeName))
+            result[name] = readOption(attributeName, element.attributes.get(attributeName).value, definition);
+        else if (definition.required)
+            throw new OptionError(attributeName, "attribute is required");
+        else
+            result[name] = (definition.default === undefined) ? null : definition.default;
+    }
+
+    return result;
+}
+
+
+/**
+ * find option declared for the attribute
+ * @param {OptionDefinitionLookup} definitions declared options
+ * @param {string} attributeName name of the attribute
+ * @return {string} name of the option (NULL if the attribute is not declared)
+ */
+export function findOptionByAttribute(definitions: OptionDefinitionLookup, attributeName: string) : string {
+    for (let name in definitions) {
+        if ((definitions[name].attribute || toKebabCase(name)) == attributeName)
+            return name;
+    }
+
+    return null;
+}
+
+
+/**
+ * coerce and validate one attribute value
+ * @param {string} attributeName name of the attribute
+ * @param {string} value raw value (NULL if the attribute is not set)
+ * @param {OptionDefinition} definition option definition
+ * @return {any} option value (default value if the attribute is not set)
+ * @throws OptionError value is invalid
+ */
+export function readOption(attributeName: string, value: string, definition: OptionDefinition) : any {
+    let result: any;
+
+    if (value === null)
+        return (definition.default === undefined) ? null : definition.default;
+
+    try {
+        result = coerceOption(value, definition.type || "string");
+    } catch (err) {
+        throw new OptionError(attributeName, err.message);
+    }
+
+    if (definition.values && definition.values.indexOf(result) == -1)
+        throw new OptionError(attributeName, "value '" + value + "' is not one of: " + definition.values.join(", "));
+
+    return result;
+}
+
+
+/**
+ * convert raw attribute value to the option type
+ * @param {string} value raw value
+ * @param {OptionType} type target type
+ * @return {any} converted value
+ * @throws Error value can not be converted
+ */
+export function coerceOption(value: string, type: OptionType) : any {
+    switch (type) {
+        case "string":
+        return value;
+
+        case "number":
+        let num: number = Number(value);
+
+        if (value.trim() == "" || isNaN(num))
+            throw new Error("Value '" + value + "' is not a number");
+
+        return num;
+
+        case "boolean":
+        return value != "false" && value != "0";
+
+        case "json":
+        return JSON.parse(value);
+
+        default:
+        throw new Error("Unknown option type '" + type + "'");
+    }
+}
+
+
+/**
+ * convert camelCase name to kebab-case
+ * @param {string} name name to convert
+ * @return {string} converted name
+ */
+export function toKebabCase(name: string) : string {
+    return name.replace(/([A-Z])/g, (letter: string) => { return "-" + letter.toLowerCase(); });
+}
+
+
+/**
+ * convert kebab-case name to camelCase
+ * @param {string} name name to convert
+ * @return {string} converted name
+ */
+export function toCamelCase(name: string) : string {
+    return name.replace(/-([a-z])/g, (match: string, letter: string) => { return letter.toUpperCase(); });
+}
@@ -1,5 +1,6 @@
 
 import { DomManipulator, CommonHtmlNode, CommonHtmlElement, CommonHtmlAttribute } from "./dom";
+import { OptionDefinitionLookup, readOptions } from "./options";
 
 /**
  * interface for all renderers
@@ -27,11 +28,29 @@ export interface IRenderer {
      * @return {Object} parsed options
      */
     getOptions(originalNode: CommonHtmlNode): Object;
+
+    /**
+     * get declaration of the options (optional, attributes of renderers without schema are read as strings)
+     * @return {OptionDefinitionLookup} option schema
+     */
+    getOptionSchema?(): OptionDefinitionLookup;
 }
 
 
 export abstract class AbstractRenderer implements IRenderer {
 
+    /**
+     * name of the attribute selecting target slot of the content
+     * @type {String}
+     */
+    static SLOT_ATTRIBUTE = "slot";
+
+    /**
+     * name of the slot for the content without slot attribute
+     * @type {String}
+     */
+    static DEFAULT_SLOT = "default";
+
     /**
      * last rendered result
      * @type {RenderResult}
@@ -57,8 +76,10 @@ export abstract class AbstractRenderer implements IRenderer {
 
     /**
      * read options from the original node
+     * options declared by the option schema are coerced and validated
      * @param {CommonHtmlNode} originalNode original node
      * @return {Object} parsed options
+     * @throws OptionError attribute value does not match the schema
      */
     public getOptions(originalNode: CommonHtmlNode): Object {
         let result = new Object();
@@ -73,11 +94,36 @@ export abstract class AbstractRenderer implements IRenderer {
 
             result["id"] = this._getAttributeValue(originalNode, "id");
             result["classes"] = element.styles.getClasses();
+
+            let declared: Object = readOptions(element, this._getOptionSchema());
+
+            for (let name in declared)
+                result[name] = declared[name];
         }
 
         return result;
     }
 
+    /**
+     * get declaration of the options
+     * @return {OptionDefinitionLookup} option schema
+     */
+    public getOptionSchema() : OptionDefinitionLookup {
+        return this._getOptionSchema();
+    }
+
+    /**
+     * get declaration of the options
+     * override to declare options (do not forget to extend the parent schema)
+     * @return {OptionDefinitionLookup} option schema
+     */
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = new OptionDefinitionLookup();
+        schema["ariaLabel"] = {};
+
+        return schema;
+    }
+
     protected _processRenderResult(result: RenderResult) : void {
         this._lastResult = result;
     }
@@ -87,6 +133,20 @@ export abstract class AbstractRenderer implements IRenderer {
             target.attributes.set("id", options["id"]);
     }
 
+    /**
+     * set role and accessible name of the element
+     * @param {CommonHtmlElement} target element exposed to the assistive technologies
+     * @param {string} role ARIA role (NULL keeps the native role)
+     * @param {Object} options rendering options, ariaLabel option is used as the accessible name
+     */
+    protected _setupAria(target: CommonHtmlElement, role: string, options: Object) : void {
+        if (role)
+            target.attributes.set("role", role);
+
+        if (options["ariaLabel"])
+            target.attributes.set("aria-label", options["ariaLabel"]);
+    }
+
     protected _setupClassNames(target: CommonHtmlElement, options: Object) : void {
         if (options["classes"])
             for (let className of options["classes"])
@@ -107,6 +167,74 @@ export abstract class AbstractRenderer implements IRenderer {
             target.append(c);
         }
     }
+
+    /**
+     * move content of the original node into the entry nodes
+     * children marked by slot="name" are moved into the entry node of the same name,
+     * the rest is moved into the default target
+     * content of the target entry node is kept as fallback if nothing is projected into it
+     * @param {CommonHtmlElement} source original node
+     * @param {EntryNodeLookup} entryNodes entry nodes of the rendered content
+     * @param {CommonHtmlElement} defaultTarget target of the content without slot
+     */
+    protected _projectContent(source: CommonHtmlElement, entryNodes: EntryNodeLookup, defaultTarget: CommonHtmlElement) : void {
+        let slots: SlotContentLookup = new SlotContentLookup();
+        let defaultContent: CommonHtmlNode[] = new Array<CommonHtmlNode>();
+
+        for (let child of source.chidlren) {
+            let slotName: string = this._getSlotName(child);
+
+            if (slotName && entryNodes[slotName] instanceof CommonHtmlElement) {
+                if (!slots[slotName])
+                    slots[slotName] = new Array<CommonHtmlNode>();
+
+                slots[slotName].push(child);
+            } else {
+                defaultContent.push(child);
+            }
+        }
+
+        for (let slotName in slots)
+            this._fillSlot(<CommonHtmlElement>entryNodes[slotName], slots[slotName], true);
+
+        this._fillSlot(defaultTarget, defaultContent, this._isEntryNode(defaultTarget, entryNodes));
+    }
+
+    private _getSlotName(node: CommonHtmlNode) : string {
+        if (!(node instanceof CommonHtmlElement) || !node.attributes.has(AbstractRenderer.SLOT_ATTRIBUTE))
+            return null;
+
+        let slotName: string = node.attributes.get(AbstractRenderer.SLOT_ATTRIBUTE).value;
+        return (slotName == AbstractRenderer.DEFAULT_SLOT) ? null : slotName;
+    }
+
+    /**
+     * move nodes into the slot
+     * @param {CommonHtmlElement} target slot element
+     * @param {CommonHtmlNode[]} nodes nodes to move
+     * @param {boolean} replaceFallback if true, current content of the target is removed
+     */
+    private _fillSlot(target: CommonHtmlElement, nodes: CommonHtmlNode[], replaceFallback: boolean) : void {
+        if (!nodes.some(isSignificantNode))
+            return;
+
+        if (replaceFallback) {
+            while (target.element.firstChild)
+                target.element.removeChild(target.element.firstChild);
+        }
+
+        for (let node of nodes)
+            target.append(node);
+    }
+
+    private _isEntryNode(node: CommonHtmlNode, entryNodes: EntryNodeLookup) : boolean {
+        for (let name in entryNodes) {
+            if (entryNodes[name] === node)
+                return true;
+        }
+
+        return false;
+    }
 }
 
 
@@ -191,3 +319,28 @@ export class RenderResult {
 export class EntryNodeLookup {
     [name: string]: CommonHtmlNode;
 }
+
+
+/**
+ * the key is slot name
+ * the value is content projected into the slot
+ */
+class SlotContentLookup {
+    [name: string]: CommonHtmlNode[];
+}
+
+
+/**
+ * return true if node is not a comment or whitespace text
+ * @param {CommonHtmlNode} node node to test
+ * @return {boolean} true if node is significant
+ */
+function isSignificantNode(node: CommonHtmlNode) : boolean {
+    if (node.node.nodeType == Node.COMMENT_NODE)
+        return false;
+
+    if (node.node.nodeType == Node.TEXT_NODE)
+        return node.node.textContent.trim().length > 0;
+
+    return true;
+}
@@ -1,12 +1,221 @@
+import { OwlError } from "./errors"
+
+
 /**
  * error thrown when item missing in ServiceIndex or Namespace index
  */
-export class LookupError extends Error {
+export class LookupError extends OwlError {
+}
+
+/**
+ * error thrown when services depend on each other
+ */
+export class CircularDependencyError extends OwlError {
+
+    /**
+     * paths of the services forming the cycle, the first one is repeated at the end
+     * @type {string[]}
+     */
+    public readonly cycle: string[];
+
+    /**
+     * initialize instance
+     * @param {string[]} cycle paths of the services forming the cycle
+     */
+    constructor(cycle: string[]) {
+        super("Circular dependency '" + cycle.join(" -> ") + "'");
+        this.cycle = cycle;
+    }
+}
+
+/**
+ * error thrown when service and namespace have the same path
+ * or when service is registered twice
+ */
+export class ServiceCollisionError extends OwlError {
+
+    /**
+     * initialize instance
+     * @param {string} message description of the collision
+     */
+    constructor(message: string) {
+        super(message);
+    }
 }
 
 export class ServiceBase {
 }
 
+/**
+ * lifetime of the service instances
+ * shared - one instance for the manager and all its scopes
+ * transient - new instance for every request
+ * scoped - one instance per scope (e.g. component subtree or module), disposed with the scope
+ */
+export type ServiceLifetime = "shared" | "transient" | "scoped";
+
+/**
+ * service releasing its resources when its scope ends
+ */
+export interface IDisposable {
+    dispose(): void;
+}
+
+/**
+ * wrap created instance of the service
+ * the returned value is used as the instance
+ */
+export type ServiceDecorator = (instance: any, serviceManager: ServiceManager) => any;
+
+/**
+ * description of the registered service
+ */
+export class ServiceInfo {
+
+    /**
+     * full path to the service
+     * @type {string}
+     */
+    public readonly path: string;
+
+    /**
+     * lifetime of the instances
+     * @type {ServiceLifetime}
+     */
+    public readonly lifetime: ServiceLifetime;
+
+    /**
+     * true if service is shared
+     * @type {boolean}
+     */
+    public readonly shared: boolean;
+
+    /**
+     * true if some instance was created
+     * @type {boolean}
+     */
+    public readonly instantiated: boolean;
+
+    /**
+     * true if factory of the service returns Promise
+     * @type {boolean}
+     */
+    public readonly async: boolean;
+
+    /**
+     * name of the module which registered the service (NULL for the application)
+     * @type {string}
+     */
+    public readonly source: string;
+
+    /**
+     * initialize instance
+     * @param {string} path full path to the service
+     * @param {ServiceContainer} container container of the service
+     */
+    constructor(path: string, container: ServiceContainer) {
+        this.path = path;
+        this.lifetime = container.lifetime;
+        this.shared = container.isShared();
+        this.instantiated = container.instantiated;
+        this.async = container.isAsync;
+        this.source = container.source;
+    }
+}
+
+/**
+ * service resolved on the first access
+ * injected for the dependency paths prefixed by "lazy:" (e.g. to break the dependency cycles)
+ *
+ * it is a wrapper by design, not a transparent proxy (Proxy is not available in ES5),
+ * the service has to be accessed through the instance property
+ */
+export class LazyService<T> {
+
+    /**
+     * function resolving the service
+     * @type {Function}
+     */
+    private _resolve: () => T;
+
+    /**
+     * resolved instance
+     * @type {T}
+     */
+    private _instance: T;
+
+    /**
+     * true if the service was resolved
+     * @type {boolean}
+     */
+    private _resolved: boolean;
+
+    /**
+     * initialize instance
+     * @param {Function} resolve function resolving the service
+     */
+    constructor(resolve: () => T) {
+        this._resolve = resolve;
+        this._instance = null;
+        this._resolved = false;
+    }
+
+    /**
+     * get instance of the service (resolved on the first call)
+     * @return {T} instance of the service
+     */
+    get instance(): T {
+        if (!this._resolved) {
+            this._instance = this._resolve();
+            this._resolved = true;
+        }
+
+        return this._instance;
+    }
+
+    /**
+     * return true if the service was resolved already
+     * @return {boolean} true if resolved
+     */
+    get resolved(): boolean {
+        return this._resolved;
+    }
+}
+
+/**
+ * declare dependencies of the class (class decorator)
+ * the same as the static inject list, resolved services are passed to the constructor in the order of the paths
+ * @param {string[]} ...paths paths of the dependencies
+ * @return {Function} decorator
+ */
+export function inject(...paths: string[]): (target: Function) => void {
+    return (target: Function) => {
+        target["inject"] = paths;
+    };
+}
+
+/**
+ * get dependencies declared by the class
+ * @param {Function} serviceClass class with optional static inject list
+ * @return {string[]} paths of the dependencies
+ */
+export function getDependencies(serviceClass: Function): string[] {
+    return serviceClass["inject"] || [];
+}
+
+/**
+ * create factory calling constructor of the class with the resolved dependencies
+ * @param {Function} serviceClass class of the service
+ * @param {any[]} ...leadingArgs arguments passed before the dependencies (e.g. type of the controller)
+ * @return {Function} factory function
+ */
+export function createClassFactory(serviceClass: Function, ...leadingArgs: any[]): (...args: any[]) => any {
+    return (...args: any[]) => {
+        let constructor: new () => any = Function.prototype.bind.apply(serviceClass, [null].concat(leadingArgs, args));
+        return new constructor();
+    };
+}
+
 /**
  * provides service instance
  */
@@ -19,10 +228,10 @@ class ServiceContainer {
     private _factory: Function;
 
     /**
-     * is service shared?
-     * @type {boolean}
+     * lifetime of the instances
+     * @type {ServiceLifetime}
      */
-    private _shared: boolean;
+    private _lifetime: ServiceLifetime;
 
     /**
      * cached instance of the shared service
@@ -30,26 +239,87 @@ class ServiceContainer {
      */
     private _instance: ServiceBase;
 
+    /**
+     * paths of the services passed to the factory
+     * @type {string[]}
+     */
+    private _dependencies: string[];
+
+    /**
+     * service manager the service is registered in
+     * @type {ServiceManager}
+     */
+    private _owner: ServiceManager;
+
+    /**
+     * decorators applied to the created instances
+     * @type {ServiceDecorator[]}
+     */
+    private _decorators: ServiceDecorator[];
+
+    /**
+     * true if some instance was created
+     * @type {boolean}
+     */
+    private _instantiated: boolean;
+
+    /**
+     * name of the module which registered the service
+     * @type {string}
+     */
+    private _source: string;
+
+    /**
+     * true if factory returns Promise
+     * @type {boolean}
+     */
+    private _async: boolean;
+
+    /**
+     * shared instance being created asynchronously
+     * @type {Promise<ServiceBase>}
+     */
+    private _pending: Promise<ServiceBase>;
+
     /**
      * initialize instance
      * @param {Function} factory factory function
-     * @param {boolean} isShared is service shared? (one shared instance)
+     * @param {ServiceLifetime} lifetime lifetime of the instances
+     * @param {string[]} dependencies paths of the services passed to the factory
+     * @param {ServiceManager} owner service manager the service is registered in
+     * @param {boolean=false} isAsync true if factory returns Promise
      */
-    public constructor(factory: Function, isShared: boolean) {
+    public constructor(factory: Function, lifetime: ServiceLifetime, dependencies: string[], owner: ServiceManager, isAsync: boolean=false) {
         this._instance = null;
-        this._shared = isShared;
+        this._lifetime = lifetime;
         this._factory = factory;
+        this._dependencies = dependencies;
+        this._owner = owner;
+        this._decorators = new Array<ServiceDecorator>();
+        this._instantiated = false;
+        this._source = owner.source;
+        this._async = isAsync;
+        this._pending = null;
     }
 
     /**
      * get instance of the service
+     * shared instance is created with dependencies of the owner,
+     * transient and scoped instances with dependencies of the requesting scope
+     * @param {ServiceManager} requester service manager (scope) requesting the service
      * @return {ServiceBase} instance
      */
-    public getInstance(): ServiceBase {
-        if (this._shared)
+    public getInstance(requester: ServiceManager): ServiceBase {
+        switch (this._lifetime) {
+            case "shared":
             return this._getOrCreateSharedInstance();
-        else
-            return this.createInstance();
+
+            case "scoped":
+            return requester.getScopedInstance(this, () => { return this.createInstance(requester); });
+
+            default:
+            return this.createInstance(requester);
+        }
     }
 
     /**
@@ -57,18 +327,119 @@ class ServiceContainer {
      * @return {boolean} true if shared
      */
     public isShared() : boolean {
-        return  this._shared;
+        return this._lifetime == "shared";
     }
 
     /**
      * create new instance of the service
+     * @param {ServiceManager=null} resolver service manager resolving dependencies (owner by default)
      * @return {ServiceBase} new instance of the service
      */
-    public createInstance(): ServiceBase {
-        let instance: ServiceBase;
-        instance = this._factory();
+    public createInstance(resolver: ServiceManager=null): ServiceBase {
+        let manager: ServiceManager = resolver || this._owner;
+        let args: any[] = this._dependencies.map((path: string) => { return manager.resolveDependency(path); });
 
-        return instance;
+        return this._decorateInstance(this._factory.apply(null, args), manager);
+    }
+
+    /**
+     * get instance of the service asynchronously
+     * concurrent requests for the shared service (or the scoped service in one scope) share one creation
+     * @param {ServiceManager} requester service manager (scope) requesting the service
+     * @return {Promise<ServiceBase>} promise resolved with the instance
+     */
+    public getInstanceAsync(requester: ServiceManager): Promise<ServiceBase> {
+        switch (this._lifetime) {
+            case "shared":
+            return this._getOrCreateSharedInstanceAsync();
+
+            case "scoped":
+            return requester.getScopedInstanceAsync(this, () => { return this.createInstanceAsync(requester); });
+
+            default:
+            return this.createInstanceAsync(requester);
+        }
+    }
+
+    /**
+     * create new instance of the service asynchronously
+     * dependencies are resolved asynchronously too, so they can be asynchronous services
+     * @param {ServiceManager=null} resolver service manager resolving dependencies (owner by default)
+     * @return {Promise<ServiceBase>} promise resolved with new instance of the service
+     */
+    public createInstanceAsync(resolver: ServiceManager=null): Promise<ServiceBase> {
+        let manager: ServiceManager = resolver || this._owner;
+
+        return this._resolveDependenciesAsync(manager)
+            .then((args: any[]) => { return this._factory.apply(null, args); })
+            .then((instance: ServiceBase) => { return this._decorateInstance(instance, manager); });
+    }
+
+    /**
+     * add decorator applied to the instances created from now on
+     * @param {ServiceDecorator} decorator function wrapping the instance
+     */
+    public decorate(decorator: ServiceDecorator) : void {
+        this._decorators.push(decorator);
+    }
+
+    /**
+     * get lifetime of the instances
+     * @return {ServiceLifetime} lifetime
+     */
+    public get lifetime(): ServiceLifetime {
+        return this._lifetime;
+    }
+
+    /**
+     * get paths of the services passed to the factory
+     * @return {string[]} paths of the dependencies
+     */
+    public get dependencies(): string[] {
+        return this._dependencies;
+    }
+
+    /**
+     * return true if factory returns Promise
+     * @return {boolean} true if service is asynchronous
+     */
+    public get isAsync(): boolean {
+        return this._async;
+    }
+
+    /**
+     * return true if instance can be obtained asynchronously only
+     * (asynchronous service which is not shared or whose shared instance is not created yet)
+     * @return {boolean} true if asynchronous access is required
+     */
+    public get requiresAsync(): boolean {
+        return this._async && !(this._lifetime == "shared" && this._instance !== null);
+    }
+
+    /**
+     * return true if some instance was created
+     * @return {boolean} true if instantiated
+     */
+    public get instantiated(): boolean {
+        return this._instantiated;
+    }
+
+    /**
+     * get name of the module which registered the service
+     * @return {string} name of the module (NULL for the application)
+     */
+    public get source(): string {
+        return this._source;
+    }
+
+    /**
+     * dispose the shared instance (if it was created)
+     */
+    public dispose() : void {
+        if (this._instance !== null)
+            disposeInstance(this._instance);
+
+        this._instance = null;
     }
 
     /**
@@ -82,6 +453,55 @@ class ServiceContainer {
 
         return this._instance;
     }
+
+    /**
+     * get shared instance asynchronously
+     * pending creation is reused by the concurrent requests
+     * @return {Promise<ServiceBase>} promise resolved with the instance
+     */
+    private _getOrCreateSharedInstanceAsync() : Promise<ServiceBase> {
+        if (this._instance !== null)
+            return Promise.resolve(this._instance);
+
+        if (this._pending === null) {
+            this._pending = this.createInstanceAsync().then((instance: ServiceBase) => {
+                // instance could be created synchronously in the meantime
+                if (this._instance === null)
+                    this._instance = instance;
+
+                this._pending = null;
+                return this._instance;
+            }, (err: any) => {
+                this._pending = null;
+                throw err;
+            });
+        }
+
+        return this._pending;
+    }
+
+    /**
+     * resolve dependencies asynchronously
+     * @param {ServiceManager} manager service manager resolving dependencies
+     * @return {Promise<any[]>} promise resolved with arguments of the factory
+     */
+    private _resolveDependenciesAsync(manager: ServiceManager) : Promise<any[]> {
+        return Promise.all(this._dependencies.map((path: string) => { return manager.resolveDependencyAsync(path); }));
+    }
+
+    /**
+     * apply decorators to the created instance
+     * @param {ServiceBase} instance created instance
+     * @param {ServiceManager} manager service manager which created the instance
+     * @return {ServiceBase} decorated instance
+     */
+    private _decorateInstance(instance: ServiceBase, manager: ServiceManager) : ServiceBase {
+        for (let decorator of this._decorators)
+            instance = decorator(instance, manager);
+
+        this._instantiated = true;
+        return instance;
+    }
 }
 
 /**
@@ -89,11 +509,26 @@ class ServiceContainer {
  */
 export class ServiceNamespace {
 
+    /**
+     * property of the registered function holding its service container
+     * @type {string}
+     */
+    static CONTAINER_PROPERTY = "owlServiceContainer";
+
     [index: string]: Object;
 
+    /**
+     * get sub namespace, namespace is created if it does not exist
+     * @param {string} nsName name of the namespace
+     * @return {ServiceNamespace} sub namespace
+     * @throws ServiceCollisionError there is service of the name
+     */
     public getNamespace(nsName: string) : ServiceNamespace {
         let result: ServiceNamespace = null;
 
+        if (this._isService(nsName))
+            throw new ServiceCollisionError("Namespace '" + nsName + "' collides with service");
+
         try {
             result = this._getNamespace(nsName);
         }
@@ -109,11 +544,77 @@ export class ServiceNamespace {
      * register service container to the namespace
      * @param {string} name name of the service container
      * @param {ServiceContainer} container instance of the service container
+     * @param {boolean=false} replace if true, existing service of the name is replaced
+     * @throws ServiceCollisionError there is namespace of the name or the service is already registered
      */
-    public registerServiceContainer(name: string, container: ServiceContainer) : void {
-        this[name] = function () {
-            return container.getInstance();
-        }
+    public registerServiceContainer(name: string, container: ServiceContainer, replace: boolean=false) : void {
+        let entry: Function;
+
+        if (this.findNamespace(name))
+            throw new ServiceCollisionError("Service '" + name + "' collides with namespace");
+
+        if (this._isService(name) && !replace)
+            throw new ServiceCollisionError("Service '" + name + "' is already registered");
+
+        entry = function (requester: ServiceManager) {
+            return container.getInstance(requester);
+        };
+        entry[ServiceNamespace.CONTAINER_PROPERTY] = container;
+
+        this[name] = entry;
+    }
+
+    /**
+     * get existing sub namespace
+     * @param {string} nsName name of the namespace
+     * @return {ServiceNamespace} sub namespace (NULL if it does not exist)
+     */
+    public findNamespace(nsName: string) : ServiceNamespace {
+        let entry: Object = this._getEntry(nsName);
+        return entry instanceof ServiceNamespace ? entry : null;
+    }
+
+    /**
+     * get container of the service registered in the namespace
+     * @param {string} name name of the service
+     * @return {ServiceContainer} container of the service (NULL if it does not exist)
+     */
+    public getServiceContainer(name: string) : ServiceContainer {
+        return this._isService(name) ? this[name][ServiceNamespace.CONTAINER_PROPERTY] || null : null;
+    }
+
+    /**
+     * get names of the services registered directly in the namespace
+     * @return {string[]} names of the services
+     */
+    public getServiceNames() : string[] {
+        return Object.keys(this).filter((name: string) => { return this._isService(name); });
+    }
+
+    /**
+     * get names of the direct sub namespaces
+     * @return {string[]} names of the namespaces
+     */
+    public getNamespaceNames() : string[] {
+        return Object.keys(this).filter((name: string) => { return this.findNamespace(name) !== null; });
+    }
+
+    /**
+     * return true if there is service of the name
+     * @param {string} name name of the service
+     * @return {boolean} true if service exists
+     */
+    private _isService(name: string) : boolean {
+        return typeof this._getEntry(name) == "function";
+    }
+
+    /**
+     * get own entry of the namespace (inherited properties are ignored)
+     * @param {string} name name of the entry
+     * @return {Object} namespace, service function or undefined
+     */
+    private _getEntry(name: string) : Object {
+        return Object.prototype.hasOwnProperty.call(this, name) ? this[name] : undefined;
     }
 
     /**
@@ -124,10 +625,10 @@ export class ServiceNamespace {
      * @throws LookupError namespace is unknown
      */
     private _getNamespace(nsName: string) : ServiceNamespace {
-        let ns: ServiceNamespace = <ServiceNamespace>this[nsName];
+        let ns: ServiceNamespace = this.findNamespace(nsName);
 
         // ns has to be found
-        if (ns === undefined)
+        if (ns === null)
             throw new LookupError("Service named '" + nsName + "' not found.");
 
         return ns;
@@ -149,27 +650,244 @@ export class ServiceNamespace {
  */
 export class ServiceManager {
 
+    /**
+     * prefix of the dependency paths injected as LazyService
+     * @type {String}
+     */
+    static LAZY_PREFIX = "lazy:";
+
     private _rootNamespace: ServiceNamespace;
 
-    constructor(rootNamespace: ServiceNamespace=null) {
+    /**
+     * paths of the services being created (for the circular dependency detection)
+     * shared by the whole scope hierarchy
+     * @type {string[]}
+     */
+    private _resolutionPath: string[];
+
+    /**
+     * parent scope (NULL for the top level manager)
+     * @type {ServiceManager}
+     */
+    private _parent: ServiceManager;
+
+    /**
+     * child scopes
+     * @type {ServiceManager[]}
+     */
+    private _scopes: ServiceManager[];
+
+    /**
+     * containers registered in this manager
+     * @type {ServiceContainer[]}
+     */
+    private _containers: ServiceContainer[];
+
+    /**
+     * instances of the scoped services created for this scope
+     * @type {ScopedInstance[]}
+     */
+    private _scopedInstances: ScopedInstance[];
+
+    /**
+     * scoped instances being created asynchronously
+     * @type {PendingScopedInstance[]}
+     */
+    private _pendingScopedInstances: PendingScopedInstance[];
+
+    /**
+     * true if the scope ended
+     * @type {boolean}
+     */
+    private _disposed: boolean;
+
+    /**
+     * name of the module registering the services (NULL for the application)
+     * @type {string}
+     */
+    private _source: string;
+
+    /**
+     * initialize instance
+     * @param {ServiceNamespace=null} rootNamespace root namespace (new one by default)
+     * @param {ServiceManager=null} parent parent scope, missing services are searched there
+     */
+    constructor(rootNamespace: ServiceNamespace=null, parent: ServiceManager=null) {
         if (rootNamespace == null)
             rootNamespace = new ServiceNamespace();
 
         this._rootNamespace = rootNamespace;
+        this._parent = parent;
+        this._resolutionPath = parent ? parent._resolutionPath : new Array<string>();
+        this._scopes = new Array<ServiceManager>();
+        this._containers = new Array<ServiceContainer>();
+        this._scopedInstances = new Array<ScopedInstance>();
+        this._pendingScopedInstances = new Array<PendingScopedInstance>();
+        this._disposed = false;
+        this._source = parent ? parent._source : null;
+
+        if (parent)
+            parent._scopes.push(this);
+    }
+
+    /**
+     * create child scope
+     * services missing in the scope are taken from this manager,
+     * scoped services get one instance per scope
+     * @param {ServiceNamespace=null} rootNamespace root namespace of the scope (new one by default)
+     * @return {ServiceManager} the scope
+     */
+    public createScope(rootNamespace: ServiceNamespace=null) : ServiceManager {
+        this._assertNotDisposed();
+        return new ServiceManager(rootNamespace, this);
+    }
+
+    /**
+     * end the scope
+     * child scopes are disposed first, then scoped and shared instances of this scope
+     * (in reverse order of creation) whose dispose method is called
+     */
+    public dispose() : void {
+        if (this._disposed)
+            return;
+
+        for (let scope of this._scopes.slice().reverse())
+            scope.dispose();
+
+        for (let record of this._scopedInstances.slice().reverse())
+            disposeInstance(record.instance);
+
+        for (let container of this._containers.slice().reverse())
+            container.dispose();
+
+        this._scopedInstances = new Array<ScopedInstance>();
+        this._disposed = true;
+
+        if (this._parent)
+            this._parent._scopes.splice(this._parent._scopes.indexOf(this), 1);
     }
 
     /**
      * register new service into manager
      * @param {string} path path to service
-     * @param {Function} factory factory function
+     * @param {Function} factory factory function, resolved dependencies are passed as arguments
      * @param {boolean=true} isShared true if service is shared
+     * @param {string[]=[]} dependencies paths of the services passed to the factory
+     * (prefix "lazy:" passes LazyService resolved on the first access)
      */
-    public registerService(path: string, factory: Function, isShared:boolean=true) : void {
-        let pathInfo: ServicePathInfo = this._splitPath(path);
-        let ns: ServiceNamespace = this._getNamespaceByPathArray(pathInfo.pathParts);
+    public registerService(path: string, factory: Function, isShared:boolean=true, dependencies: string[]=[]) : void {
+        this._registerContainer(path, factory, isShared ? "shared" : "transient", dependencies, false);
+    }
 
-        let container: ServiceContainer = new ServiceContainer(factory, isShared);
-        ns.registerServiceContainer(pathInfo.serviceName, container);
+    /**
+     * register service whose factory returns Promise (e.g. lazy-loaded code)
+     * the service is obtained by getServiceAsync, shared instance is available synchronously once it is created
+     * @param {string} path path to service
+     * @param {Function} factory factory function returning Promise, resolved dependencies are passed as arguments
+     * @param {boolean=true} isShared true if service is shared
+     * @param {string[]=[]} dependencies paths of the services passed to the factory
+     */
+    public registerAsyncService(path: string, factory: (...args: any[]) => Promise<any>, isShared: boolean=true, dependencies: string[]=[]) : void {
+        this._registerContainer(path, factory, isShared ? "shared" : "transient", dependencies, false, true);
+    }
+
+    /**
+     * replace existing service (e.g. built-in renderer of the component)
+     * @param {string} path path to service
+     * @param {Function} factory factory function, resolved dependencies are passed as arguments
+     * @param {boolean=true} isShared true if service is shared
+     * @param {string[]=[]} dependencies paths of the services passed to the factory
+     * @throws LookupError service does not exist
+     */
+    public overrideService(path: string, factory: Function, isShared:boolean=true, dependencies: string[]=[]) : void {
+        if (!this.hasService(path))
+            throw new LookupError("Service '" + path + "' not found");
+
+        this._registerContainer(path, factory, isShared ? "shared" : "transient", dependencies, true);
+    }
+
+    /**
+     * wrap instances of existing service
+     * decorator gets the created instance and returns the instance to use (e.g. proxy of the original one)
+     * @param {string} path path to service
+     * @param {ServiceDecorator} decorator function wrapping the instance
+     * @throws LookupError service does not exist
+     * @throws Error instance of shared or scoped service was already created
+     */
+    public decorateService(path: string, decorator: ServiceDecorator) : void {
+        let container: ServiceContainer = this._findContainer(path);
+
+        if (!container)
+            throw new LookupError("Service '" + path + "' not found");
+
+        if (container.instantiated && container.lifetime != "transient")
+            throw new Error("Service '" + path + "' is already instantiated");
+
+        container.decorate(decorator);
+    }
+
+    /**
+     * return true if service exists in the manager or in some parent
+     * @param {string} path path to service
+     * @return {boolean} true if service exists
+     */
+    public hasService(path: string) : boolean {
+        return this._findContainer(path) !== null;
+    }
+
+    /**
+     * get description of the services available in the manager (including services of the parents)
+     * @param {string=""} prefix path of the namespace to list (e.g. "owl.component"), all services if empty
+     * @return {ServiceInfo[]} descriptions of the services sorted by path
+     */
+    public listServices(prefix: string="") : ServiceInfo[] {
+        let result: ServiceInfo[] = new Array<ServiceInfo>();
+        let paths: string[] = new Array<string>();
+        let manager: ServiceManager = this;
+
+        while (manager) {
+            manager._collectServices(manager._rootNamespace, "", (path: string, container: ServiceContainer) => {
+                if (paths.indexOf(path) != -1 || !isPathInNamespace(path, prefix))
+                    return;
+
+                paths.push(path);
+                result.push(new ServiceInfo(path, container));
+            });
+
+            manager = manager._parent;
+        }
+
+        return result.sort((a: ServiceInfo, b: ServiceInfo) => { return a.path < b.path ? -1 : (a.path > b.path ? 1 : 0); });
+    }
+
+    /**
+     * register service with one instance per scope
+     * @param {string} path path to service
+     * @param {Function} factory factory function, resolved dependencies are passed as arguments
+     * @param {string[]=[]} dependencies paths of the services passed to the factory
+     */
+    public registerScopedService(path: string, factory: Function, dependencies: string[]=[]) : void {
+        this._registerContainer(path, factory, "scoped", dependencies, false);
+    }
+
+    /**
+     * register class as service
+     * dependencies declared by the static inject list (or inject decorator) are passed to the constructor
+     * @param {string} path path to service
+     * @param {Function} serviceClass class of the service
+     * @param {boolean=true} isShared true if service is shared
+     */
+    public registerClass(path: string, serviceClass: Function, isShared: boolean=true) : void {
+        this.registerService(path, createClassFactory(serviceClass), isShared, getDependencies(serviceClass));
+    }
+
+    /**
+     * register class as service with one instance per scope
+     * @param {string} path path to service
+     * @param {Function} serviceClass class of the service
+     */
+    public registerScopedClass(path: string, serviceClass: Function) : void {
+        this.registerScopedService(path, createClassFactory(serviceClass), getDependencies(serviceClass));
     }
 
     /**
@@ -188,19 +906,308 @@ export class ServiceManager {
      * @return {ServiceBase} service instance
      */
     public getServiceByPath(path: string) : ServiceBase {
+        return this._getService(path, this);
+    }
+
+    /**
+     * get service asynchronously
+     * works for both synchronous and asynchronous services, dependencies are resolved asynchronously
+     * @param {string} path path to service
+     * @return {Promise<ServiceBase>} promise resolved with the service instance
+     * (rejected with LookupError or CircularDependencyError)
+     */
+    public getServiceAsync(path: string) : Promise<ServiceBase> {
+        try {
+            this._assertNotDisposed();
+
+            let container: ServiceContainer = this._findContainer(path);
+
+            if (!container)
+                throw new LookupError("Service '" + this._splitPath(path).serviceName + "' not found");
+
+            let cycleStart: number = this._resolutionPath.indexOf(path);
+
+            if (cycleStart != -1)
+                throw new CircularDependencyError(this._resolutionPath.slice(cycleStart).concat([path]));
+
+            // dependencies are requested synchronously, so the cycle is detected before waiting
+            this._resolutionPath.push(path);
+
+            try {
+                return container.getInstanceAsync(this);
+            } finally {
+                this._resolutionPath.pop();
+            }
+        } catch (err) {
+            return Promise.reject(err);
+        }
+    }
+
+    /**
+     * return true if the service has to be obtained by getServiceAsync
+     * (the service or some of its dependencies is asynchronous and not created yet)
+     * @param {string} path path to service
+     * @return {boolean} true if asynchronous access is required
+     */
+    public isServiceAsync(path: string) : boolean {
+        return this._requiresAsync(path, new Array<string>());
+    }
+
+    /**
+     * get instance of the scoped service for this scope
+     * @param {ServiceContainer} container container of the service
+     * @param {Function} create function creating new instance
+     * @return {ServiceBase} instance of the service
+     */
+    public getScopedInstance(container: ServiceContainer, create: () => ServiceBase) : ServiceBase {
+        for (let record of this._scopedInstances) {
+            if (record.container === container)
+                return record.instance;
+        }
+
+        let instance: ServiceBase = create();
+        this._scopedInstances.push({ container: container, instance: instance });
+
+        return instance;
+    }
+
+    /**
+     * get instance of the scoped service for this scope asynchronously
+     * pending creation is reused by the concurrent requests
+     * @param {ServiceContainer} container container of the service
+     * @param {Function} create function returning Promise resolved with new instance
+     * @return {Promise<ServiceBase>} promise resolved with the instance of the service
+     */
+    public getScopedInstanceAsync(container: ServiceContainer, create: () => Promise<ServiceBase>) : Promise<ServiceBase> {
+        for (let record of this._scopedInstances) {
+            if (record.container === container)
+                return Promise.resolve(record.instance);
+        }
+
+        for (let pending of this._pendingScopedInstances) {
+            if (pending.container === container)
+                return pending.promise;
+        }
+
+        let record: PendingScopedInstance = { container: container, promise: null };
+        let remove: Function = () => {
+            this._pendingScopedInstances.splice(this._pendingScopedInstances.indexOf(record), 1);
+        };
+
+        record.promise = create().then((instance: ServiceBase) => {
+            remove();
+
+            // scope ended while the instance was created
+            if (this._disposed) {
+                disposeInstance(instance);
+                this._assertNotDisposed();
+            }
+
+            return this.getScopedInstance(container, () => { return instance; });
+        }, (err: any) => {
+            remove();
+            throw err;
+        });
+        this._pendingScopedInstances.push(record);
+
+        return record.promise;
+    }
+
+    /**
+     * resolve dependency of the created service
+     * @param {string} path path to the dependency (optionally prefixed by "lazy:")
+     * @return {any} the service or its LazyService
+     */
+    public resolveDependency(path: string) : any {
+        let prefix: string = ServiceManager.LAZY_PREFIX;
+
+        if (path.substr(0, prefix.length) == prefix)
+            return new LazyService<ServiceBase>(() => { return this.getServiceByPath(path.substr(prefix.length)); });
+
+        return this.getServiceByPath(path);
+    }
+
+    /**
+     * resolve dependency of the created service asynchronously
+     * @param {string} path path to the dependency (optionally prefixed by "lazy:")
+     * @return {Promise<any>} promise resolved with the service or its LazyService
+     */
+    public resolveDependencyAsync(path: string) : Promise<any> {
+        let prefix: string = ServiceManager.LAZY_PREFIX;
+
+        if (path.substr(0, prefix.length) == prefix)
+            return Promise.resolve(this.resolveDependency(path));
+
+        return this.getServiceAsync(path);
+    }
+
+    public get rootNamespace(): ServiceNamespace {
+        return this._rootNamespace;
+    }
+
+    /**
+     * get parent scope
+     * @return {ServiceManager} parent scope (NULL for the top level manager)
+     */
+    public get parent(): ServiceManager {
+        return this._parent;
+    }
+
+    /**
+     * return true if the scope ended
+     * @return {boolean} true if disposed
+     */
+    public get disposed(): boolean {
+        return this._disposed;
+    }
+
+    /**
+     * get name of the module registering the services
+     * @return {string} name of the module (NULL for the application)
+     */
+    public get source(): string {
+        return this._source;
+    }
+
+    /**
+     * set name of the module registering the services
+     * @param {string} val name of the module (NULL for the application)
+     */
+    public set source(val: string) {
+        this._source = val;
+    }
+
+    /**
+     * get service registered in this manager or in some parent
+     * @param {string} path path to service
+     * @param {ServiceManager} requester scope requesting the service
+     * @return {ServiceBase} service instance
+     * @throws LookupError service does not exist
+     * @throws CircularDependencyError service depends on itself
+     */
+    private _getService(path: string, requester: ServiceManager) : ServiceBase {
+        this._assertNotDisposed();
+
         let pathInfo: ServicePathInfo = this._splitPath(path);
-        let ns: ServiceNamespace = this._getNamespaceByPathArray(pathInfo.pathParts);
-        let factory: Function = <Function>ns[pathInfo.serviceName];
+        let ns: ServiceNamespace = this._findNamespaceByPathArray(pathInfo.pathParts);
+        let factory: Function = ns ? <Function>ns[pathInfo.serviceName] : null;
+
+        if (!factory && this._parent)
+            return this._parent._getService(path, requester);
 
         if (!factory)
             throw new LookupError("Service '" + pathInfo.serviceName + "' not found");
 
-        let result: ServiceBase = <ServiceBase>(<Function>ns[pathInfo.serviceName])();
-        return result;
+        let container: ServiceContainer = ns.getServiceContainer(pathInfo.serviceName);
+
+        if (container && container.requiresAsync)
+            throw new Error("Service '" + path + "' is asynchronous, use getServiceAsync");
+
+        let cycleStart: number = this._resolutionPath.indexOf(path);
+
+        if (cycleStart != -1)
+            throw new CircularDependencyError(this._resolutionPath.slice(cycleStart).concat([path]));
+
+        this._resolutionPath.push(path);
+
+        try {
+            return <ServiceBase>factory(requester);
+        } finally {
+            this._resolutionPath.pop();
+        }
     }
 
-    public get rootNamespace(): ServiceNamespace {
-        return this._rootNamespace;
+    /**
+     * create container of the service and register it into the namespace
+     * @param {string} path path to service
+     * @param {Function} factory factory function
+     * @param {ServiceLifetime} lifetime lifetime of the instances
+     * @param {string[]} dependencies paths of the services passed to the factory
+     * @param {boolean} replace if true, existing service is replaced
+     * @param {boolean=false} isAsync true if factory returns Promise
+     * @throws ServiceCollisionError service collides with namespace or existing service
+     */
+    private _registerContainer(path: string, factory: Function, lifetime: ServiceLifetime, dependencies: string[], replace: boolean, isAsync: boolean=false) : void {
+        this._assertNotDisposed();
+
+        let pathInfo: ServicePathInfo = this._splitPath(path);
+        let ns: ServiceNamespace = this._getNamespaceByPathArray(pathInfo.pathParts);
+
+        let container: ServiceContainer = new ServiceContainer(factory, lifetime, dependencies, this, isAsync);
+        ns.registerServiceContainer(pathInfo.serviceName, container, replace);
+        this._containers.push(container);
+    }
+
+    /**
+     * return true if the service or some of its dependencies requires asynchronous access
+     * @param {string} path path to service
+     * @param {string[]} visited paths of the already tested services
+     * @return {boolean} true if asynchronous access is required
+     */
+    private _requiresAsync(path: string, visited: string[]) : boolean {
+        let container: ServiceContainer = this._findContainer(path);
+        let prefix: string = ServiceManager.LAZY_PREFIX;
+
+        if (!container || visited.indexOf(path) != -1)
+            return false;
+
+        if (container.requiresAsync)
+            return true;
+
+        // dependencies of the created shared instance are not needed anymore
+        if (container.isShared() && container.instantiated)
+            return false;
+
+        visited.push(path);
+
+        return container.dependencies.some((dependency: string) => {
+            return dependency.substr(0, prefix.length) != prefix && this._requiresAsync(dependency, visited);
+        });
+    }
+
+    /**
+     * find container of the service in the manager or in some parent
+     * missing namespaces are not created
+     * @param {string} path path to service
+     * @return {ServiceContainer} container of the service (NULL if it does not exist)
+     */
+    private _findContainer(path: string) : ServiceContainer {
+        let pathInfo: ServicePathInfo = this._splitPath(path);
+        let ns: ServiceNamespace = this._findNamespaceByPathArray(pathInfo.pathParts);
+        let container: ServiceContainer = ns ? ns.getServiceContainer(pathInfo.serviceName) : null;
+
+        if (!container && this._parent)
+            return this._parent._findContainer(path);
+
+        return container;
+    }
+
+    /**
+     * pass containers of all services in the namespace and its sub namespaces to the callback
+     * @param {ServiceNamespace} ns the namespace
+     * @param {string} nsPath path of the namespace
+     * @param {Function} callback function receiving path and container of the service
+     */
+    private _collectServices(ns: ServiceNamespace, nsPath: string, callback: (path: string, container: ServiceContainer) => void) : void {
+        let prefix: string = nsPath ? nsPath + "." : "";
+
+        for (let name of ns.getServiceNames()) {
+            let container: ServiceContainer = ns.getServiceContainer(name);
+
+            if (container)
+                callback(prefix + name, container);
+        }
+
+        for (let name of ns.getNamespaceNames())
+            this._collectServices(ns.findNamespace(name), prefix + name, callback);
+    }
+
+    /**
+     * @throws Error the scope was disposed
+     */
+    private _assertNotDisposed() : void {
+        if (this._disposed)
+            throw new Error("Service scope is disposed");
     }
 
     /**
@@ -217,6 +1224,24 @@ export class ServiceManager {
         return current;
     }
 
+    /**
+     * get existing namespace identified by array path, missing namespaces are not created
+     * @param {string[]} pathArray array path
+     * @return {ServiceNamespace} namespace (NULL if it does not exist or the path leads through a service)
+     */
+    private _findNamespaceByPathArray(pathArray: string[]) : ServiceNamespace {
+        let current: ServiceNamespace = this._rootNamespace;
+
+        for (let nsName of pathArray) {
+            current = current.findNamespace(nsName);
+
+            if (!current)
+                break;
+        }
+
+        return current;
+    }
+
     /**
      * split path to namespace path and service name
      * @param {string} path original path
@@ -234,6 +1259,42 @@ export class ServiceManager {
     }
 }
 
+/**
+ * instance of the scoped service
+ */
+interface ScopedInstance {
+    container: ServiceContainer;
+    instance: ServiceBase;
+}
+
+/**
+ * scoped instance being created asynchronously
+ */
+interface PendingScopedInstance {
+    container: ServiceContainer;
+    promise: Promise<ServiceBase>;
+}
+
+
+/**
+ * return true if the path is the namespace path or it is inside the namespace
+ * @param {string} path tested path
+ * @param {string} nsPath path of the namespace (empty string for the root)
+ * @return {boolean} true if path belongs to the namespace
+ */
+function isPathInNamespace(path: string, nsPath: string): boolean {
+    return !nsPath || path == nsPath || path.substr(0, nsPath.length + 1) == nsPath + ".";
+}
+
+/**
+ * call dispose method of the instance (if it has one)
+ * @param {ServiceBase} instance instance of the service
+ */
+function disposeInstance(instance: ServiceBase): void {
+    if (instance && typeof (<IDisposable>instance).dispose == "function")
+        (<IDisposable>instance).dispose();
+}
+
 /**
  * hold information about path to service
  */
@@ -0,0 +1,535 @@
+import { ControllerBase, ControllerManager } from "./component"
+import { OwlEvent, DomEvent } from "./events"
+import { OwlError } from "./errors"
+
+
+/**
+ * error thrown when hoot: attribute can not be parsed
+ */
+export class HootSyntaxError extends OwlError {
+
+    /**
+     * name of the invalid attribute
+     * @type {string}
+     */
+    public readonly attribute: string;
+
+    /**
+     * description of the problem
+     * @type {string}
+     */
+    public readonly reason: string;
+
+    /**
+     * initialize instance
+     * @param {string} attribute name of the invalid attribute
+     * @param {string} reason description of the problem
+     */
+    constructor(attribute: string, reason: string) {
+        super("Invalid attribute '" + attribute + "': " + reason);
+
+        this.name = "HootSyntaxError";
+        this.attribute = attribute;
+        this.reason = reason;
+    }
+}
+
+
+/**
+ * one method call of the handler expression
+ * target is id of the controller (NULL for the controller owning the attribute)
+ */
+export interface HandlerCall {
+    target: string;
+    method: string;
+    args: HandlerArgument[];
+}
+
+
+/**
+ * argument of the method call, value is used if it is not the $event reference
+ */
+export interface HandlerArgument {
+    isEvent: boolean;
+    value: any;
+}
+
+
+/**
+ * controller owning the hoot: attribute (implemented by ControllerBase)
+ */
+export interface IStaticEventOwner {
+
+    /**
+     * id of the controller (NULL if it is not set)
+     * @type {string}
+     */
+    readonly id: string;
+
+    /**
+     * type of the controller
+     * @type {string}
+     */
+    readonly type: string;
+
+    /**
+     * manager used to find the target controllers by id
+     * @type {ControllerManager}
+     */
+    readonly controllerManager: ControllerManager;
+
+    /**
+     * start to forward DOM event of the type from the view
+     * @param {string} eventType DOM event type
+     */
+    listenForDomEvent(eventType: string) : void;
+
+    /**
+     * add listener of the bound event
+     * @param {string} eventType event type
+     * @param {Function} callback event handler
+     * @return {Function} listener remover
+     */
+    addEventListener(eventType: string, callback: Function) : Function;
+
+    /**
+     * process error of the handler called out of the event dispatching according to the error policy
+     * @param {any} err the thrown error
+     * @param {OwlEvent} evt event whose handler failed
+     */
+    handleError(err: any, evt: OwlEvent) : void;
+}
+
+
+/**
+ * event binding declared by hoot:<event>[.<modifier>...]="<handler>" attribute
+ *
+ * the handler is list of method calls separated by semicolon, e.g. "#sidebar.toggle(); select($event, 'all')"
+ * - "#id." calls method of the controller registered with the id, "this." (or nothing) calls own method
+ * - arguments are string, number, boolean and null literals and $event (passed if there are no parentheses)
+ *
+ * supported modifiers:
+ * - once - handler is called only once
+ * - prevent, stop - default action is prevented / propagation is stopped
+ * - debounce[.<ms>] - handler is called when no event came for the time (300 ms by default)
+ * - enter, esc, space, tab, up, down, left, right, delete, backspace - keyboard event of the key
+ * - ctrl, alt, shift, meta - system key has to be pressed
+ */
+export class StaticEventBinding {
+
+    static ATTRIBUTE_PREFIX = "hoot:";
+
+    static DEFAULT_DEBOUNCE = 300;
+
+    /**
+     * DOM events the controller starts to listen for when bound
+     * @type {string[]}
+     */
+    static KEYBOARD_EVENTS = ["keydown", "keyup", "keypress"];
+
+    /**
+     * values of the KeyboardEvent.key for the key modifiers
+     * @type {KeyLookup}
+     */
+    static KEYS: KeyLookup = {
+        enter: ["Enter"],
+        esc: ["Escape", "Esc"],
+        escape: ["Escape", "Esc"],
+        space: [" ", "Spacebar"],
+        tab: ["Tab"],
+        up: ["ArrowUp", "Up"],
+        down: ["ArrowDown", "Down"],
+        left: ["ArrowLeft", "Left"],
+        right: ["ArrowRight", "Right"],
+        delete: ["Delete", "Del"],
+        backspace: ["Backspace"]
+    };
+
+    /**
+     * system key modifiers and names of the KeyboardEvent (MouseEvent) flags
+     * @type {Object}
+     */
+    static SYSTEM_KEYS = { ctrl: "ctrlKey", alt: "altKey", shift: "shiftKey", meta: "metaKey" };
+
+    /**
+     * name of the attribute
+     * @type {string}
+     */
+    public readonly attribute: string;
+
+    /**
+     * type of the handled event
+     * @type {string}
+     */
+    public readonly eventType: string;
+
+    /**
+     * parsed method calls
+     * @type {HandlerCall[]}
+     */
+    public readonly calls: HandlerCall[];
+
+    private _once: boolean;
+
+    private _prevent: boolean;
+
+    private _stop: boolean;
+
+    /**
+     * debounce time in ms (NULL if handler is not debounced)
+     * @type {number}
+     */
+    private _debounce: number;
+
+    /**
+     * required key modifiers
+     * @type {string[]}
+     */
+    private _keys: string[];
+
+    /**
+     * required system keys
+     * @type {string[]}
+     */
+    private _systemKeys: string[];
+
+    /**
+     * parse the attribute
+     * @param {string} attribute name of the attribute (e.g. "hoot:click.once")
+     * @param {string} handler value of the attribute
+     * @throws HootSyntaxError attribute can not be parsed
+     */
+    constructor(attribute: string, handler: string) {
+        this.attribute = attribute;
+        this._once = this._prevent = this._stop = false;
+        this._debounce = null;
+        this._keys = new Array<string>();
+        this._systemKeys = new Array<string>();
+
+        let parts: string[] = attribute.substr(StaticEventBinding.ATTRIBUTE_PREFIX.length).split(".");
+        this.eventType = parts.shift();
+
+        if (!this.eventType)
+            throw new HootSyntaxError(attribute, "event type is missing");
+
+        this._parseModifiers(parts);
+        this.calls = new HandlerParser(attribute, handler).parse();
+    }
+
+    /**
+     * return true if the attribute declares static event
+     * @param {string} attribute name of the attribute
+     * @return {boolean} true if attribute is hoot: attribute
+     */
+    public static isStaticEvent(attribute: string) : boolean {
+        return attribute.substr(0, StaticEventBinding.ATTRIBUTE_PREFIX.length) == StaticEventBinding.ATTRIBUTE_PREFIX;
+    }
+
+    /**
+     * listen for the event on the controller
+     * the once modifier removes the listener after the first event matching the key modifiers
+     * @param {IStaticEventOwner} controller controller owning the attribute
+     * @return {Function} remover of the listener, it cancels also the pending debounced call
+     */
+    public bind(controller: IStaticEventOwner) : Function {
+        let invoke: Function = (evt: OwlEvent) => { this._invoke(controller, evt); };
+        let timeout: number = null;
+        let listenerRemover: Function = null;
+        let remover: Function = () => {
+            clearTimeout(timeout);
+            timeout = null;
+            listenerRemover();
+        };
+
+        if (StaticEventBinding.KEYBOARD_EVENTS.indexOf(this.eventType) != -1)
+            controller.listenForDomEvent(this.eventType);
+
+        listenerRemover = controller.addEventListener(this.eventType, (evt: OwlEvent) => {
+            if (!this._matchesKeys(evt))
+                return;
+
+            if (this._once)
+                listenerRemover();
+
+            if (this._prevent)
+                evt.preventDefault();
+
+            if (this._stop)
+                evt.stopPropagation();
+
+            if (this._debounce === null) {
+                invoke(evt);
+                return;
+            }
+
+            clearTimeout(timeout);
+            timeout = setTimeout(() => {
+                timeout = null;
+
+                // the dispatching is over, so the error is passed to the owner explicitly
+                try {
+                    invoke(evt);
+                } catch (err) {
+                    controller.handleError(err, evt);
+                }
+            }, this._debounce);
+        });
+
+        return remover;
+    }
+
+    /**
+     * parse modifiers of the attribute
+     * @param {string[]} modifiers modifiers following the event type
+     * @throws HootSyntaxError unknown modifier
+     */
+    private _parseModifiers(modifiers: string[]) : void {
+        for (let i = 0; i < modifiers.length; ++i) {
+            let modifier: string = modifiers[i];
+
+            if (modifier == "once")
+                this._once = true;
+            else if (modifier == "prevent")
+                this._prevent = true;
+            else if (modifier == "stop")
+                this._stop = true;
+            else if (modifier == "debounce") {
+                if (/^\d+$/.test(modifiers[i + 1] || ""))
+                    this._debounce = Number(modifiers[++i]);
+                else
+                    this._debounce = StaticEventBinding.DEFAULT_DEBOUNCE;
+            }
+            else if (StaticEventBinding.KEYS[modifier])
+                this._keys.push(modifier);
+            else if (StaticEventBinding.SYSTEM_KEYS[modifier])
+                this._systemKeys.push(modifier);
+            else
+                throw new HootSyntaxError(this.attribute, "unknown modifier '" + modifier + "'");
+        }
+    }
+
+    /**
+     * return true if event matches the key modifiers
+     * @param {OwlEvent} evt handled event
+     * @return {boolean} true if the handler should be called
+     */
+    private _matchesKeys(evt: OwlEvent) : boolean {
+        if (!this._keys.length && !this._systemKeys.length)
+            return true;
+
+        if (!(evt instanceof DomEvent))
+            return false;
+
+        let original: Event = evt.originalEvent;
+
+        for (let systemKey of this._systemKeys) {
+            if (!original[StaticEventBinding.SYSTEM_KEYS[systemKey]])
+                return false;
+        }
+
+        if (!this._keys.length)
+            return true;
+
+        return this._keys.some((key: string) => {
+            return StaticEventBinding.KEYS[key].indexOf((<KeyboardEvent>original).key) != -1;
+        });
+    }
+
+    /**
+     * call the methods of the handler
+     * @param {IStaticEventOwner} controller controller owning the attribute
+     * @param {OwlEvent} evt handled event
+     * @throws Error target controller or method does not exist
+     */
+    private _invoke(controller: IStaticEventOwner, evt: OwlEvent) : void {
+        for (let call of this.calls) {
+            let target: Object = call.target ? this._resolveTarget(controller, call.target) : controller;
+            let method: Function = target[call.method];
+
+            if (typeof method != "function")
+                throw new Error("Handler of '" + this.attribute + "': controller '"
+                    + (call.target || controller.id || controller.type) + "' has no method '" + call.method + "'");
+
+            method.apply(target, call.args.map((arg: HandlerArgument) => { return arg.isEvent ? evt : arg.value; }));
+        }
+    }
+
+    /**
+     * find controller by id
+     * @param {IStaticEventOwner} controller controller owning the attribute
+     * @param {string} id id of the target controller
+     * @return {ControllerBase} target controller
+     * @throws Error controller does not exist
+     */
+    private _resolveTarget(controller: IStaticEventOwner, id: string) : ControllerBase {
+        let manager: ControllerManager = controller.controllerManager;
+
+        if (!manager || !manager.has(id))
+            throw new Error("Handler of '" + this.attribute + "': controller '" + id + "' does not exist");
+
+        return manager.get(id);
+    }
+}
+
+
+/**
+ * parser of the handler expression
+ */
+class HandlerParser {
+
+    static IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+
+    static ID = /^[A-Za-z_][\w-]*/;
+
+    static NUMBER = /^-?\d+(\.\d+)?/;
+
+    static STRING = /^('([^'\\]|\\.)*'|"([^"\\]|\\.)*")/;
+
+    private _attribute: string;
+
+    private _text: string;
+
+    private _position: number;
+
+    constructor(attribute: string, text: string) {
+        this._attribute = attribute;
+        this._text = text;
+        this._position = 0;
+    }
+
+    /**
+     * parse whole expression
+     * @return {HandlerCall[]} method calls
+     * @throws HootSyntaxError expression is invalid
+     */
+    public parse() : HandlerCall[] {
+        let result: HandlerCall[] = new Array<HandlerCall>();
+
+        do {
+            this._skipSpaces();
+
+            if (this._isEnd())
+                break;
+
+            result.push(this._parseCall());
+            this._skipSpaces();
+        } while (this._accept(";"));
+
+        if (!this._isEnd())
+            this._fail("unexpected '" + this._text.substr(this._position) + "'");
+
+        if (!result.length)
+            this._fail("handler is empty");
+
+        return result;
+    }
+
+    private _parseCall() : HandlerCall {
+        let target: string = null;
+
+        if (this._accept("#")) {
+            target = this._expect(HandlerParser.ID, "controller id");
+
+            if (!this._accept("."))
+                this._fail("'.' expected after '#" + target + "'");
+        } else if (this._text.substr(this._position, 5) == "this.") {
+            this._position += 5;
+        }
+
+        let method: string = this._expect(HandlerParser.IDENTIFIER, "method name");
+        let args: HandlerArgument[] = new Array<HandlerArgument>();
+
+        this._skipSpaces();
+
+        if (!this._accept("("))
+            return { target: target, method: method, args: [{ isEvent: true, value: null }] };
+
+        this._skipSpaces();
+
+        if (!this._accept(")")) {
+            do {
+                args.push(this._parseArgument());
+                this._skipSpaces();
+            } while (this._accept(","));
+
+            if (!this._accept(")"))
+                this._fail("')' expected");
+        }
+
+        return { target: target, method: method, args: args };
+    }
+
+    private _parseArgument() : HandlerArgument {
+        this._skipSpaces();
+
+        let token: string = this._match(HandlerParser.STRING);
+
+        if (token !== null)
+            return { isEvent: false, value: token.substr(1, token.length - 2).replace(/\\(.)/g, "$1") };
+
+        if ((token = this._match(HandlerParser.NUMBER)) !== null)
+            return { isEvent: false, value: Number(token) };
+
+        if ((token = this._match(HandlerParser.IDENTIFIER)) !== null) {
+            switch (token) {
+                case "$event": return { isEvent: true, value: null };
+                case "true": return { isEvent: false, value: true };
+                case "false": return { isEvent: false, value: false };
+                case "null": return { isEvent: false, value: null };
+            }
+
+            this._fail("unknown argument '" + token + "', only literals and $event are allowed");
+        }
+
+        this._fail("argument expected");
+    }
+
+    private _match(pattern: RegExp) : string {
+        let match: RegExpExecArray = pattern.exec(this._text.substr(this._position));
+
+        if (!match)
+            return null;
+
+        this._position += match[0].length;
+        return match[0];
+    }
+
+    private _expect(pattern: RegExp, description: string) : string {
+        let token: string = this._match(pattern);
+
+        if (token === null)
+            this._fail(description + " expected");
+
+        return token;
+    }
+
+    private _accept(char: string) : boolean {
+        if (this._text.charAt(this._position) != char)
+            return false;
+
+        ++this._position;
+        return true;
+    }
+
+    private _skipSpaces() : void {
+        while (/\s/.test(this._text.charAt(this._position)))
+            ++this._position;
+    }
+
+    private _isEnd() : boolean {
+        return this._position >= this._text.length;
+    }
+
+    private _fail(reason: string) : never {
+        throw new HootSyntaxError(this._attribute, reason + " at position " + this._position);
+    }
+}
+
+
+/**
+ * the key is key modifier
+ * the value is list of matching KeyboardEvent.key values
+ */
+class KeyLookup {
+    [modifier: string]: string[];
+}
@@ -15,6 +15,12 @@ export class VisualComponentController extends ControllerBase {
 
 export class DynamicSizeController extends VisualComponentController {
 
+    /**
+     * removers of the resize listeners bound to other controllers
+     * @type {Function[]}
+     */
+    private _resizeListenerRemovers: Function[] = new Array<Function>();
+
     protected _onTracked(evt: CustomEvent): void {
         this.repaint();
         this._bindResizeEventListener(evt.detail);
@@ -25,10 +31,20 @@ export class DynamicSizeController extends VisualComponentController {
         this._bindResizeEventListener(evt.detail);
     }
 
+    protected _teardown() : void {
+        for (let remover of this._resizeListenerRemovers)
+            remover();
+
+        this._resizeListenerRemovers = new Array<Function>();
+        super._teardown();
+    }
+
     private _bindResizeEventListener(observedController: ControllerBase) : void {
-        observedController.addEventListener(ControllerBase.EVENT_RESIZE, () => {
+        let remover: Function = observedController.addEventListener(ControllerBase.EVENT_RESIZE, () => {
             this.repaint();
         });
+
+        this._resizeListenerRemovers.push(remover);
     }
 
 }
@@ -36,8 +52,23 @@ export class DynamicSizeController extends VisualComponentController {
 
 export class SizeableController extends DynamicSizeController {
 
+    static inject: string[] = ["owl.sizerFactory"];
+
     private _sizer: ISizer;
 
+    private _sizerFactory: SizerFactory;
+
+    /**
+     * initialize instance
+     * subclasses which do not pass the factory get it from the service manager when set up
+     * @param {string} type type of the controller
+     * @param {SizerFactory=null} sizerFactory factory of the sizers
+     */
+    constructor(type: string, sizerFactory: SizerFactory=null) {
+        super(type);
+        this._sizerFactory = sizerFactory;
+    }
+
     public setup(renderedContent: RenderResult, options: Object) : void {
         super.setup(renderedContent, options);
         this._setupSizer(options);
@@ -48,12 +79,19 @@ export class SizeableController extends DynamicSizeController {
         super.repaint();
     }
 
+    protected _teardown() : void {
+        this._sizer.teardown();
+        super._teardown();
+    }
+
     public _setupSizer(options: Object) : void {
         let sizerType: string = options["sizer"];
         if (!sizerType) sizerType = "auto";
 
-        let sizerFactory: SizerFactory = <SizerFactory>this.serviceManager.getServiceByPath("owl.sizerFactory");
-        let sizer = sizerFactory.getSizer(sizerType);
+        if (!this._sizerFactory)
+            this._sizerFactory = <SizerFactory>this.serviceManager.getServiceByPath("owl.sizerFactory");
+
+        let sizer = this._sizerFactory.getSizer(sizerType);
 
         sizer.setup(this._view.rootNode, options);
         this._sizer = sizer;
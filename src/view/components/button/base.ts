@@ -4,6 +4,9 @@ import { DomManipulator, CommonHtmlNode, CommonHtmlText, CommonHtmlElement } fro
 import { ControllerBase, ComponentFactory, ComponentDescription } from "../../../component"
 import { ServiceManager, ServiceNamespace } from "../../../service_management"
 import { VisualComponentController } from "../base"
+import { OptionDefinitionLookup } from "../../../options"
+import { OwlEvent } from "../../../events"
+import { setAriaAttribute } from "../../../aria"
 
 
 export abstract class ButtonRendererBase extends AbstractRenderer {
@@ -12,6 +15,8 @@ export abstract class ButtonRendererBase extends AbstractRenderer {
 
     static ENTRY_LABEL = "label";
 
+    static ENTRY_BUTTON = "button";
+
     public render(originalNode: CommonHtmlElement, manipulator: DomManipulator, options: Object) : RenderResult {
         let wrapper: RenderResult = this._renderWrapper(originalNode, manipulator, options);
         let button = this._renderButton(originalNode, manipulator, options);
@@ -20,6 +25,7 @@ export abstract class ButtonRendererBase extends AbstractRenderer {
         this._insertButtonToWrapper(button, wrapper.entryNodes);
         this._setupLookup(button, wrapper.entryNodes);
         this._setupId(button, options);
+        this._setupAria(button, this._getButtonRole(options), options);
         this._processRenderResult(wrapper);
 
         return wrapper;
@@ -32,12 +38,28 @@ export abstract class ButtonRendererBase extends AbstractRenderer {
         return result;
     }
 
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["disabled"] = { type: "boolean", default: false };
+
+        return schema;
+    }
+
+    /**
+     * get ARIA role of the button element
+     * @param {Object} options rendering options
+     * @return {string} role (NULL if the element has native button semantics)
+     */
+    protected _getButtonRole(options: Object) : string {
+        return null;
+    }
+
     protected _insertButtonToWrapper(button: CommonHtmlElement, wrapperLookup: EntryNodeLookup) : void {
         (<CommonHtmlElement>wrapperLookup["inner"]).append(button);
     }
 
     protected _setupLookup(button: CommonHtmlElement, wrapperLookup: EntryNodeLookup) : void {
-        wrapperLookup["button"] = button;
+        wrapperLookup[ButtonRendererBase.ENTRY_BUTTON] = button;
         wrapperLookup["label"] = button.chidlren.getFirst();
     }
 
@@ -60,11 +82,28 @@ export class ButtonController extends VisualComponentController {
 
     private _label: CommonHtmlText;
 
+    private _disabled: boolean = false;
+
     public setup(renderedContent: RenderResult, options: Object) : void {
         super.setup(renderedContent, options);
         this._label = <CommonHtmlText>renderedContent.getEntry(ButtonRendererBase.ENTRY_LABEL);
 
         this.label = options["label"] || this.label;
+        this.disabled = !!options["disabled"];
+    }
+
+    /**
+     * click events of the disabled button are not dispatched
+     * @param {OwlEvent} evt dispatched event
+     * @return {boolean} false if default action was prevented
+     */
+    public dispatchEvent(evt: OwlEvent) : boolean {
+        if (this._disabled && evt.type == ControllerBase.EVENT_CLICK) {
+            evt.preventDefault();
+            return false;
+        }
+
+        return super.dispatchEvent(evt);
     }
 
     get label(): string {
@@ -74,4 +113,22 @@ export class ButtonController extends VisualComponentController {
     set label(val: string) {
         this._label.content = val;
     }
+
+    get disabled(): boolean {
+        return this._disabled;
+    }
+
+    /**
+     * enable or disable the button, aria-disabled is kept in sync
+     * @param {boolean} val true if button is disabled
+     */
+    set disabled(val: boolean) {
+        let button: Element = (<CommonHtmlElement>this._view.getEntry(ButtonRendererBase.ENTRY_BUTTON)).element;
+
+        this._disabled = val;
+        setAriaAttribute(button, "disabled", val ? true : null);
+
+        if (button instanceof HTMLButtonElement)
+            button.disabled = val;
+    }
 }
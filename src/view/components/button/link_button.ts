@@ -25,8 +25,17 @@ export class Renderer extends ButtonRendererBase {
     protected _renderButton(originalNode: CommonHtmlElement, manipulator: DomManipulator, options: Object) : CommonHtmlElement {
         let button = manipulator.createNewFragment(Renderer.BUTTON_TEMPLATE);
         button.attributes.set("href", options["href"]);
+
+        // anchor without target acts as button and has to be reachable by the tab key
+        if (!options["href"])
+            button.attributes.set("tabindex", "0");
+
         return button;
     }
+
+    protected _getButtonRole(options: Object) : string {
+        return options["href"] ? null : "button";
+    }
 }
 
 
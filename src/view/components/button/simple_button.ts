@@ -23,7 +23,10 @@ export class Renderer extends ButtonRendererBase {
 
     protected _setupLookup(button: CommonHtmlElement, wrapperLookup: EntryNodeLookup) : void {
         super._setupLookup(button, wrapperLookup);
-        wrapperLookup["href"] = button.attributes.get("href");
+
+        // the button template has no href, the entry exists only if the attribute is set
+        if (button.attributes.has("href"))
+            wrapperLookup["href"] = button.attributes.get("href");
     }
 }
 
@@ -4,6 +4,8 @@ import { DomManipulator, CommonHtmlNode, CommonHtmlText, CommonHtmlElement } fro
 import { ControllerBase, ComponentFactory, registerFunctionFactory } from "../../../component"
 import { SizeableController } from "../base"
 import { ServiceManager, ServiceNamespace } from "../../../service_management"
+import { OptionDefinitionLookup } from "../../../options"
+import { setAriaAttribute, ensureElementId } from "../../../aria"
 
 
 export class Renderer extends AbstractRenderer {
@@ -15,6 +17,7 @@ export class Renderer extends AbstractRenderer {
 
         this._setupClassNames(rootNode, options);
         this._setupId(rootNode, options);
+        this._setupAria(rootNode, null, options);
         this._copyContent(<CommonHtmlElement>originalNode, rootNode);
         let entryNodes: EntryNodeLookup = new EntryNodeLookup();
 
@@ -30,24 +33,53 @@ export class Renderer extends AbstractRenderer {
 
 export class Controller extends SizeableController {
 
+    /**
+     * cancelable event dispatched before the active item is changed
+     * data contain index, previousIndex and item
+     * @type {String}
+     */
+    static EVENT_BEFORE_CHANGE = "beforeChange";
+
     protected _items: ItemController[];
 
     protected _activeItem: ItemController = null;
 
     protected _activeIndex: number = -1;
 
+    /**
+     * show item of the index and hide the active one
+     * "beforeChange" event is dispatched first (the change is canceled if its default is prevented),
+     * "change" event is dispatched after the change, nothing is dispatched if the item is already active
+     * @param {number} index index of the item to show
+     * @throws Error item does not exist
+     */
     public setActiveIndex(index: number) : void {
         let item = this._items[index];
 
         if (!item)
             throw new Error("Item index '" + index + "' was not found.");
 
+        if (item === this._activeItem)
+            return;
+
+        let data: Object = { index: index, previousIndex: this._activeItem ? this._activeIndex : -1, item: item };
+
+        if (!this._dispatchCancelableEvent(Controller.EVENT_BEFORE_CHANGE, data))
+            return;
+
         if (this._activeItem)
             this._activeItem.hide();
 
         item.show();
         item.repaint();
         this._activeItem = item;
+        this._activeIndex = index;
+
+        this._dispatchLocalEvent(ControllerBase.EVENT_CHANGE, data);
+    }
+
+    get activeIndex(): number {
+        return this._activeIndex;
     }
 
     public setActiveName(name: string) : void {
@@ -72,13 +104,9 @@ export class Controller extends SizeableController {
             this._items.push(controller);
             controller.hide();
 
-            var newItemIndex = this._items.length - 1;
-
-            if (this._activeIndex == -1)
-                this._activeIndex = newItemIndex;
-
-            if (this._activeIndex == newItemIndex)
-                this.setActiveIndex(newItemIndex);
+            // the first item whose activation is not canceled becomes active
+            if (this._activeItem === null)
+                this.setActiveIndex(this._items.length - 1);
         }
     }
 }
@@ -93,6 +121,7 @@ export class ItemRenderer extends AbstractRenderer {
 
         this._setupClassNames(rootNode, options);
         this._setupId(rootNode, options);
+        this._setupAria(rootNode, "tabpanel", options);
         this._copyContent(<CommonHtmlElement>originalNode, rootNode);
         let entryNodes: EntryNodeLookup = new EntryNodeLookup();
 
@@ -103,6 +132,13 @@ export class ItemRenderer extends AbstractRenderer {
         let result = super.getOptions(node);
         return result;
     }
+
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["tab"] = {};
+
+        return schema;
+    }
 }
 
 
@@ -110,9 +146,19 @@ export class ItemController extends SizeableController {
 
     protected _name: string;
 
+    /**
+     * id of the element acting as tab of the item (NULL if there is no tab)
+     * @type {string}
+     */
+    protected _tab: string;
+
+    protected _visible: boolean = true;
+
     public setup(renderedContent: RenderResult, options: Object) {
         super.setup(renderedContent, options);
         this._name = options["name"] || null;
+        this._tab = options["tab"] || null;
+        this.updateAria();
     }
 
     public repaint() : void {
@@ -121,10 +167,42 @@ export class ItemController extends SizeableController {
 
     public hide() : void {
         this._view.rootElement.styles.addClass("owl-hidden");
+        this._visible = false;
+        this.updateAria();
     }
 
     public show() : void {
         this._view.rootElement.styles.removeClass("owl-hidden");
+        this._visible = true;
+        this.updateAria();
+    }
+
+    /**
+     * sync ARIA states of the panel and its tab with the visibility
+     * tab element gets role "tab", aria-selected and aria-controls
+     * call when the tab is rendered after the item
+     */
+    public updateAria() : void {
+        let panel: Element = this._view.rootElement.element;
+        let tab: Element = this._tab ? panel.ownerDocument.getElementById(this._tab) : null;
+
+        setAriaAttribute(panel, "hidden", !this._visible);
+
+        if (!tab)
+            return;
+
+        tab.setAttribute("role", "tab");
+        setAriaAttribute(tab, "selected", this._visible);
+        setAriaAttribute(tab, "controls", ensureElementId(panel, "owl-content-switch-item"));
+        setAriaAttribute(panel, "labelledby", this._tab);
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    get tab(): string {
+        return this._tab;
     }
 
     get name(): string {
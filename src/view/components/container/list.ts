@@ -4,6 +4,9 @@ import { DomManipulator, CommonHtmlNode, CommonHtmlText, CommonHtmlElement } fro
 import { ControllerBase, ComponentFactory, registerFunctionFactory } from "../../../component"
 import { ServiceManager, ServiceNamespace } from "../../../service_management"
 import { VisualComponentController } from "../base"
+import { OptionDefinitionLookup } from "../../../options"
+import { RovingTabIndex } from "../../../focus"
+import { setAriaAttribute } from "../../../aria"
 
 
 export class Renderer extends AbstractRenderer {
@@ -23,6 +26,9 @@ export class Renderer extends AbstractRenderer {
         let innerContainer = this._renderInnerContainer(options["type"], manipulator);
         this._copyContent(originalNode, innerContainer);
 
+        // navigable list is exposed as listbox, otherwise the native list semantics is kept
+        this._setupAria(innerContainer, options["navigation"] ? "listbox" : null, options);
+
         entryNodes["itemContainer"] = innerContainer;
         rootNode.append(innerContainer);
 
@@ -32,10 +38,12 @@ export class Renderer extends AbstractRenderer {
         return result;
     }
 
-    public getOptions(node: CommonHtmlElement) : Object {
-        let result = super.getOptions(node);
-        result["type"] = this._getAttributeValue(node, "type", "simple");
-        return result;
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["type"] = { values: ["simple", "ordered", "unordered"], default: "simple" };
+        schema["navigation"] = { type: "boolean", default: false };
+
+        return schema;
     }
 
     protected _renderInnerContainer(listType: string, manipulator: DomManipulator) : CommonHtmlElement {
@@ -63,8 +71,50 @@ export class Renderer extends AbstractRenderer {
 
 export class Controller extends ControllerBase {
 
+    /**
+     * arrow-key navigation between the items (NULL if navigation option is off)
+     * @type {RovingTabIndex}
+     */
+    private _navigation: RovingTabIndex = null;
+
     public setup(renderedContent: RenderResult, options: Object) {
         super.setup(renderedContent, options);
+
+        if (options["navigation"]) {
+            this._navigation = new RovingTabIndex(this, "vertical");
+            this._navigation.addEventListener(RovingTabIndex.EVENT_CHANGE, () => { this._updateAria(); });
+            this._navigation.attach();
+        }
+    }
+
+    get navigation(): RovingTabIndex {
+        return this._navigation;
+    }
+
+    protected _onTrackingReceived(evt: CustomEvent) : void {
+        if (this._navigation) {
+            this._navigation.refresh();
+            this._updateAria();
+        }
+    }
+
+    /**
+     * expose items of the navigable list as options, the active one is selected
+     */
+    private _updateAria() : void {
+        for (let item of this._navigation.items) {
+            let element: Element = (<CommonHtmlElement>item.view).element;
+
+            element.setAttribute("role", "option");
+            setAriaAttribute(element, "selected", item === this._navigation.activeItem);
+        }
+    }
+
+    protected _teardown() : void {
+        if (this._navigation)
+            this._navigation.detach();
+
+        super._teardown();
     }
 }
 
@@ -4,6 +4,8 @@ import { DomManipulator, CommonHtmlNode, CommonHtmlText, CommonHtmlElement } fro
 import { ControllerBase, ComponentFactory, registerFunctionFactory } from "../../../component"
 import { ServiceManager, ServiceNamespace } from "../../../service_management"
 import { DynamicSizeController } from "../base"
+import { OptionDefinitionLookup } from "../../../options"
+import { FocusManager } from "../../../focus"
 
 
 export class Renderer extends AbstractRenderer {
@@ -14,6 +16,11 @@ export class Renderer extends AbstractRenderer {
         let rootNode: CommonHtmlElement = manipulator.createNewFragment(Renderer.TEMPLATE);
 
         this._setupClassNames(rootNode, options);
+        this._setupAria(rootNode, options["overlay"] ? "dialog" : null, options);
+
+        if (options["overlay"])
+            rootNode.attributes.set("aria-modal", "true");
+
         this._copyContent(<CommonHtmlElement>originalNode, rootNode);
         let entryNodes: EntryNodeLookup = new EntryNodeLookup();
 
@@ -23,23 +30,26 @@ export class Renderer extends AbstractRenderer {
         return result;
     }
 
-    public getOptions(node: CommonHtmlNode) : Object {
-        let result = super.getOptions(node);
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
 
-        result["verticalAlign"] = this._getAttributeValue(<CommonHtmlElement>node, "vertical-align", null);
-        result["horizontalAlign"] = this._getAttributeValue(<CommonHtmlElement>node, "horizontal-align", null);
-        result["left"] = this._getAttributeValue(<CommonHtmlElement>node, "left", null);
-        result["right"] = this._getAttributeValue(<CommonHtmlElement>node, "right", null);
-        result["top"] = this._getAttributeValue(<CommonHtmlElement>node, "top", null);
-        result["bottom"] = this._getAttributeValue(<CommonHtmlElement>node, "bottom", null);
+        schema["verticalAlign"] = {};
+        schema["horizontalAlign"] = {};
+        schema["left"] = {};
+        schema["right"] = {};
+        schema["top"] = {};
+        schema["bottom"] = {};
+        schema["overlay"] = { type: "boolean", default: false };
 
-        return result;
+        return schema;
     }
 }
 
 
 export class Controller extends DynamicSizeController {
 
+    static inject: string[] = ["owl.focusManager"];
+
     protected _verticalAlign: string;
 
     protected _horizontalAlign: string;
@@ -52,6 +62,31 @@ export class Controller extends DynamicSizeController {
 
     protected _bottom: string;
 
+    /**
+     * if true, box traps the focus while it exists
+     * @type {boolean}
+     */
+    protected _overlay: boolean;
+
+    /**
+     * remover of the focus trap (NULL if focus is not trapped)
+     * @type {Function}
+     */
+    private _focusTrapRemover: Function = null;
+
+    private _focusManager: FocusManager;
+
+    /**
+     * initialize instance
+     * subclasses which do not pass the manager get it from the service manager when initialized
+     * @param {string} type type of the controller
+     * @param {FocusManager=null} focusManager manager trapping focus of the overlays
+     */
+    constructor(type: string, focusManager: FocusManager=null) {
+        super(type);
+        this._focusManager = focusManager;
+    }
+
     public setup(renderedContent: RenderResult, options: Object) {
         super.setup(renderedContent, options);
 
@@ -61,6 +96,7 @@ export class Controller extends DynamicSizeController {
         this._right = options["right"];
         this._top = options["top"];
         this._bottom = options["bottom"];
+        this._overlay = options["overlay"];
     }
 
     public repaint() : void {
@@ -74,6 +110,27 @@ export class Controller extends DynamicSizeController {
 
     public initialize() : void {
         super.initialize();
+
+        if (!this._overlay)
+            return;
+
+        if (!this._focusManager)
+            this._focusManager = <FocusManager>this.serviceManager.getServiceByPath("owl.focusManager");
+
+        this._focusTrapRemover = this._focusManager.trapFocus(this);
+    }
+
+    get overlay(): boolean {
+        return this._overlay;
+    }
+
+    protected _teardown() : void {
+        if (this._focusTrapRemover) {
+            this._focusTrapRemover();
+            this._focusTrapRemover = null;
+        }
+
+        super._teardown();
     }
 
     protected _resolveVerticalPosition(): void {
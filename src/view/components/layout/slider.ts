@@ -3,6 +3,8 @@ import { CommonHtmlNode, CommonHtmlElement, DomManipulator, CommonNodeList, Size
 import { ServiceManager } from "../../../service_management"
 import { ComponentFactory, ComponentDescription, registerFunctionFactory, ControllerBase } from "../../../component"
 import { ContainerController, SizeableController, VisualComponentController } from "../base"
+import { OptionDefinitionLookup } from "../../../options"
+import { setAriaAttribute } from "../../../aria"
 
 
 export class Renderer extends AbstractRenderer {
@@ -16,6 +18,8 @@ export class Renderer extends AbstractRenderer {
 
         this._copyContent(originalElement, rootNode);
         this._setupClassNames(rootNode, options);
+        this._setupAria(rootNode, "region", options);
+        rootNode.attributes.set("aria-roledescription", "carousel");
 
         let result: RenderResult = new RenderResult(rootNode, entryNodes);
         this._processRenderResult(result);
@@ -30,28 +34,61 @@ export class Renderer extends AbstractRenderer {
     public getOptions(originalNode: CommonHtmlNode): Object {
         let result: Object = super.getOptions(originalNode);
         result["sizer"] = super._getAttributeValue(<CommonHtmlElement>originalNode, "sizer");
-        result["duration"] = super._getAttributeValue(<CommonHtmlElement>originalNode, "slide-duration");
 
         return result;
     }
+
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["duration"] = { type: "number", attribute: "slide-duration", default: 0 };
+
+        return schema;
+    }
 }
 
 
 export class Controller extends ContainerController {
 
+    /**
+     * cancelable event dispatched before sliding, data contain page name
+     * @type {String}
+     */
+    static EVENT_BEFORE_SLIDE = "beforeSlide";
+
+    /**
+     * event dispatched when sliding is finished, data contain page name
+     * @type {String}
+     */
+    static EVENT_SLID = "slid";
+
     private _duration: number;
 
+    private _slideTimer: number = null;
+
+    /**
+     * slide to the page
+     * sliding is canceled if default of the "beforeSlide" event is prevented
+     * @param {string} pageName name of the target page
+     * @throws Error page does not exist
+     */
     public goto(pageName: string) : void {
         let container: CommonHtmlElement = this._getItemContainer();
         let targetItem: CommonHtmlElement = this._findItemByName(pageName);
         let targetScroll = this._getTargetPosition(targetItem);
+        let data: Object = { page: pageName };
 
-        this._scroll(container, targetScroll);
+        if (!this._dispatchCancelableEvent(Controller.EVENT_BEFORE_SLIDE, data))
+            return;
+
+        this._scroll(container, targetScroll, () => {
+            this._updatePageVisibility(pageName);
+            this._dispatchLocalEvent(Controller.EVENT_SLID, data);
+        });
     }
 
     public setup(renderedContent: RenderResult, options: Object) : void {
         super.setup(renderedContent, options);
-        this._duration = Number(options["duration"])
+        this._duration = options["duration"];
     }
 
     get duration(): number {
@@ -62,6 +99,11 @@ export class Controller extends ContainerController {
         this._duration = val;
     }
 
+    protected _teardown() : void {
+        this._stopSliding();
+        super._teardown();
+    }
+
     protected _onTracked(evt: CustomEvent) : void {
         let senderController: ControllerBase = <ControllerBase>evt.detail;
         senderController.addEventListener(ControllerBase.EVENT_RESIZE, () => {
@@ -71,6 +113,16 @@ export class Controller extends ContainerController {
         this.repaint();
     }
 
+    protected _onTrackingReceived(evt: CustomEvent) : void {
+        let controller: ControllerBase = <ControllerBase>evt.detail;
+
+        super._onTrackingReceived(evt);
+
+        // the first page is shown until the slider moves
+        if (controller instanceof SliderPageController && !this._getCurrentPage())
+            controller.current = true;
+    }
+
     private _getItemContainer() : CommonHtmlElement {
         return <CommonHtmlElement>this._view.rootNode;
     }
@@ -83,15 +135,16 @@ export class Controller extends ContainerController {
         return target.element.offsetTop;
     }
 
-    private _scroll(container: CommonHtmlElement, targetValue: number) : void {
+    private _scroll(container: CommonHtmlElement, targetValue: number, done: Function) : void {
         if (this._duration == 0) {
             container.element.scrollTo(0, targetValue);
+            done();
         } else {
-            this._slideSmooth(container, targetValue);
+            this._slideSmooth(container, targetValue, done);
         }
     }
 
-    private _slideSmooth(container: CommonHtmlElement, target: number) : void {
+    private _slideSmooth(container: CommonHtmlElement, target: number, done: Function) : void {
         let timeLeft: number = this._duration;
         let timeStep: number = 1000 / 60;
         let timeSteps: number = this._duration / timeStep;
@@ -103,12 +156,14 @@ export class Controller extends ContainerController {
 
         let iteration = 0;
 
-        let tm: number = setInterval(() => {
+        this._stopSliding();
+        this._slideTimer = setInterval(() => {
             let delta = Math.abs(currentPosition - target);
 
             if (delta < Math.abs(scrollStep) || delta == 0) {
                 container.element.scrollTo(0, target);
-                clearInterval(tm);
+                this._stopSliding();
+                done();
                 return;
             }
 
@@ -116,10 +171,43 @@ export class Controller extends ContainerController {
             currentPosition = startScroll + scrollStep * iteration;
             container.element.scrollTo(0, currentPosition);
 
-            if (currentPosition < 0) clearInterval(tm);
+            if (currentPosition < 0) {
+                this._stopSliding();
+                done();
+            }
         }, timeStep);
     }
 
+    /**
+     * stop the running smooth sliding
+     */
+    private _stopSliding() : void {
+        if (this._slideTimer !== null) {
+            clearInterval(this._slideTimer);
+            this._slideTimer = null;
+        }
+    }
+
+    /**
+     * hide pages other than the current one from the assistive technologies
+     * @param {string} pageName name of the current page
+     */
+    private _updatePageVisibility(pageName: string) : void {
+        for (let child of this.children) {
+            if (child instanceof SliderPageController)
+                child.current = (child.pageName == pageName);
+        }
+    }
+
+    private _getCurrentPage() : SliderPageController {
+        for (let child of this.children) {
+            if (child instanceof SliderPageController && child.current)
+                return child;
+        }
+
+        return null;
+    }
+
     private _findItemByName(name: string) : CommonHtmlElement {
         let result: CommonHtmlElement = null;
 
@@ -152,6 +240,8 @@ export class SliderPageRenderer extends AbstractRenderer {
         this._copyContent(originalNode, root);
         this._setupId(root, options);
         this._setupClassNames(root, options);
+        this._setupAria(root, "group", options);
+        root.attributes.set("aria-roledescription", "slide");
         this._processRenderResult(result);
 
         return result;
@@ -164,6 +254,13 @@ export class SliderPageRenderer extends AbstractRenderer {
 
         return result;
     }
+
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["overflow"] = { values: ["hidden", "expand"], default: "hidden" };
+
+        return schema;
+    }
 }
 
 
@@ -173,6 +270,8 @@ export class SliderPageController extends VisualComponentController {
 
     private _overflowBehaviour: string = "hidden";
 
+    private _current: boolean = false;
+
     public repaint() : void {
         if (this._overflowBehaviour == "expand")
             (<CommonHtmlElement>this._view.entryNodes["content"]).styles.addClass("owl-overflow-expand");
@@ -183,7 +282,8 @@ export class SliderPageController extends VisualComponentController {
     public setup(renderedContent: RenderResult, options: Object) : void {
         super.setup(renderedContent, options);
         this._pageName = options["name"];
-        this._overflowBehaviour = options["overflow"] ? options["overflow"] : "hidden";
+        this._overflowBehaviour = options["overflow"];
+        this.current = this._current;
     }
 
     protected _onTracked(evt: CustomEvent) : void {
@@ -220,6 +320,19 @@ export class SliderPageController extends VisualComponentController {
     get overflowBehaviour(): string {
         return this._overflowBehaviour;
     }
+
+    get current(): boolean {
+        return this._current;
+    }
+
+    /**
+     * mark page as the current one, other pages are aria-hidden
+     * @param {boolean} val true if page is shown
+     */
+    set current(val: boolean) {
+        this._current = val;
+        setAriaAttribute(this._view.rootElement.element, "hidden", !val);
+    }
 }
 
 
@@ -3,6 +3,7 @@ import { CommonHtmlNode, CommonHtmlElement, DomManipulator, CommonNodeList } fro
 import { ServiceManager } from "../../../service_management"
 import { ComponentFactory, ComponentDescription, registerFunctionFactory, ControllerBase } from "../../../component"
 import { BaseBoxController, BaseBoxRenderer, BaseBoxItemRenderer, BaseBoxItemController } from "./vh_base"
+import { NavigationOrientation } from "../../../focus"
 
 
 export class Renderer extends BaseBoxRenderer {
@@ -15,6 +16,9 @@ export class Renderer extends BaseBoxRenderer {
 
 export class Controller extends BaseBoxController {
 
+    protected _getNavigationOrientation() : NavigationOrientation {
+        return "vertical";
+    }
 }
 
 
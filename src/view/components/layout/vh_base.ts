@@ -3,6 +3,8 @@ import { CommonHtmlNode, CommonHtmlElement, DomManipulator, CommonNodeList } fro
 import { ServiceManager } from "../../../service_management"
 import { ComponentFactory, ComponentDescription, registerFunctionFactory, ControllerBase } from "../../../component"
 import { VisualComponentController, ContainerController, ContainerRenderer } from "../base"
+import { OptionDefinitionLookup } from "../../../options"
+import { RovingTabIndex, NavigationOrientation } from "../../../focus"
 
 
 export abstract class BaseBoxRenderer extends ContainerRenderer {
@@ -43,16 +45,60 @@ export abstract class BaseBoxRenderer extends ContainerRenderer {
         return this._lastResult.rootElement;
     }
 
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["navigation"] = { type: "boolean", default: false };
+
+        return schema;
+    }
+
     protected abstract _setupContainerLayout(options: Object): void;
 }
 
 
 export class BaseBoxController extends ContainerController {
 
+    /**
+     * arrow-key navigation between the items (NULL if navigation option is off)
+     * @type {RovingTabIndex}
+     */
+    private _navigation: RovingTabIndex = null;
+
+    public setup(renderedContent: RenderResult, options: Object) : void {
+        super.setup(renderedContent, options);
+
+        if (options["navigation"]) {
+            this._navigation = new RovingTabIndex(this, this._getNavigationOrientation());
+            this._navigation.attach();
+        }
+    }
+
+    get navigation(): RovingTabIndex {
+        return this._navigation;
+    }
+
+    /**
+     * get direction of the arrow-key navigation
+     * @return {NavigationOrientation} navigation direction
+     */
+    protected _getNavigationOrientation() : NavigationOrientation {
+        return "both";
+    }
+
     protected _onTrackingReceived(evt: CustomEvent) : void {
+        if (this._navigation)
+            this._navigation.refresh();
+
         this.repaint();
     }
 
+    protected _teardown() : void {
+        if (this._navigation)
+            this._navigation.detach();
+
+        super._teardown();
+    }
+
     protected _onTracked(evt: CustomEvent) : void {
         let senderController: ControllerBase = <ControllerBase>evt.detail;
         senderController.addEventListener(ControllerBase.EVENT_RESIZE, () => {
@@ -82,10 +128,11 @@ export abstract class BaseBoxItemRenderer extends AbstractRenderer {
         return result;
     }
 
-    public getOptions(originalNode: CommonHtmlElement) : Object {
-        let options = super.getOptions(originalNode);
-        options["size"] = this._getAttributeValue(originalNode, "size", "auto");
-        return options;
+    protected _getOptionSchema() : OptionDefinitionLookup {
+        let schema: OptionDefinitionLookup = super._getOptionSchema();
+        schema["size"] = { values: ["auto", "content"], default: "auto" };
+
+        return schema;
     }
 
     protected abstract _setupContainerClasses(root: CommonHtmlElement): void;
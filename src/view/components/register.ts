@@ -2,6 +2,7 @@
 import * as Buttons from "./button/register"
 import * as Layout from "./layout/register"
 import * as Container from "./container/register"
+import * as Structural from "./structural/register"
 
 import * as TextLabel from "./text_label"
 import * as TextBox from "./text_box"
@@ -16,4 +17,5 @@ export function register(cm: ComponentFactory, sm: ServiceManager) : void {
     Layout.register(cm, sm);
     TextBox.register(cm, sm);
     Container.register(cm, sm);
+    Structural.register(cm, sm);
 }
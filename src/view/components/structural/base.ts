@@ -0,0 +1,32 @@
+import { AbstractRenderer, RenderResult, EntryNodeLookup } from "../../../rendering"
+import { DomManipulator, CommonHtmlNode, CommonHtmlElement } from "../../../dom"
+
+
+/**
+ * renderer of the structural components
+ * content of the original node is not rendered, it is stored as the template
+ */
+export abstract class TemplateRenderer extends AbstractRenderer {
+
+    public render(originalNode: CommonHtmlElement, manipulator: DomManipulator, options: Object) : RenderResult {
+        let rootNode: CommonHtmlElement = manipulator.createNewFragment(this._getRootTemplate());
+        let entryNodes: EntryNodeLookup = new EntryNodeLookup();
+
+        this._setupId(rootNode, options);
+        this._setupClassNames(rootNode, options);
+
+        let result: RenderResult = new RenderResult(rootNode, entryNodes);
+        this._processRenderResult(result);
+
+        return result;
+    }
+
+    public getOptions(node: CommonHtmlNode) : Object {
+        let result = super.getOptions(node);
+        result["template"] = (<CommonHtmlElement>node).element.innerHTML;
+
+        return result;
+    }
+
+    protected abstract _getRootTemplate(): string;
+}
@@ -0,0 +1,69 @@
+import { AbstractRenderer, RenderResult, EntryNodeLookup } from "../../../rendering"
+import { DomManipulator, CommonHtmlElement } from "../../../dom"
+import { ControllerBase, registerFunctionFactory } from "../../../component"
+
+
+/**
+ * html code of the fragment containing given template
+ * @param {string} template template of the fragment content
+ * @return {string} html code of the fragment placeholder
+ */
+export function wrapTemplate(template: string) : string {
+    return "<owl:owl-fragment>" + template + "</owl:owl-fragment>";
+}
+
+
+export class Renderer extends AbstractRenderer {
+
+    static TEMPLATE = "<div class='owl-fragment'></div>";
+
+    public render(originalNode: CommonHtmlElement, manipulator: DomManipulator, options: Object) : RenderResult {
+        let rootNode: CommonHtmlElement = manipulator.createNewFragment(Renderer.TEMPLATE);
+
+        this._copyContent(originalNode, rootNode);
+        let entryNodes: EntryNodeLookup = new EntryNodeLookup();
+
+        let result: RenderResult = new RenderResult(rootNode, entryNodes);
+        this._processRenderResult(result);
+
+        return result;
+    }
+}
+
+
+/**
+ * holds one instance of the structural component template
+ */
+export class Controller extends ControllerBase {
+
+    /**
+     * rendered item (used by repeat)
+     * @type {any}
+     */
+    protected _item: any = null;
+
+    /**
+     * index of the rendered item (used by repeat)
+     * @type {number}
+     */
+    protected _index: number = -1;
+
+    get item(): any {
+        return this._item;
+    }
+
+    set item(val: any) {
+        this._item = val;
+    }
+
+    get index(): number {
+        return this._index;
+    }
+
+    set index(val: number) {
+        this._index = val;
+    }
+}
+
+
+export let register = registerFunctionFactory("owl.component.structural.fragment", "owlFragment", Renderer, Controller);
@@ -0,0 +1,62 @@
+import { RenderResult } from "../../../rendering"
+import { CommonHtmlNode, CommonHtmlElement } from "../../../dom"
+import { ControllerBase, registerFunctionFactory } from "../../../component"
+import { PropertyBinding } from "../../../binding"
+import { TemplateRenderer } from "./base"
+import * as Fragment from "./fragment"
+
+
+export class Renderer extends TemplateRenderer {
+
+    static TEMPLATE = "<div class='owl-if'></div>";
+
+    public getOptions(node: CommonHtmlNode) : Object {
+        let result = super.getOptions(node);
+        result["test"] = this._getAttributeValue(<CommonHtmlElement>node, "test", null);
+
+        return result;
+    }
+
+    protected _getRootTemplate() : string {
+        return Renderer.TEMPLATE;
+    }
+}
+
+
+/**
+ * render the template only if the model value given by the "test" path is truthy
+ */
+export class Controller extends ControllerBase {
+
+    protected _test: boolean = false;
+
+    protected _template: string;
+
+    protected _fragment: Fragment.Controller = null;
+
+    public setup(renderedContent: RenderResult, options: Object) : void {
+        super.setup(renderedContent, options);
+        this._template = options["template"];
+
+        if (options["test"])
+            this.addBinding(new PropertyBinding(this, "test", options["test"]));
+    }
+
+    get test(): boolean {
+        return this._test;
+    }
+
+    set test(val: boolean) {
+        this._test = !!val;
+
+        if (this._test && !this._fragment)
+            this._fragment = <Fragment.Controller>this.appendHtml(Fragment.wrapTemplate(this._template))[0];
+        else if (!this._test && this._fragment) {
+            this._fragment.destroy();
+            this._fragment = null;
+        }
+    }
+}
+
+
+export let register = registerFunctionFactory("owl.component.structural.if", "if", Renderer, Controller);
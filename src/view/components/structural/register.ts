@@ -0,0 +1,13 @@
+import * as Fragment from "./fragment"
+import * as If from "./if"
+import * as Repeat from "./repeat"
+
+import { ComponentFactory } from "../../../component"
+import { ServiceManager } from "../../../service_management"
+
+
+export function register(cm: ComponentFactory, sm: ServiceManager) : void {
+    Fragment.register(cm, sm);
+    If.register(cm, sm);
+    Repeat.register(cm, sm);
+}
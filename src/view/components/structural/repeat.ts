@@ -0,0 +1,182 @@
+import { RenderResult } from "../../../rendering"
+import { CommonHtmlNode, CommonHtmlElement } from "../../../dom"
+import { ControllerBase, registerFunctionFactory } from "../../../component"
+import { ObservableModel, AliasModel, PropertyBinding } from "../../../binding"
+import { TemplateRenderer } from "./base"
+import * as Fragment from "./fragment"
+
+
+export class Renderer extends TemplateRenderer {
+
+    static TEMPLATE = "<div class='owl-repeat'></div>";
+
+    public getOptions(node: CommonHtmlNode) : Object {
+        let result = super.getOptions(node);
+        result["items"] = this._getAttributeValue(<CommonHtmlElement>node, "items", null);
+        result["as"] = this._getAttributeValue(<CommonHtmlElement>node, "as", "item");
+        result["key"] = this._getAttributeValue(<CommonHtmlElement>node, "key", null);
+
+        return result;
+    }
+
+    protected _getRootTemplate() : string {
+        return Renderer.TEMPLATE;
+    }
+}
+
+
+/**
+ * render the template for each item of the collection given by the "items" path
+ * fragments are reused for items with the same key ("key" property of the item or the item itself)
+ */
+export class Controller extends ControllerBase {
+
+    protected _items: any[] = new Array<any>();
+
+    protected _itemsPath: string;
+
+    protected _alias: string;
+
+    protected _keyProperty: string;
+
+    protected _template: string;
+
+    protected _records: RepeatRecord[] = new Array<RepeatRecord>();
+
+    /**
+     * model for the fragment being created
+     * @type {ObservableModel}
+     */
+    private _pendingModel: ObservableModel = null;
+
+    public setup(renderedContent: RenderResult, options: Object) : void {
+        super.setup(renderedContent, options);
+        this._template = options["template"];
+        this._itemsPath = options["items"];
+        this._alias = options["as"];
+        this._keyProperty = options["key"];
+
+        if (this._itemsPath)
+            this.addBinding(new PropertyBinding(this, "items", this._itemsPath));
+    }
+
+    get items(): any[] {
+        return this._items.slice(0, this._items.length);
+    }
+
+    set items(val: any[]) {
+        this._items = val ? Array.prototype.slice.call(val) : new Array<any>();
+        this._reconcile();
+    }
+
+    protected _onTrackingReceived(evt: CustomEvent) : void {
+        let controller: ControllerBase = <ControllerBase>evt.detail;
+
+        if (this._pendingModel && controller instanceof Fragment.Controller)
+            controller.model = this._pendingModel;
+    }
+
+    protected _teardown() : void {
+        for (let record of this._records)
+            record.model.dispose();
+
+        this._records = new Array<RepeatRecord>();
+        super._teardown();
+    }
+
+    /**
+     * update fragments to match current items
+     * fragments of the existing keys are reused, the others are created or destroyed
+     */
+    protected _reconcile() : void {
+        let oldRecords: RepeatRecord[] = this._records;
+        let newRecords: RepeatRecord[] = new Array<RepeatRecord>();
+
+        for (let i = 0; i < this._items.length; ++i) {
+            let key: any = this._getKey(this._items[i]);
+            let record: RepeatRecord = this._takeRecord(oldRecords, key);
+
+            if (record)
+                record.model.retarget(this._getItemPath(i));
+            else
+                record = this._createRecord(key, i);
+
+            record.fragment.item = this._items[i];
+            record.fragment.index = i;
+            newRecords.push(record);
+        }
+
+        for (let record of oldRecords) {
+            record.model.dispose();
+            record.fragment.destroy();
+        }
+
+        for (let record of newRecords) {
+            this._view.rootElement.append(record.fragment.view);
+            record.fragment.detectChanges();
+        }
+
+        this._records = newRecords;
+    }
+
+    protected _getKey(item: any) : any {
+        if (this._keyProperty && item !== null && item !== undefined)
+            return item[this._keyProperty];
+
+        return item;
+    }
+
+    private _getItemPath(index: number) : string {
+        return this._itemsPath + "." + index;
+    }
+
+    /**
+     * remove record with the key from the list and return it
+     * @param {RepeatRecord[]} records list of records
+     * @param {any} key key to look for
+     * @return {RepeatRecord} found record or NULL
+     */
+    private _takeRecord(records: RepeatRecord[], key: any) : RepeatRecord {
+        for (let i = 0; i < records.length; ++i) {
+            if (records[i].key === key)
+                return records.splice(i, 1)[0];
+        }
+
+        return null;
+    }
+
+    private _createRecord(key: any, index: number) : RepeatRecord {
+        let model: AliasModel = new AliasModel(this.model, this._alias, this._getItemPath(index));
+
+        this._pendingModel = model;
+
+        try {
+            let fragment = <Fragment.Controller>this.appendHtml(Fragment.wrapTemplate(this._template))[0];
+            return new RepeatRecord(key, fragment, model);
+        } finally {
+            this._pendingModel = null;
+        }
+    }
+}
+
+
+/**
+ * rendered item of the repeat
+ */
+class RepeatRecord {
+
+    public key: any;
+
+    public fragment: Fragment.Controller;
+
+    public model: AliasModel;
+
+    constructor(key: any, fragment: Fragment.Controller, model: AliasModel) {
+        this.key = key;
+        this.fragment = fragment;
+        this.model = model;
+    }
+}
+
+
+export let register = registerFunctionFactory("owl.component.structural.repeat", "repeat", Renderer, Controller);
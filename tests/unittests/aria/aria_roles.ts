@@ -0,0 +1,175 @@
+import * as SimpleButton from "../../../src/view/components/button/simple_button";
+import * as LinkButton from "../../../src/view/components/button/link_button";
+import * as ContentSwitch from "../../../src/view/components/container/content_switch";
+import * as List from "../../../src/view/components/container/list";
+import * as Slider from "../../../src/view/components/layout/slider";
+import { ControllerBase, ControllerManager } from "../../../src/component";
+import { ServiceManager } from "../../../src/service_management";
+import { IRenderer } from "../../../src/rendering";
+import { DomManipulator, CommonHtmlElement } from "../../../src/dom";
+import { DomEvent } from "../../../src/events";
+import { sizerFactory } from "../../../src/view/sizer/factory";
+import { auditAccessibleNames } from "./utils";
+import { expect } from "chai";
+
+
+describe("ARIA roles and states", () => {
+
+    let serviceManager: ServiceManager;
+    let manipulator: DomManipulator;
+
+    function render(renderer: IRenderer, controller: ControllerBase, html: string, parent: ControllerBase=null) : ControllerBase {
+        let original = <CommonHtmlElement>manipulator.createNewFragment(html);
+        let options: Object = renderer.getOptions(original);
+        let result = renderer.render(original, manipulator, options);
+
+        controller.serviceManager = serviceManager;
+        controller.renderer = renderer;
+        controller.setup(result, options);
+        (parent ? <HTMLElement>parent.view.node : document.body).appendChild(result.rootNode.node);
+        controller.initialize();
+
+        return controller;
+    }
+
+    function element(controller: ControllerBase, selector: string) : HTMLElement {
+        let root = <HTMLElement>controller.view.node;
+        return root.matches(selector) ? root : <HTMLElement>root.querySelector(selector);
+    }
+
+    beforeEach(() => {
+        serviceManager = new ServiceManager();
+        serviceManager.registerService("owl.controllerManager", () => { return new ControllerManager(); });
+        serviceManager.registerService("owl.sizerFactory", () => { return sizerFactory(); });
+        manipulator = new DomManipulator(window, document.body);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("button with aria label", () => {
+        let button = render(new SimpleButton.Renderer(), new SimpleButton.Controller("owlSimpleButton"), "<div label='x' aria-label='Close dialog'></div>");
+        let node = element(button, "button");
+
+        expect(node.hasAttribute("role")).to.be.false;
+        expect(node.getAttribute("aria-label")).to.eq("Close dialog");
+    });
+
+    it("disabled button", () => {
+        let button = <SimpleButton.Controller>render(new SimpleButton.Renderer(), new SimpleButton.Controller("owlSimpleButton"), "<div disabled='true'></div>");
+        let node = <HTMLButtonElement>element(button, "button");
+        let clicks = 0;
+
+        button.addEventListener(ControllerBase.EVENT_CLICK, () => { clicks++; });
+
+        expect(node.getAttribute("aria-disabled")).to.eq("true");
+        expect(node.disabled).to.be.true;
+
+        let evt = new MouseEvent("click", { bubbles: true, cancelable: true });
+        button.dispatchEvent(new DomEvent(evt));
+
+        button.disabled = false;
+        button.dispatchEvent(new DomEvent(evt));
+
+        expect(node.hasAttribute("aria-disabled")).to.be.false;
+        expect(clicks).to.eq(1);
+    });
+
+    it("link button without target acts as button", () => {
+        let action = render(new LinkButton.Renderer(), new LinkButton.Controller("owlLinkButton"), "<div label='Save'></div>");
+        let link = render(new LinkButton.Renderer(), new LinkButton.Controller("owlLinkButton"), "<div href='/home' label='Home'></div>");
+
+        expect(element(action, "a").getAttribute("role")).to.eq("button");
+        expect(element(action, "a").getAttribute("tabindex")).to.eq("0");
+        expect(element(link, "a").hasAttribute("role")).to.be.false;
+    });
+
+    it("content switch tabs and panels", () => {
+        document.body.innerHTML = "<button id='tab-a'>A</button><button id='tab-b'>B</button>";
+
+        let switcher = <ContentSwitch.Controller>render(new ContentSwitch.Renderer(), new ContentSwitch.Controller("owlContentSwitch", sizerFactory()), "<div></div>");
+        let first = render(new ContentSwitch.ItemRenderer(), new ContentSwitch.ItemController("owlContentSwitchItem", sizerFactory()), "<div tab='tab-a'>a</div>", switcher);
+        let second = render(new ContentSwitch.ItemRenderer(), new ContentSwitch.ItemController("owlContentSwitchItem", sizerFactory()), "<div id='panel-b' tab='tab-b'>b</div>", switcher);
+        let tabA = document.getElementById("tab-a");
+        let tabB = document.getElementById("tab-b");
+
+        switcher.setActiveIndex(1);
+
+        expect(element(first, "div").getAttribute("role")).to.eq("tabpanel");
+        expect(element(first, "div").getAttribute("aria-hidden")).to.eq("true");
+        expect(element(second, "div").getAttribute("aria-hidden")).to.eq("false");
+        expect(element(second, "div").getAttribute("aria-labelledby")).to.eq("tab-b");
+        expect(tabA.getAttribute("role")).to.eq("tab");
+        expect(tabA.getAttribute("aria-selected")).to.eq("false");
+        expect(tabA.getAttribute("aria-controls")).to.eq(element(first, "div").id);
+        expect(tabB.getAttribute("aria-selected")).to.eq("true");
+        expect(tabB.getAttribute("aria-controls")).to.eq("panel-b");
+    });
+
+    it("navigable list is listbox", () => {
+        let list = <List.Controller>render(new List.Renderer(), new List.Controller("owlList"), "<div navigation='true' aria-label='Users'></div>");
+        let items = [
+            render(new List.ItemRenderer(), new List.ItemController("owlListItem"), "<div>a</div>", list),
+            render(new List.ItemRenderer(), new List.ItemController("owlListItem"), "<div>b</div>", list)
+        ];
+        let listbox = element(list, "ul");
+
+        expect(listbox.getAttribute("role")).to.eq("listbox");
+        expect(listbox.getAttribute("aria-label")).to.eq("Users");
+        expect(items.map((item) => { return element(item, "li").getAttribute("role"); })).to.deep.eq(["option", "option"]);
+        expect(items.map((item) => { return element(item, "li").getAttribute("aria-selected"); })).to.deep.eq(["true", "false"]);
+
+        list.navigation.activate(items[1]);
+
+        expect(items.map((item) => { return element(item, "li").getAttribute("aria-selected"); })).to.deep.eq(["false", "true"]);
+    });
+
+    it("plain list keeps native semantics", () => {
+        let list = render(new List.Renderer(), new List.Controller("owlList"), "<div></div>");
+
+        expect(element(list, "ul").hasAttribute("role")).to.be.false;
+    });
+
+    it("slider pages", () => {
+        let slider = render(new Slider.Renderer(), new Slider.Controller("owlSlider"), "<div aria-label='News'></div>");
+        let page = <Slider.SliderPageController>render(new Slider.SliderPageRenderer(), new Slider.SliderPageController("owlSliderPage"), "<div name='a'></div>", slider);
+        let root = element(slider, "div");
+
+        expect(root.getAttribute("role")).to.eq("region");
+        expect(root.getAttribute("aria-roledescription")).to.eq("carousel");
+        expect(element(page, "div").getAttribute("role")).to.eq("group");
+
+        page.current = false;
+
+        expect(element(page, "div").getAttribute("aria-hidden")).to.eq("true");
+    });
+
+    it("audit accessible names", () => {
+        document.body.innerHTML =
+            "<div id='root'>" +
+                "<button id='empty'></button>" +
+                "<button>Save</button>" +
+                "<a href='/' aria-label='Home'><img></a>" +
+                "<div role='tabpanel' aria-labelledby='tab'></div><span id='tab'>Tab</span>" +
+                "<label for='name'>Name</label><input id='name'>" +
+                "<input id='unnamed'>" +
+                "<div aria-hidden='true'><button></button></div>" +
+                "<div role='listbox'></div>" +
+            "</div>";
+
+        expect(auditAccessibleNames(document.getElementById("root"))).to.deep.eq([
+            "button#empty has no accessible name",
+            "textbox#unnamed has no accessible name",
+            "listbox <div> has no accessible name"
+        ]);
+    });
+
+    it("rendered components pass audit", () => {
+        render(new SimpleButton.Renderer(), new SimpleButton.Controller("owlSimpleButton"), "<div label='Save'></div>");
+        render(new LinkButton.Renderer(), new LinkButton.Controller("owlLinkButton"), "<div label='Home' href='/'></div>");
+        render(new List.Renderer(), new List.Controller("owlList"), "<div navigation='true' aria-label='Users'></div>");
+
+        expect(auditAccessibleNames(document.body)).to.deep.eq([]);
+    });
+});
@@ -0,0 +1,87 @@
+
+/**
+ * roles which require accessible name
+ */
+const NAMED_ROLES = ["button", "link", "tab", "tabpanel", "listbox", "option", "dialog", "region", "checkbox", "textbox"];
+
+/**
+ * roles whose accessible name can be computed from the content
+ */
+const NAME_FROM_CONTENT = ["button", "link", "tab", "option", "checkbox"];
+
+const IMPLICIT_ROLES = { "BUTTON": "button", "A": "link", "INPUT": "textbox", "TEXTAREA": "textbox", "SELECT": "listbox" };
+
+
+/**
+ * find elements of the rendered tree exposing role without accessible name
+ * subtrees hidden by aria-hidden are skipped
+ * @param {Element} root root of the audited tree
+ * @return {string[]} descriptions of the problems (e.g. "button#save has no accessible name")
+ */
+export function auditAccessibleNames(root: Element): string[] {
+    let result: string[] = [];
+    let elements: Element[] = [root].concat(Array.prototype.slice.call(root.querySelectorAll("*")));
+
+    for (let element of elements) {
+        let role: string = getRole(element);
+
+        if (NAMED_ROLES.indexOf(role) == -1 || isHidden(element, root))
+            continue;
+
+        if (!getAccessibleName(element, role))
+            result.push(describe(element, role) + " has no accessible name");
+    }
+
+    return result;
+}
+
+
+function getRole(element: Element): string {
+    if (element.hasAttribute("role"))
+        return element.getAttribute("role");
+
+    if (element.tagName == "A" && !element.hasAttribute("href"))
+        return null;
+
+    if (element.tagName == "INPUT" && element.getAttribute("type") == "hidden")
+        return null;
+
+    return IMPLICIT_ROLES[element.tagName] || null;
+}
+
+function isHidden(element: Element, root: Element): boolean {
+    for (let current: Element = element; current; current = current.parentElement) {
+        if (current.getAttribute("aria-hidden") == "true")
+            return true;
+
+        if (current === root)
+            break;
+    }
+
+    return false;
+}
+
+function getAccessibleName(element: Element, role: string): string {
+    let name: string = (element.getAttribute("aria-label") || "").trim();
+
+    if (!name && element.hasAttribute("aria-labelledby")) {
+        name = element.getAttribute("aria-labelledby").split(/\s+/).map((id: string) => {
+            let label: Element = element.ownerDocument.getElementById(id);
+            return label ? label.textContent : "";
+        }).join(" ").trim();
+    }
+
+    if (!name && element.id) {
+        let label: Element = element.ownerDocument.querySelector("label[for='" + element.id + "']");
+        name = label ? label.textContent.trim() : "";
+    }
+
+    if (!name && NAME_FROM_CONTENT.indexOf(role) != -1)
+        name = element.textContent.trim();
+
+    return name || (element.getAttribute("title") || "").trim();
+}
+
+function describe(element: Element, role: string): string {
+    return role + (element.id ? "#" + element.id : " <" + element.tagName.toLowerCase() + ">");
+}
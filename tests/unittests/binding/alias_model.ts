@@ -0,0 +1,60 @@
+import { ObservableModel, AliasModel, ModelChangeEvent } from "../../../src/binding"
+import { expect } from "chai"
+
+
+describe("Alias model", () => {
+
+    function createParent() : ObservableModel {
+        return new ObservableModel({ todos: [ { name: "foo" }, { name: "bar" } ], title: "list" });
+    }
+
+    it("translate aliased paths", () => {
+        let model = new AliasModel(createParent(), "item", "todos.1");
+
+        expect(model.get("item.name")).to.eq("bar");
+        expect(model.get("title")).to.eq("list");
+    });
+
+    it("set aliased value to the parent", () => {
+        let parent = createParent();
+        let model = new AliasModel(parent, "item", "todos.0");
+
+        model.set("item.name", "baz");
+
+        expect(parent.get("todos.0.name")).to.eq("baz");
+    });
+
+    it("translate parent changes back", () => {
+        let parent = createParent();
+        let model = new AliasModel(parent, "item", "todos.0");
+        let paths: string[] = [];
+
+        model.addEventListener(ObservableModel.EVENT_CHANGE, (evt: ModelChangeEvent) => { paths.push(evt.path); });
+        parent.set("todos.0.name", "baz");
+
+        expect(paths).to.deep.eq([ "todos.0.name", "item.name" ]);
+    });
+
+    it("retarget dispatches change of the alias", () => {
+        let model = new AliasModel(createParent(), "item", "todos.0");
+        let received: ModelChangeEvent = null;
+
+        model.addEventListener(ObservableModel.EVENT_CHANGE, (evt: ModelChangeEvent) => { received = evt; });
+        model.retarget("todos.1");
+
+        expect(received.path).to.eq("item");
+        expect(model.get("item.name")).to.eq("bar");
+    });
+
+    it("dispose stops listening", () => {
+        let parent = createParent();
+        let model = new AliasModel(parent, "item", "todos.0");
+        let counter = 0;
+
+        model.addEventListener(ObservableModel.EVENT_CHANGE, () => { ++counter; });
+        model.dispose();
+        parent.set("title", "other");
+
+        expect(counter).to.eq(0);
+    });
+});
@@ -0,0 +1,43 @@
+import { ObservableModel, ModelChangeEvent } from "../../../src/binding"
+import { expect } from "chai"
+
+
+describe("Observable model", () => {
+
+    it("get value by path", () => {
+        let model = new ObservableModel({ user: { name: "foo" } });
+
+        expect(model.get("user.name")).to.eq("foo");
+        expect(model.get("user.surname")).to.be.undefined;
+        expect(model.get("address.street")).to.be.undefined;
+    });
+
+    it("set value creates missing objects", () => {
+        let model = new ObservableModel();
+        model.set("user.name", "foo");
+
+        expect(model.data["user"]["name"]).to.eq("foo");
+    });
+
+    it("set value dispatches change event", () => {
+        let model = new ObservableModel({ user: { name: "foo" } });
+        let received: ModelChangeEvent = null;
+
+        model.addEventListener(ObservableModel.EVENT_CHANGE, (evt: ModelChangeEvent) => { received = evt; });
+        model.set("user.name", "bar");
+
+        expect(received.path).to.eq("user.name");
+        expect(received.oldValue).to.eq("foo");
+        expect(received.newValue).to.eq("bar");
+    });
+
+    it("set same value does not dispatch change event", () => {
+        let model = new ObservableModel({ name: "foo" });
+        let counter = 0;
+
+        model.addEventListener(ObservableModel.EVENT_CHANGE, () => { ++counter; });
+        model.set("name", "foo");
+
+        expect(counter).to.eq(0);
+    });
+});
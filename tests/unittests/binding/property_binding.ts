@@ -0,0 +1,115 @@
+import { ObservableModel, PropertyBinding } from "../../../src/binding"
+import { ControllerBase } from "../../../src/component"
+import { defineComponent } from "../../../src/definition"
+import { createComponentFixture, insertComponents, ComponentFixture } from "../component/utils"
+import { expect } from "chai"
+
+
+class Counter extends ControllerBase {
+
+    public count: number = 0;
+
+    public increment() : void {
+        ++this.count;
+        this._dispatchLocalEvent(ControllerBase.EVENT_CHANGE);
+    }
+}
+
+
+describe("Property binding", () => {
+
+    let model: ObservableModel;
+    let fixture: ComponentFixture;
+
+    function insert(html: string) : ControllerBase {
+        return insertComponents(fixture, html)[0];
+    }
+
+    beforeEach(() => {
+        fixture = createComponentFixture();
+        model = new ObservableModel({ user: { name: "Ann", count: 1 } });
+        fixture.serviceManager.registerService("owl.model", () => { return model; });
+
+        defineComponent({
+            name: "counter",
+            template: "<div class='counter' owl-entry='tooltip'><span owl-entry='label'></span><input owl-entry='field'></div>",
+            entries: { label: "text", tooltip: "attribute:title" },
+            controller: Counter
+        })(fixture.factory, fixture.serviceManager);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("write model value to the controller property", () => {
+        let counter = <Counter>insert("<owl:counter bind:count='user.count'></owl:counter>");
+
+        expect(counter.count).to.eq(1);
+
+        model.set("user.count", 5);
+        expect(counter.count).to.eq(5);
+
+        model.set("user", { count: 7 });
+        expect(counter.count).to.eq(7);
+    });
+
+    it("write model value to the entry nodes", () => {
+        let counter = insert("<owl:counter bind:label='user.name' bind:tooltip='user.name' bind:field='user.name'></owl:counter>");
+        let element = <HTMLElement>counter.view.node;
+
+        model.set("user.name", "Bob");
+
+        expect(element.querySelector("span").textContent).to.eq("Bob");
+        expect(element.getAttribute("title")).to.eq("Bob");
+        expect(element.querySelector("input").value).to.eq("Bob");
+
+        model.set("user.name", null);
+
+        expect(element.querySelector("span").textContent).to.eq("");
+    });
+
+    it("write controller property back on change event", () => {
+        let counter = <Counter>insert("<owl:counter bind:count='user.count'></owl:counter>");
+
+        counter.increment();
+
+        expect(model.get("user.count")).to.eq(2);
+    });
+
+    it("write input entry back on input event", () => {
+        let counter = insert("<owl:counter bind:field='user.name'></owl:counter>");
+        let input = (<HTMLElement>counter.view.node).querySelector("input");
+
+        input.value = "Bob";
+        input.dispatchEvent(new Event("input"));
+
+        expect(model.get("user.name")).to.eq("Bob");
+    });
+
+    it("stop updating when disconnected", () => {
+        let counter = <Counter>insert("<owl:counter></owl:counter>");
+        let binding = new PropertyBinding(counter, "count", "user.count");
+
+        binding.connect(model);
+        expect(counter.count).to.eq(1);
+        expect(binding.property).to.eq("count");
+        expect(binding.path).to.eq("user.count");
+
+        binding.disconnect();
+        model.set("user.count", 3);
+        counter.increment();
+
+        expect(counter.count).to.eq(2);
+        expect(model.get("user.count")).to.eq(3);
+    });
+
+    it("disconnect bindings of destroyed controller", () => {
+        let counter = <Counter>insert("<owl:counter bind:count='user.count'></owl:counter>");
+
+        counter.destroy();
+        model.set("user.count", 9);
+
+        expect(counter.count).to.eq(1);
+    });
+});
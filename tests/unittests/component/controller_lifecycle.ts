@@ -0,0 +1,55 @@
+import { ControllerBase } from "../../../src/component"
+import { defineComponent } from "../../../src/definition"
+import { createComponentFixture, insertComponents, ComponentFixture } from "./utils"
+import { expect } from "chai"
+
+
+describe("Controller lifecycle", () => {
+
+    let fixture: ComponentFixture;
+
+    beforeEach(() => {
+        fixture = createComponentFixture();
+
+        defineComponent({
+            name: "panel",
+            template: "<section class='panel'><div owl-entry='content'></div></section>"
+        })(fixture.factory, fixture.serviceManager);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("destroy controller which was not set up", () => {
+        let controller = new ControllerBase("panel");
+        let destroyed = false;
+
+        controller.addEventListener(ControllerBase.EVENT_DESTROYED, () => { destroyed = true; });
+        controller.destroy();
+
+        expect(destroyed).to.be.true;
+        expect(controller.destroyed).to.be.true;
+    });
+
+    it("remove view and unregister destroyed controller", () => {
+        let panel: ControllerBase = insertComponents(fixture, "<owl:panel id='panel'></owl:panel>")[0];
+
+        panel.destroy();
+
+        expect(() => { fixture.controllerManager.get("panel"); }).to.throw("not registered");
+        expect(document.body.querySelector(".panel")).to.be.null;
+    });
+
+    it("release listeners after destroyed event", () => {
+        let panel: ControllerBase = insertComponents(fixture, "<owl:panel id='panel'></owl:panel>")[0];
+        let events = new Array<string>();
+
+        panel.addEventListener(ControllerBase.EVENT_DESTROYED, () => { events.push("destroyed"); });
+        panel.addEventListener("*", (evt) => { events.push("*:" + evt.type); });
+        panel.destroy();
+
+        expect(events).to.deep.eq(["*:beforeDestroy", "destroyed", "*:destroyed"]);
+        expect(panel.hasListeners(ControllerBase.EVENT_DESTROYED)).to.be.false;
+    });
+});
@@ -0,0 +1,90 @@
+import { ControllerBase, ComponentFactory } from "../../../src/component"
+import { CommonHtmlText } from "../../../src/dom"
+import { defineComponent } from "../../../src/definition"
+import { createComponentFixture, insertComponents, ComponentFixture } from "./utils"
+import { expect } from "chai"
+
+
+class Card extends ControllerBase {
+
+    public title: string = null;
+}
+
+
+describe("Shadow DOM components", () => {
+
+    let fixture: ComponentFixture;
+
+    beforeEach(() => {
+        fixture = createComponentFixture();
+
+        defineComponent({
+            name: "card",
+            template: "<div class='card'><b owl-entry='title'>{{ this.title }}</b><div owl-entry='content'></div></div>",
+            entries: { title: "text" },
+            options: { title: {} },
+            shadowDom: true,
+            styles: [".card { color: red; }"],
+            controller: Card
+        })(fixture.factory, fixture.serviceManager);
+
+        defineComponent({
+            name: "panel",
+            template: "<section class='panel'><div owl-entry='content'></div></section>"
+        })(fixture.factory, fixture.serviceManager);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("attach rendered content to the shadow root of the host", () => {
+        let card: ControllerBase = insertComponents(fixture, "<owl:card id='card' title='Cards'></owl:card>")[0];
+        let host = <HTMLElement>card.view.node;
+
+        expect(host.classList.contains(ComponentFactory.SHADOW_HOST_CLASS)).to.be.true;
+        expect(host.id).to.eq("card");
+        expect(host.childNodes.length).to.eq(0);
+        expect(host.shadowRoot.querySelector(".card")).to.not.be.null;
+        expect(host.shadowRoot.querySelector("style").textContent).to.eq(".card { color: red; }");
+    });
+
+    it("keep entry nodes inside the shadow root", () => {
+        let card: ControllerBase = insertComponents(fixture, "<owl:card id='card'><i>body</i></owl:card>")[0];
+        let host = <HTMLElement>card.view.node;
+
+        expect(card.getEntry("title")).to.be.instanceof(CommonHtmlText);
+        expect(host.shadowRoot.contains(card.getEntry("title").node)).to.be.true;
+        expect(host.shadowRoot.querySelector(".card > div").innerHTML).to.eq("<i>body</i>");
+    });
+
+    it("evaluate interpolations in the shadow root", () => {
+        let card = <Card>insertComponents(fixture, "<owl:card id='card' title='Cards'></owl:card>")[0];
+        let title: Element = (<HTMLElement>card.view.node).shadowRoot.querySelector("b");
+
+        card.detectChanges();
+        expect(title.textContent).to.eq("Cards");
+
+        card.title = "Tasks";
+        card.detectChanges();
+        expect(title.textContent).to.eq("Tasks");
+    });
+
+    it("insert nested components and track their parents", () => {
+        let controllers: ControllerBase[] = insertComponents(fixture,
+            "<owl:card id='outer'>" +
+                "<owl:panel id='panel'><owl:card id='inner'></owl:card></owl:panel>" +
+            "</owl:card>");
+        let outer: ControllerBase = fixture.controllerManager.get("outer");
+        let panel: ControllerBase = fixture.controllerManager.get("panel");
+        let inner: ControllerBase = fixture.controllerManager.get("inner");
+
+        expect(controllers.length).to.eq(3);
+        expect(outer.parent).to.equal(fixture.root);
+        expect(panel.parent).to.equal(outer);
+        expect(inner.parent).to.equal(panel);
+        expect(outer.children).to.deep.eq([panel]);
+        expect((<HTMLElement>outer.view.node).shadowRoot.contains(panel.view.node)).to.be.true;
+        expect((<HTMLElement>outer.view.node).shadowRoot.querySelector("owl\\:card")).to.be.null;
+    });
+});
@@ -0,0 +1,50 @@
+
+import { ComponentFactory, ComponentInserter, ControllerBase, ControllerManager } from "../../../src/component"
+import { ServiceManager } from "../../../src/service_management"
+import { RenderResult, EntryNodeLookup } from "../../../src/rendering"
+import { DomManipulator } from "../../../src/dom"
+
+
+/**
+ * services and root controller needed to insert components into the document
+ */
+export interface ComponentFixture {
+    serviceManager: ServiceManager;
+    manipulator: DomManipulator;
+    factory: ComponentFactory;
+    controllerManager: ControllerManager;
+    root: ControllerBase;
+    inserter: ComponentInserter;
+}
+
+export function createComponentFixture(serviceManager: ServiceManager=new ServiceManager()) : ComponentFixture {
+    let manipulator = new DomManipulator(window, document.body);
+    let factory = new ComponentFactory(serviceManager, manipulator);
+    let controllerManager = new ControllerManager();
+    let root = new ControllerBase("root");
+    let inserter: ComponentInserter = null;
+
+    serviceManager.registerService("owl.controllerManager", () => { return controllerManager; });
+    serviceManager.registerService("owl.componentInserter", () => { return inserter; });
+
+    root.serviceManager = serviceManager;
+    root.setup(new RenderResult(manipulator.createNewFragment("<div></div>"), new EntryNodeLookup()), {});
+    document.body.appendChild(root.view.node);
+    inserter = new ComponentInserter(factory, controllerManager, root);
+
+    return {
+        serviceManager: serviceManager,
+        manipulator: manipulator,
+        factory: factory,
+        controllerManager: controllerManager,
+        root: root,
+        inserter: inserter
+    };
+}
+
+export function insertComponents(fixture: ComponentFixture, html: string) : ControllerBase[] {
+    let element = <HTMLElement>fixture.root.view.node;
+
+    element.innerHTML = html;
+    return fixture.inserter.insertComponentsInto(element);
+}
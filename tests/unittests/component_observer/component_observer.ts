@@ -0,0 +1,124 @@
+import { ComponentObserver } from "../../../src/component_observer"
+import { ControllerBase, ControllerManager } from "../../../src/component"
+import { defineComponent } from "../../../src/definition"
+import { createComponentFixture, ComponentFixture } from "../component/utils"
+import { expect } from "chai"
+
+
+describe("Component observer", () => {
+
+    let root: ControllerBase;
+    let rootElement: HTMLElement;
+    let controllerManager: ControllerManager;
+    let observer: ComponentObserver;
+
+    /**
+     * mutation records are delivered asynchronously
+     */
+    function nextTick() : Promise<void> {
+        return new Promise<void>((resolve: Function) => { setTimeout(resolve, 0); });
+    }
+
+    beforeEach(() => {
+        let fixture: ComponentFixture = createComponentFixture();
+
+        root = fixture.root;
+        rootElement = <HTMLElement>root.view.node;
+        controllerManager = fixture.controllerManager;
+
+        defineComponent({
+            name: "panel",
+            template: "<section class='panel'><div owl-entry='content'></div></section>"
+        })(fixture.factory, fixture.serviceManager);
+
+        observer = new ComponentObserver(fixture.inserter, root);
+    });
+
+    afterEach(() => {
+        observer.stop();
+        document.body.innerHTML = "";
+    });
+
+    it("start and stop observing", () => {
+        expect(observer.isObserving).to.be.false;
+
+        observer.start();
+        expect(observer.isObserving).to.be.true;
+
+        observer.stop();
+        expect(observer.isObserving).to.be.false;
+    });
+
+    it("insert components of added subtree", () => {
+        let container = document.createElement("div");
+
+        observer.start();
+        container.innerHTML = "<owl:panel id='outer'><owl:panel id='inner'></owl:panel></owl:panel>";
+        rootElement.appendChild(container);
+
+        return nextTick().then(() => {
+            let outer: ControllerBase = controllerManager.get("outer");
+
+            expect(outer.parent).to.eq(root);
+            expect(outer.children).to.deep.eq([controllerManager.get("inner")]);
+            expect(rootElement.querySelectorAll(".panel").length).to.eq(2);
+        });
+    });
+
+    it("destroy components of removed subtree", () => {
+        let container = document.createElement("div");
+        let outer: ControllerBase;
+        let inner: ControllerBase;
+
+        observer.start();
+        container.innerHTML = "<owl:panel id='outer'><owl:panel id='inner'></owl:panel></owl:panel>";
+        rootElement.appendChild(container);
+
+        return nextTick().then(() => {
+            outer = controllerManager.get("outer");
+            inner = controllerManager.get("inner");
+            rootElement.removeChild(container);
+
+            return nextTick();
+        }).then(() => {
+            expect(outer.destroyed).to.be.true;
+            expect(inner.destroyed).to.be.true;
+            expect(root.children.length).to.eq(0);
+            expect(controllerManager.has("outer")).to.be.false;
+        });
+    });
+
+    it("destroy only detached components", () => {
+        let first = document.createElement("div");
+        let second = document.createElement("div");
+
+        observer.start();
+        first.innerHTML = "<owl:panel id='first'></owl:panel>";
+        second.innerHTML = "<owl:panel id='second'></owl:panel>";
+        rootElement.appendChild(first);
+        rootElement.appendChild(second);
+
+        return nextTick().then(() => {
+            rootElement.removeChild(first);
+
+            return nextTick();
+        }).then(() => {
+            expect(controllerManager.has("first")).to.be.false;
+            expect(controllerManager.get("second").destroyed).to.be.false;
+        });
+    });
+
+    it("ignore mutations when stopped", () => {
+        let container = document.createElement("div");
+
+        observer.start();
+        observer.stop();
+        container.innerHTML = "<owl:panel id='outer'></owl:panel>";
+        rootElement.appendChild(container);
+
+        return nextTick().then(() => {
+            expect(controllerManager.has("outer")).to.be.false;
+            expect(root.children.length).to.eq(0);
+        });
+    });
+});
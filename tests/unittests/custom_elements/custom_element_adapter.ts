@@ -0,0 +1,228 @@
+import { CustomElementAdapter } from "../../../src/custom_elements"
+import { ControllerBase, registerFunctionFactory } from "../../../src/component"
+import { CommonHtmlText, CommonHtmlElement, CommonHtmlNode, DomManipulator } from "../../../src/dom"
+import { IRenderer, RenderResult, EntryNodeLookup } from "../../../src/rendering"
+import { defineComponent } from "../../../src/definition"
+import { OptionError } from "../../../src/options"
+import { createComponentFixture, ComponentFixture } from "../component/utils"
+import { expect } from "chai"
+
+
+class Counter extends ControllerBase {
+
+    private _count: number = 0;
+
+    public label: string = null;
+
+    get count(): number {
+        return this._count;
+    }
+
+    set count(val: number) {
+        this._count = val;
+        (<CommonHtmlText>this.getEntry("value")).content = String(val);
+    }
+
+    public increment() : void {
+        this.count = this._count + 1;
+        this._dispatchLocalEvent(ControllerBase.EVENT_CHANGE);
+    }
+}
+
+
+/**
+ * renderer implementing IRenderer without the option schema
+ */
+class PlainRenderer implements IRenderer {
+
+    private _lastResult: RenderResult = null;
+
+    public render(originalNode: CommonHtmlElement, manipulator: DomManipulator, options: Object) : RenderResult {
+        this._lastResult = new RenderResult(manipulator.createNewFragment("<div class='plain'></div>"), new EntryNodeLookup());
+        return this._lastResult;
+    }
+
+    public getLastResult() : RenderResult {
+        return this._lastResult;
+    }
+
+    public getOptions(originalNode: CommonHtmlNode) : Object {
+        return {};
+    }
+}
+
+
+class Plain extends ControllerBase {
+
+    public label: string = null;
+}
+
+
+describe("Custom element adapter", () => {
+
+    /**
+     * custom elements can not be undefined, each test uses its own names
+     */
+    let nextTag: number = 1;
+
+    let fixture: ComponentFixture;
+    let adapter: CustomElementAdapter;
+    let tagName: string;
+
+    function nextMicrotask() : Promise<void> {
+        return Promise.resolve();
+    }
+
+    beforeEach(() => {
+        fixture = createComponentFixture();
+
+        defineComponent({
+            name: "counter",
+            template: "<div class='counter'><span owl-entry='value'></span><div owl-entry='content'></div></div>",
+            entries: { value: "text" },
+            options: { count: { type: "number", default: 0 }, label: {} },
+            controller: Counter
+        })(fixture.factory, fixture.serviceManager);
+
+        adapter = new CustomElementAdapter(fixture.factory, fixture.inserter, fixture.controllerManager, fixture.manipulator);
+        tagName = adapter.define("counter", { tagName: "test-counter-" + nextTag++, observedAttributes: ["count", "label"] });
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("define element", () => {
+        expect(window.customElements.get(tagName)).to.be.a("function");
+        expect(() => { adapter.define("counter", { tagName: tagName }); })
+            .to.throw("Custom element '" + tagName + "' is already defined");
+        expect(() => { adapter.define("missing"); }).to.throw("Component 'missing' does not exist");
+    });
+
+    it("render component on connect", () => {
+        let element = document.createElement(tagName);
+
+        element.setAttribute("count", "5");
+        element.innerHTML = "<b>projected</b>";
+
+        expect(CustomElementAdapter.getController(element)).to.be.null;
+
+        document.body.appendChild(element);
+
+        let controller = <Counter>CustomElementAdapter.getController(element);
+
+        expect(controller).to.be.instanceof(Counter);
+        expect(controller.count).to.eq(5);
+        expect(element.querySelector(".counter span").textContent).to.eq("5");
+        expect(element.querySelector(".counter b").textContent).to.eq("projected");
+    });
+
+    it("write changed attribute to the controller", () => {
+        let element = document.createElement(tagName);
+
+        document.body.appendChild(element);
+
+        let controller = <Counter>CustomElementAdapter.getController(element);
+
+        element.setAttribute("count", "7");
+        element.setAttribute("label", "clicks");
+
+        expect(controller.count).to.eq(7);
+        expect(controller.label).to.eq("clicks");
+
+        element.removeAttribute("count");
+
+        expect(controller.count).to.eq(0);
+    });
+
+    it("coerce only the changed attribute", () => {
+        let element = document.createElement(tagName);
+
+        document.body.appendChild(element);
+
+        let controller = <Counter>CustomElementAdapter.getController(element);
+        let reported: any = null;
+        let listener = (evt: ErrorEvent) => {
+            reported = evt.error;
+            evt.preventDefault();
+        };
+
+        // errors of the element callbacks are reported by the window
+        window.addEventListener("error", listener);
+        element.setAttribute("count", "many");
+        window.removeEventListener("error", listener);
+
+        expect(reported).to.be.instanceof(OptionError);
+
+        // the invalid count attribute is not read again
+        element.setAttribute("label", "clicks");
+
+        expect(controller.label).to.eq("clicks");
+        expect(controller.count).to.eq(0);
+    });
+
+    it("write attribute of renderer without option schema as string", () => {
+        registerFunctionFactory("test.plain", "plain", PlainRenderer, Plain)(fixture.factory, fixture.serviceManager);
+
+        let plainTag: string = adapter.define("plain", { tagName: "test-plain-" + nextTag++, observedAttributes: ["label"] });
+        let element = document.createElement(plainTag);
+
+        document.body.appendChild(element);
+        element.setAttribute("label", "clicks");
+
+        expect((<Plain>CustomElementAdapter.getController(element)).label).to.eq("clicks");
+    });
+
+    it("forward controller events", () => {
+        let element = document.createElement(tagName);
+        let received: CustomEvent = null;
+        let nativeChanges: number = 0;
+
+        document.body.appendChild(element);
+        document.body.addEventListener("owl:change", (evt: CustomEvent) => { received = evt; });
+        document.body.addEventListener("change", () => { ++nativeChanges; });
+
+        (<Counter>CustomElementAdapter.getController(element)).increment();
+
+        expect(received).not.to.be.null;
+        expect(received.target).to.eq(element);
+        expect(received.detail.type).to.eq(ControllerBase.EVENT_CHANGE);
+        expect(nativeChanges).to.eq(0);
+    });
+
+    it("destroy component on disconnect", () => {
+        let element = document.createElement(tagName);
+
+        document.body.appendChild(element);
+
+        let controller = CustomElementAdapter.getController(element);
+
+        document.body.removeChild(element);
+
+        return nextMicrotask().then(() => {
+            expect(controller.destroyed).to.be.true;
+            expect(CustomElementAdapter.getController(element)).to.be.null;
+        });
+    });
+
+    it("keep component of the moved element", () => {
+        let first = document.createElement("div");
+        let second = document.createElement("div");
+        let element = document.createElement(tagName);
+
+        element.innerHTML = "<b>projected</b>";
+        document.body.appendChild(first);
+        document.body.appendChild(second);
+        first.appendChild(element);
+
+        let controller = CustomElementAdapter.getController(element);
+
+        second.appendChild(element);
+
+        return nextMicrotask().then(() => {
+            expect(controller.destroyed).to.be.false;
+            expect(CustomElementAdapter.getController(element)).to.eq(controller);
+            expect(element.querySelector(".counter b").textContent).to.eq("projected");
+        });
+    });
+});
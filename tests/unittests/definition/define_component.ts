@@ -0,0 +1,112 @@
+import { DefinedRenderer, EntryKindLookup, defineComponent } from "../../../src/definition"
+import { ComponentFactory, ComponentInserter, ControllerBase, ControllerManager } from "../../../src/component"
+import { ServiceManager } from "../../../src/service_management"
+import { RenderResult, EntryNodeLookup } from "../../../src/rendering"
+import { DomManipulator, CommonHtmlElement, CommonHtmlText, CommonHtmlAttribute } from "../../../src/dom"
+import { createDomManipulator } from "../dom/utils"
+import { expect } from "chai"
+
+
+class Card extends ControllerBase {
+
+    public count: number = null;
+
+    public title: string = null;
+
+    public collapsed: boolean = null;
+
+    get version(): string {
+        return "1";
+    }
+}
+
+
+describe("Define component", () => {
+
+    function render(template: string, entries: EntryKindLookup, html: string="<div></div>") : RenderResult {
+        let manipulator: DomManipulator = createDomManipulator();
+        let renderer: DefinedRenderer = new DefinedRenderer({ name: "card", template: template, entries: entries });
+
+        return renderer.render(manipulator.createNewFragment(html), manipulator, new Object());
+    }
+
+    it("text entry", () => {
+        let result = render("<div><h2 owl-entry='title'>Default</h2><span owl-entry='count'></span></div>",
+            { title: "text", count: "text" });
+        let title = result.entryNodes["title"];
+        let count = result.entryNodes["count"];
+
+        expect(title).to.be.instanceof(CommonHtmlText);
+        expect((<CommonHtmlText>title).content).to.eq("Default");
+        expect(count).to.be.instanceof(CommonHtmlText);
+
+        (<CommonHtmlText>count).content = "5";
+
+        expect((<CommonHtmlElement>result.rootNode).element.innerHTML).to.eq("<h2>Default</h2><span>5</span>");
+    });
+
+    it("attribute entry", () => {
+        let result = render("<div owl-entry='tooltip'><a owl-entry='link' href='#'>link</a></div>",
+            { tooltip: "attribute:title", link: "attribute:href" });
+        let tooltip = result.entryNodes["tooltip"];
+        let link = result.entryNodes["link"];
+
+        expect(tooltip).to.be.instanceof(CommonHtmlAttribute);
+        expect((<CommonHtmlAttribute>tooltip).value).to.eq("");
+        expect((<CommonHtmlAttribute>link).value).to.eq("#");
+
+        (<CommonHtmlAttribute>tooltip).value = "Card";
+        (<CommonHtmlAttribute>link).value = "/cards";
+
+        expect((<CommonHtmlElement>result.rootNode).element.outerHTML)
+            .to.eq("<div title=\"Card\"><a href=\"/cards\">link</a></div>");
+    });
+
+    it("element entry by default", () => {
+        let result = render("<div><p owl-entry='body'></p></div>", {});
+
+        expect(result.entryNodes["body"]).to.be.instanceof(CommonHtmlElement);
+        expect(() => { render("<div><p owl-entry='body'></p></div>", { body: "comment" }); })
+            .to.throw("Unknown kind 'comment' of the entry 'body'");
+    });
+
+    it("reject template without one root element", () => {
+        expect(() => { render("<h2>title</h2><p>body</p>", {}); }).to.throw("has to have exactly one root element");
+    });
+
+    it("apply options to the controller properties", () => {
+        let sm = new ServiceManager();
+        let manipulator = new DomManipulator(window, document.body);
+        let factory = new ComponentFactory(sm, manipulator);
+        let controllerManager = new ControllerManager();
+        let root = new ControllerBase("root");
+
+        sm.registerService("owl.controllerManager", () => { return controllerManager; });
+        root.serviceManager = sm;
+        root.setup(new RenderResult(manipulator.createNewFragment("<div></div>"), new EntryNodeLookup()), {});
+
+        defineComponent({
+            name: "card",
+            template: "<div class='card'></div>",
+            options: {
+                count: { type: "number", default: 3 },
+                title: {},
+                collapsed: { type: "boolean" },
+                version: {}
+            },
+            controller: Card
+        })(factory, sm);
+
+        let element = <HTMLElement>root.view.node;
+
+        element.innerHTML = "<owl:card title='Inbox' collapsed version='2'></owl:card>";
+
+        let card = <Card>new ComponentInserter(factory, controllerManager, root).insertComponentsInto(element)[0];
+
+        expect(card).to.be.instanceof(Card);
+        expect(card.count).to.eq(3);
+        expect(card.title).to.eq("Inbox");
+        expect(card.collapsed).to.be.true;
+        expect(card.version).to.eq("1");
+    });
+});
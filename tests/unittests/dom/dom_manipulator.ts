@@ -1,5 +1,5 @@
 
-import { DomManipulator, CommonHtmlNode, CommonHtmlElement, CommonHtmlAttribute, CommonHtmlComment, CommonHtmlText } from "../../../src/dom";
+import { DomManipulator, CommonHtmlNode, CommonHtmlElement, CommonHtmlAttribute, CommonHtmlComment, CommonHtmlText, containsNode } from "../../../src/dom";
 import { createSampleFragment, createDomManipulator, createRootElement, createSampleHtml, appendSampleFragment } from "./utils";
 import { expect } from "chai";
 
@@ -32,4 +32,70 @@ describe("Test dom manipulator", () => {
         expect(mapped).is.equal(second);
     });
 
-});
\ No newline at end of file
+    it("release node", () => {
+        let manipulator = createDomManipulator();
+        let fragment = appendSampleFragment(manipulator);
+        let child = fragment.chidlren[0];
+
+        manipulator.releaseNode(fragment.node);
+
+        expect(manipulator.mapNode(fragment.node)).is.not.equal(fragment);
+        expect(manipulator.mapNode(child.node)).is.not.equal(child);
+    });
+
+    it("parse HTML with one root element", () => {
+        let dm = createDomManipulator();
+
+        expect(dm.createNewFragment("\n  <p>foo</p>\n").element.outerHTML).to.equal("<p>foo</p>");
+        expect(() => { dm.createNewFragment("<p>foo</p><p>bar</p>"); }).to.throw("has to have exactly one root element");
+        expect(() => { dm.createNewFragment("<p>foo</p>bar"); }).to.throw("has to have exactly one root element");
+        expect(() => { dm.createNewFragment("<p>bar</p><!-- foo -->"); }).to.throw("has to have exactly one root element");
+        expect(() => { dm.createNewFragment(""); }).to.throw("has to have exactly one root element");
+    });
+
+    it("parse HTML with more top level nodes", () => {
+        let dm = createDomManipulator();
+        let nodes = dm.createNodes("<span>foo</span>bar<p>foobar</p>");
+
+        expect(nodes).length(3);
+        expect(nodes[0]).instanceof(CommonHtmlElement);
+        expect(nodes[1]).instanceof(CommonHtmlText);
+    });
+
+    it("attach shadow root", () => {
+        let manipulator = createDomManipulator();
+        let host = manipulator.createElement("div");
+
+        let shadowRoot = manipulator.attachShadowRoot(host, ["p { color: red; }"]);
+
+        expect(host.element.shadowRoot).to.equal(shadowRoot);
+        expect(shadowRoot.firstChild.textContent).to.equal("p { color: red; }");
+    });
+
+    it("release shadow root content", () => {
+        let manipulator = createDomManipulator();
+        let host = manipulator.createElement("div");
+        let shadowRoot = manipulator.attachShadowRoot(host, []);
+        let fragment = createSampleFragment(manipulator);
+
+        shadowRoot.appendChild(fragment.node);
+        manipulator.releaseNode(host.node);
+
+        expect(manipulator.mapNode(fragment.node)).is.not.equal(fragment);
+    });
+
+    it("contains node across shadow root", () => {
+        let manipulator = createDomManipulator();
+        let host = manipulator.createElement("div");
+        let shadowRoot = manipulator.attachShadowRoot(host, []);
+        let fragment = appendSampleFragment(manipulator);
+        let inner = document.createElement("p");
+
+        fragment.element.appendChild(host.element);
+        shadowRoot.appendChild(inner);
+
+        expect(containsNode(manipulator.rootElement.node, inner)).to.be.true;
+        expect(containsNode(fragment.node, manipulator.rootElement.node)).to.be.false;
+    });
+
+});
@@ -0,0 +1,90 @@
+import { EventBus, BusMessage } from "../../../src/event_bus";
+import { EventDispatcher, OwlEvent } from "../../../src/events";
+import { ControllerBase } from "../../../src/component";
+import { expect } from "chai";
+
+
+describe("Event bus", () => {
+
+    interface UserPayload {
+        name: string;
+    }
+
+    it("publish and subscribe", () => {
+        let bus = new EventBus();
+        let received: UserPayload[] = [];
+
+        bus.subscribe<UserPayload>("user", (payload: UserPayload) => { received.push(payload); });
+        bus.publish<UserPayload>("user", { name: "john" });
+        bus.publish<UserPayload>("other", { name: "jane" });
+
+        expect(received).to.deep.eq([{ name: "john" }]);
+    });
+
+    it("message describes channel", () => {
+        let bus = new EventBus();
+        let message: BusMessage<number> = null;
+
+        bus.subscribe<number>("counter", (payload: number, msg: BusMessage<number>) => { message = msg; });
+        bus.publish("counter", 3);
+
+        expect(message.channel).to.eq("counter");
+        expect(message.payload).to.eq(3);
+    });
+
+    it("unsubscribe", () => {
+        let bus = new EventBus();
+        let counter = 0;
+
+        let unsubscribe = bus.subscribe("counter", () => { counter++; });
+        bus.publish("counter", 1);
+        unsubscribe();
+        bus.publish("counter", 2);
+
+        expect(counter).to.eq(1);
+    });
+
+    it("replay last message", () => {
+        let bus = new EventBus();
+        let received: number[] = [];
+
+        bus.publish("counter", 1);
+        bus.publish("counter", 2);
+        bus.subscribe<number>("counter", (payload: number) => { received.push(payload); }, null, true);
+        bus.subscribe<number>("counter", (payload: number) => { received.push(-payload); });
+
+        expect(received).to.deep.eq([2]);
+    });
+
+    it("replay on empty channel", () => {
+        let bus = new EventBus();
+        let counter = 0;
+
+        bus.subscribe("counter", () => { counter++; }, null, true);
+
+        expect(counter).to.eq(0);
+    });
+
+    it("unsubscribe destroyed owner", () => {
+        let bus = new EventBus();
+        let owner = new EventDispatcher();
+        let counter = 0;
+
+        bus.subscribe("counter", () => { counter++; }, owner);
+        owner.dispatchEvent(new OwlEvent(ControllerBase.EVENT_DESTROYED));
+        bus.publish("counter", 1);
+
+        expect(counter).to.eq(0);
+        expect(owner.hasListeners(ControllerBase.EVENT_DESTROYED)).to.be.false;
+    });
+
+    it("manual unsubscribe releases owner", () => {
+        let bus = new EventBus();
+        let owner = new EventDispatcher();
+
+        let unsubscribe = bus.subscribe("counter", () => {}, owner);
+        unsubscribe();
+
+        expect(owner.hasListeners(ControllerBase.EVENT_DESTROYED)).to.be.false;
+    });
+});
@@ -0,0 +1,58 @@
+import { EventDispatcher, OwlEvent, DispatchReport } from "../../../src/events";
+import { expect } from "chai";
+
+
+describe("Asynchronous dispatching", () => {
+
+    function delay(ms: number, value: any) : Promise<any> {
+        return new Promise((resolve) => { setTimeout(() => { resolve(value); }, ms); });
+    }
+
+    it("await handlers in order", () => {
+        let dispatcher = new EventDispatcher();
+        let calls: string[] = [];
+
+        dispatcher.addEventListener("myEvent", () => {
+            return delay(10, "first").then((value: string) => { calls.push(value); return value; });
+        });
+        dispatcher.addEventListener("myEvent", () => {
+            calls.push("second");
+            return "second";
+        });
+
+        return dispatcher.dispatchEventAsync(new OwlEvent("myEvent")).then((report: DispatchReport) => {
+            expect(calls).to.deep.eq(["first", "second"]);
+            expect(report.results).to.deep.eq(["first", "second"]);
+            expect(report.failed).to.be.false;
+        });
+    });
+
+    it("collect errors", () => {
+        let dispatcher = new EventDispatcher();
+        let error1 = new Error("thrown"), error2 = new Error("rejected");
+
+        dispatcher.addEventListener("myEvent", () => { throw error1; });
+        dispatcher.addEventListener("myEvent", () => { return Promise.reject(error2); });
+        dispatcher.addEventListener("myEvent", () => { return 42; });
+
+        return dispatcher.dispatchEventAsync(new OwlEvent("myEvent")).then((report: DispatchReport) => {
+            expect(report.failed).to.be.true;
+            expect(report.errors).to.deep.eq([error1, error2]);
+            expect(report.results).to.deep.eq([42]);
+        });
+    });
+
+    it("stop immediate propagation", () => {
+        let dispatcher = new EventDispatcher();
+        let calls: string[] = [];
+
+        dispatcher.addEventListener("myEvent", (evt: OwlEvent) => {
+            return delay(1, null).then(() => { evt.stopImmediatePropagation(); });
+        });
+        dispatcher.addEventListener("myEvent", () => { calls.push("second"); });
+
+        return dispatcher.dispatchEventAsync(new OwlEvent("myEvent")).then(() => {
+            expect(calls).to.deep.eq([]);
+        });
+    });
+});
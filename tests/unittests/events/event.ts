@@ -11,4 +11,17 @@ describe("Test event class", () => {
         expect(e.type).to.eq(eventType);
     });
 
+    it("prevent default", () => {
+        let e = new OwlEvent("myEvent", null, false, true);
+        e.preventDefault();
+
+        expect(e.defaultPrevented).to.be.true;
+    });
+
+    it("prevent default of not cancelable event", () => {
+        let e = new OwlEvent("myEvent");
+        e.preventDefault();
+
+        expect(e.defaultPrevented).to.be.false;
+    });
 });
@@ -1,4 +1,4 @@
-import { EventDispatcher, OwlEvent } from "../../../src/events";
+import { EventDispatcher, OwlEvent, HandlerErrorEvent } from "../../../src/events";
 import { expect } from "chai";
 
 
@@ -87,5 +87,211 @@ describe("EventDispatcher class", () => {
         expect(firstEventOrder).to.eq(1);
         expect(secondEventOrder).to.eq(2);
     });
-});
 
+    it("Remove listener by remover", () => {
+        let dispatcher = new EventDispatcher();
+        let calls: string[] = [];
+
+        let remover = dispatcher.addEventListener("myEvent", () => { calls.push("first"); });
+        dispatcher.addEventListener("myEvent", () => { calls.push("second"); });
+
+        remover();
+        remover();
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+
+        expect(calls).to.deep.eq(["second"]);
+    });
+
+    it("Remove listener by callback and context", () => {
+        let dispatcher = new EventDispatcher();
+        let context1 = {}, context2 = {};
+        let calls: Object[] = [];
+        let callback = function() { calls.push(this); };
+
+        dispatcher.addEventListener("myEvent", callback, context1);
+        dispatcher.addEventListener("myEvent", callback, context2);
+
+        expect(dispatcher.removeEventListener("myEvent", callback, context1)).to.be.true;
+        expect(dispatcher.removeEventListener("myEvent", callback, context1)).to.be.false;
+
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+
+        expect(calls).to.have.length(1);
+        expect(calls[0]).to.equal(context2);
+    });
+
+    it("Remove listener during dispatch", () => {
+        let dispatcher = new EventDispatcher();
+        let calls: string[] = [];
+        let secondRemover: Function = null;
+
+        dispatcher.addEventListener("myEvent", () => {
+            calls.push("first");
+            secondRemover();
+        });
+        secondRemover = dispatcher.addEventListener("myEvent", () => { calls.push("second"); });
+        dispatcher.addEventListener("myEvent", () => { calls.push("third"); });
+
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+
+        expect(calls).to.deep.eq(["first", "third"]);
+    });
+
+    it("Add listener during dispatch", () => {
+        let dispatcher = new EventDispatcher();
+        let calls: string[] = [];
+
+        dispatcher.addEventListener("myEvent", () => {
+            calls.push("first");
+            dispatcher.addEventListener("myEvent", () => { calls.push("added"); });
+        });
+
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+        expect(calls).to.deep.eq(["first"]);
+    });
+
+    it("Once listener", () => {
+        let dispatcher = new EventDispatcher();
+        let counter = 0;
+
+        dispatcher.once("myEvent", () => { counter++; });
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+
+        expect(counter).to.eq(1);
+        expect(dispatcher.hasListeners("myEvent")).to.be.false;
+    });
+
+    it("Listener priority", () => {
+        let dispatcher = new EventDispatcher();
+        let calls: string[] = [];
+
+        dispatcher.addEventListener("myEvent", () => { calls.push("default"); });
+        dispatcher.addEventListener("myEvent", () => { calls.push("low"); }, null, { priority: -1 });
+        dispatcher.addEventListener("myEvent", () => { calls.push("high"); }, null, { priority: 10 });
+        dispatcher.addEventListener("myEvent", () => { calls.push("default2"); });
+
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+
+        expect(calls).to.deep.eq(["high", "default", "default2", "low"]);
+    });
+
+    it("Wildcard listener", () => {
+        let dispatcher = new EventDispatcher();
+        let types: string[] = [];
+
+        dispatcher.addEventListener("*", (evt: OwlEvent) => { types.push(evt.type); });
+        dispatcher.dispatchEvent(new OwlEvent("first"));
+        dispatcher.dispatchEvent(new OwlEvent("second"));
+
+        expect(types).to.deep.eq(["first", "second"]);
+        expect(dispatcher.hasListeners("anything")).to.be.true;
+    });
+
+    it("Remove all listeners", () => {
+        let dispatcher = new EventDispatcher();
+        let resolver1 = addSimpleListener(dispatcher, "first");
+        let resolver2 = addSimpleListener(dispatcher, "second");
+
+        dispatcher.removeAllListeners("first");
+
+        expect(dispatcher.hasListeners("first")).to.be.false;
+        expect(dispatcher.hasListeners("second")).to.be.true;
+
+        dispatcher.removeAllListeners();
+        dispatcher.dispatchEvent(new OwlEvent("first"));
+        dispatcher.dispatchEvent(new OwlEvent("second"));
+
+        expect(dispatcher.hasListeners("second")).to.be.false;
+        resolver1(false);
+        resolver2(false);
+    });
+
+    it("Log handler error", () => {
+        let dispatcher = new EventDispatcher();
+        let resolver = addSimpleListener(dispatcher, "myEvent");
+        let originalError = console.error;
+        let logged: any[] = [];
+
+        dispatcher.addEventListener("myEvent", () => { throw new Error("failed"); }, null, { priority: 1 });
+        console.error = (err: any) => { logged.push(err); };
+
+        try {
+            dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+        } finally {
+            console.error = originalError;
+        }
+
+        expect(logged).to.have.length(1);
+        resolver(true);
+    });
+
+    it("Rethrow handler error", () => {
+        let dispatcher = new EventDispatcher();
+        let resolver = addSimpleListener(dispatcher, "myEvent");
+
+        dispatcher.errorPolicy = "rethrow";
+        dispatcher.addEventListener("myEvent", () => { throw new Error("failed"); }, null, { priority: 1 });
+
+        expect(() => { dispatcher.dispatchEvent(new OwlEvent("myEvent")); }).to.throw("failed");
+        resolver(false);
+    });
+
+    it("Drop queued events after rethrown error", () => {
+        let dispatcher = new EventDispatcher();
+        let received: string[] = [];
+
+        dispatcher.errorPolicy = "rethrow";
+        dispatcher.addEventListener("first", () => {
+            dispatcher.dispatchEvent(new OwlEvent("queued"));
+            throw new Error("failed");
+        });
+        dispatcher.addEventListener("queued", () => { received.push("queued"); });
+        dispatcher.addEventListener("second", () => { received.push("second"); });
+
+        expect(() => { dispatcher.dispatchEvent(new OwlEvent("first")); }).to.throw("failed");
+
+        dispatcher.dispatchEvent(new OwlEvent("second"));
+
+        expect(received).to.deep.eq(["second"]);
+    });
+
+    it("Route handler error to error event", () => {
+        let dispatcher = new EventDispatcher();
+        let error = new Error("failed");
+        let event = new OwlEvent("myEvent");
+        let received: HandlerErrorEvent = null;
+
+        dispatcher.errorPolicy = "event";
+        dispatcher.addEventListener("myEvent", () => { throw error; });
+        dispatcher.addEventListener(EventDispatcher.EVENT_ERROR, (evt: HandlerErrorEvent) => { received = evt; });
+
+        dispatcher.dispatchEvent(event);
+
+        expect(received.error).to.equal(error);
+        expect(received.failedEvent).to.equal(event);
+    });
+
+    it("Dispatch cancelable event", () => {
+        let dispatcher = new EventDispatcher();
+
+        dispatcher.addEventListener("myEvent", (evt: OwlEvent) => { evt.preventDefault(); });
+
+        expect(dispatcher.dispatchEvent(new OwlEvent("myEvent", null, false, true))).to.be.false;
+        expect(dispatcher.dispatchEvent(new OwlEvent("otherEvent", null, false, true))).to.be.true;
+    });
+
+    it("Cancelable event dispatched from handler is processed immediately", () => {
+        let dispatcher = new EventDispatcher();
+        let result: boolean = null;
+
+        dispatcher.addEventListener("before", (evt: OwlEvent) => { evt.preventDefault(); });
+        dispatcher.addEventListener("myEvent", () => {
+            result = dispatcher.dispatchEvent(new OwlEvent("before", null, false, true));
+        });
+
+        dispatcher.dispatchEvent(new OwlEvent("myEvent"));
+
+        expect(result).to.be.false;
+    });
+});
@@ -0,0 +1,114 @@
+import { EventDispatcher, OwlEvent } from "../../../src/events";
+import { expect } from "chai";
+
+
+describe("Event propagation", () => {
+
+    class NodeDispatcher extends EventDispatcher {
+
+        constructor(public name: string, public parent: NodeDispatcher=null) {
+            super();
+        }
+
+        protected _getPropagationPath() : EventDispatcher[] {
+            let result: EventDispatcher[] = [];
+
+            for (let current = this.parent; current; current = current.parent)
+                result.push(current);
+
+            return result;
+        }
+    }
+
+    function createTree() {
+        let root = new NodeDispatcher("root");
+        let middle = new NodeDispatcher("middle", root);
+        let leaf = new NodeDispatcher("leaf", middle);
+
+        return { root: root, middle: middle, leaf: leaf };
+    }
+
+    function record(log: string[], dispatcher: NodeDispatcher, capture: boolean) {
+        dispatcher.addEventListener("ping", (evt: OwlEvent) => {
+            log.push((capture ? "capture " : "bubble ") + dispatcher.name + " " + evt.eventPhase);
+        }, null, capture);
+    }
+
+    it("capture and bubble phases", () => {
+        let tree = createTree();
+        let log: string[] = [];
+
+        for (let dispatcher of [tree.root, tree.middle, tree.leaf]) {
+            record(log, dispatcher, true);
+            record(log, dispatcher, false);
+        }
+
+        tree.leaf.dispatchEvent(new OwlEvent("ping", null, true));
+
+        expect(log).to.deep.eq([
+            "capture root 1", "capture middle 1", "capture leaf 2",
+            "bubble leaf 2", "bubble middle 3", "bubble root 3"
+        ]);
+    });
+
+    it("not bubbling event", () => {
+        let tree = createTree();
+        let log: string[] = [];
+
+        record(log, tree.root, true);
+        record(log, tree.root, false);
+        record(log, tree.leaf, false);
+
+        tree.leaf.dispatchEvent(new OwlEvent("ping"));
+
+        expect(log).to.deep.eq(["capture root 1", "bubble leaf 2"]);
+    });
+
+    it("target and current target", () => {
+        let tree = createTree();
+        let targets: EventDispatcher[] = [];
+
+        tree.root.addEventListener("ping", (evt: OwlEvent) => { targets.push(evt.target, evt.currentTarget); });
+        tree.leaf.dispatchEvent(new OwlEvent("ping", null, true));
+
+        expect(targets).to.deep.eq([tree.leaf, tree.root]);
+    });
+
+    it("stop propagation", () => {
+        let tree = createTree();
+        let log: string[] = [];
+
+        tree.middle.addEventListener("ping", (evt: OwlEvent) => { evt.stopPropagation(); });
+        record(log, tree.middle, false);
+        record(log, tree.root, false);
+
+        tree.leaf.dispatchEvent(new OwlEvent("ping", null, true));
+
+        expect(log).to.deep.eq(["bubble middle 3"]);
+    });
+
+    it("stop propagation in capturing phase", () => {
+        let tree = createTree();
+        let log: string[] = [];
+
+        tree.root.addEventListener("ping", (evt: OwlEvent) => { evt.stopPropagation(); }, null, true);
+        record(log, tree.leaf, false);
+
+        tree.leaf.dispatchEvent(new OwlEvent("ping", null, true));
+
+        expect(log).to.deep.eq([]);
+    });
+
+    it("stop immediate propagation", () => {
+        let tree = createTree();
+        let log: string[] = [];
+
+        tree.middle.addEventListener("ping", (evt: OwlEvent) => { evt.stopImmediatePropagation(); });
+        record(log, tree.middle, false);
+        record(log, tree.root, false);
+
+        tree.leaf.dispatchEvent(new OwlEvent("ping", null, true));
+
+        expect(log).to.deep.eq([]);
+    });
+});
@@ -0,0 +1,178 @@
+import { FocusManager, RovingTabIndex } from "../../../src/focus";
+import { ControllerBase, ControllerManager, findController } from "../../../src/component";
+import { ServiceManager } from "../../../src/service_management";
+import { RenderResult, EntryNodeLookup } from "../../../src/rendering";
+import { DomManipulator, CommonHtmlElement } from "../../../src/dom";
+import { OwlEvent } from "../../../src/events";
+import { expect } from "chai";
+
+
+describe("Focus management", () => {
+
+    let serviceManager: ServiceManager;
+    let manipulator: DomManipulator;
+
+    function createController(html: string, parent: ControllerBase=null) : ControllerBase {
+        let controller = new ControllerBase("test");
+        let view: CommonHtmlElement = manipulator.createNewFragment(html);
+
+        controller.serviceManager = serviceManager;
+        controller.setup(new RenderResult(view, new EntryNodeLookup()), {});
+        (parent ? <HTMLElement>parent.view.node : document.body).appendChild(view.node);
+        controller.initialize();
+
+        return controller;
+    }
+
+    function keyDown(target: EventTarget, key: string, shiftKey: boolean=false) : Event {
+        let evt = new KeyboardEvent("keydown", { key: key, shiftKey: shiftKey, bubbles: true, cancelable: true });
+        target.dispatchEvent(evt);
+
+        return evt;
+    }
+
+    beforeEach(() => {
+        serviceManager = new ServiceManager();
+        serviceManager.registerService("owl.controllerManager", () => { return new ControllerManager(); });
+        manipulator = new DomManipulator(window, document.body);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("focus and blur controller", () => {
+        let controller = createController("<div></div>");
+
+        expect(controller.focusable).to.be.false;
+
+        controller.focus();
+
+        expect(controller.hasFocus).to.be.true;
+        expect(controller.tabIndex).to.eq(-1);
+        expect(controller.focusable).to.be.false;
+
+        controller.blur();
+
+        expect(controller.hasFocus).to.be.false;
+    });
+
+    it("focusable and tab order", () => {
+        let controller = createController("<div></div>");
+        let button = createController("<button></button>");
+
+        controller.focusable = true;
+        button.tabIndex = 3;
+
+        expect(controller.focusable).to.be.true;
+        expect((<HTMLElement>controller.view.node).getAttribute("tabindex")).to.eq("0");
+        expect(button.focusable).to.be.true;
+        expect(button.tabIndex).to.eq(3);
+
+        controller.focusable = false;
+
+        expect(controller.focusable).to.be.false;
+    });
+
+    it("find controller of the node", () => {
+        let controller = createController("<div><p><span></span></p></div>");
+        let span = (<HTMLElement>controller.view.node).querySelector("span");
+
+        expect(findController(span)).to.eq(controller);
+        expect(findController(document.body)).to.be.null;
+    });
+
+    it("track focused controller", () => {
+        let manager = new FocusManager(document);
+        let first = createController("<div><input></div>");
+        let second = createController("<div><input></div>");
+        let events: string[] = [];
+
+        first.addEventListener("*", (evt: OwlEvent) => { events.push("first:" + evt.type); });
+        second.addEventListener("*", (evt: OwlEvent) => { events.push("second:" + evt.type); });
+        manager.attach();
+
+        (<HTMLElement>first.view.node).querySelector("input").focus();
+        (<HTMLElement>second.view.node).querySelector("input").focus();
+
+        expect(manager.focusedController).to.eq(second);
+
+        second.blur();
+        manager.detach();
+
+        expect(manager.focusedController).to.be.null;
+        expect(events).to.deep.eq(["first:focus", "first:blur", "second:focus", "second:blur"]);
+    });
+
+    it("trap and restore focus", () => {
+        let manager = new FocusManager(document);
+        let outside = createController("<button></button>");
+        let overlay = createController("<div><button id='first'></button><button id='last'></button></div>");
+        let first = <HTMLElement>document.getElementById("first");
+        let last = <HTMLElement>document.getElementById("last");
+
+        manager.attach();
+        outside.focus();
+
+        let release = manager.trapFocus(overlay);
+
+        expect(manager.activeTrap.controller).to.eq(overlay);
+        expect(document.activeElement).to.eq(first);
+
+        expect(keyDown(first, "Tab", true).defaultPrevented).to.be.true;
+        expect(document.activeElement).to.eq(last);
+
+        keyDown(last, "Tab");
+        expect(document.activeElement).to.eq(first);
+
+        outside.focus();
+        expect(document.activeElement).to.eq(first);
+
+        release();
+        manager.detach();
+
+        expect(manager.activeTrap).to.be.null;
+        expect(document.activeElement).to.eq(outside.view.node);
+    });
+
+    it("release trap of destroyed controller", () => {
+        let manager = new FocusManager(document);
+        let overlay = createController("<div><button></button></div>");
+
+        manager.trapFocus(overlay);
+        overlay.destroy();
+
+        expect(manager.activeTrap).to.be.null;
+    });
+
+    it("roving tabindex", () => {
+        let list = createController("<ul></ul>");
+        let items = [createController("<li></li>", list), createController("<li></li>", list), createController("<li></li>", list)];
+        let roving = new RovingTabIndex(list, "vertical");
+
+        roving.attach();
+
+        expect(items.map((item) => { return item.tabIndex; })).to.deep.eq([0, -1, -1]);
+
+        items[0].focus();
+        keyDown(items[0].view.node, "ArrowDown");
+
+        expect(roving.activeItem).to.eq(items[1]);
+        expect(items[1].hasFocus).to.be.true;
+        expect(items.map((item) => { return item.tabIndex; })).to.deep.eq([-1, 0, -1]);
+
+        keyDown(items[1].view.node, "ArrowRight");
+        expect(roving.activeItem).to.eq(items[1]);
+
+        keyDown(items[1].view.node, "End");
+        expect(roving.activeItem).to.eq(items[2]);
+
+        keyDown(items[2].view.node, "ArrowDown");
+        expect(roving.activeItem).to.eq(items[0]);
+
+        items[2].focus();
+        expect(roving.activeItem).to.eq(items[2]);
+
+        roving.detach();
+    });
+});
@@ -0,0 +1,221 @@
+import { HotkeyManager, HotkeyEvent, IHotkeyOwner } from "../../../src/hotkeys";
+import { ControllerBase } from "../../../src/component";
+import { EventDispatcher, OwlEvent } from "../../../src/events";
+import { CommonHtmlNode, DomManipulator } from "../../../src/dom";
+import { expect } from "chai";
+
+
+describe("Hotkey manager", () => {
+
+    class FakeController extends EventDispatcher implements IHotkeyOwner {
+
+        public received: string[] = [];
+
+        public view: CommonHtmlNode;
+
+        constructor(public parent: FakeController=null) {
+            super();
+
+            let node = document.createElement("div");
+            node.tabIndex = 0;
+            (parent ? parent.view.node : document.body).appendChild(node);
+
+            this.view = new CommonHtmlNode(node, new DomManipulator(window, document.body));
+            this.addEventListener("*", (evt: OwlEvent) => {
+                if (evt instanceof HotkeyEvent)
+                    this.received.push(evt.type + ":" + evt.combination);
+            });
+        }
+
+        public focus() : void {
+            (<HTMLElement>this.view.node).focus();
+        }
+    }
+
+    function press(manager: HotkeyManager, key: string, modifiers: string[]=[]) : KeyboardEvent {
+        let evt = new KeyboardEvent("keydown", {
+            key: key,
+            ctrlKey: modifiers.indexOf("ctrl") != -1,
+            altKey: modifiers.indexOf("alt") != -1,
+            shiftKey: modifiers.indexOf("shift") != -1,
+            metaKey: modifiers.indexOf("meta") != -1,
+            bubbles: true,
+            cancelable: true
+        });
+
+        manager.handleKeyboardEvent(evt);
+        return evt;
+    }
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("parse combination", () => {
+        expect(HotkeyManager.parseCombination("Shift+Ctrl+S")).to.deep.eq(["ctrl+shift+s"]);
+        expect(HotkeyManager.parseCombination(" g  i ")).to.deep.eq(["g", "i"]);
+        expect(HotkeyManager.parseCombination("ctrl++")).to.deep.eq(["ctrl++"]);
+        expect(HotkeyManager.parseCombination("Escape")).to.deep.eq(["esc"]);
+    });
+
+    it("invalid combination", () => {
+        expect(() => { HotkeyManager.parseCombination("hyper+s"); }).to.throw("Unknown modifier 'hyper' in hotkey 'hyper+s'");
+        expect(() => { HotkeyManager.parseCombination("ctrl+"); }).to.throw("Hotkey 'ctrl+' has no key");
+    });
+
+    it("global hotkey", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+
+        manager.register("ctrl+s", controller, { global: true, eventType: "save" });
+        let evt = press(manager, "s", ["ctrl"]);
+        press(manager, "s");
+
+        expect(controller.received).to.deep.eq(["save:ctrl+s"]);
+        expect(evt.defaultPrevented).to.be.true;
+    });
+
+    it("scoped hotkey requires focus in the owner", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+        let other = new FakeController();
+
+        manager.register("enter", controller);
+        other.focus();
+        press(manager, "Enter");
+        controller.focus();
+        press(manager, "Enter");
+
+        expect(controller.received).to.deep.eq(["hotkey:enter"]);
+    });
+
+    it("skip owner without view", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+        let notSetUp = new ControllerBase("test");
+
+        manager.register("enter", notSetUp);
+        manager.register("enter", controller);
+        controller.focus();
+
+        expect(() => { press(manager, "Enter"); }).not.to.throw();
+        expect(controller.received).to.deep.eq(["hotkey:enter"]);
+    });
+
+    it("deeper owner wins conflict", () => {
+        let manager = new HotkeyManager(document);
+        let parent = new FakeController();
+        let child = new FakeController(parent);
+
+        manager.register("esc", child);
+        manager.register("esc", parent);
+        child.focus();
+        press(manager, "Escape");
+
+        expect(child.received).to.deep.eq(["hotkey:esc"]);
+        expect(parent.received).to.deep.eq([]);
+    });
+
+    it("priority wins conflict", () => {
+        let manager = new HotkeyManager(document);
+        let parent = new FakeController();
+        let child = new FakeController(parent);
+
+        manager.register("esc", child);
+        manager.register("esc", parent, { priority: 1 });
+        child.focus();
+        press(manager, "Escape");
+
+        expect(parent.received).to.deep.eq(["hotkey:esc"]);
+        expect(child.received).to.deep.eq([]);
+    });
+
+    it("duplicate registration", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+
+        manager.register("ctrl+s", controller);
+
+        expect(() => { manager.register("Ctrl+S", controller); }).to.throw("Hotkey 'ctrl+s' is already registered for the controller");
+    });
+
+    it("sequence", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+
+        manager.register("g i", controller, { global: true });
+        press(manager, "g");
+        press(manager, "x");
+        press(manager, "i");
+        press(manager, "g");
+        press(manager, "g");
+        press(manager, "i");
+
+        expect(controller.received).to.deep.eq(["hotkey:g i"]);
+    });
+
+    it("sequence expires", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+        let now = new Date().getTime();
+        let originalGetTime = Date.prototype.getTime;
+
+        manager.register("g i", controller, { global: true });
+
+        try {
+            Date.prototype.getTime = () => { return now; };
+            press(manager, "g");
+            Date.prototype.getTime = () => { return now + HotkeyManager.SEQUENCE_TIMEOUT + 1; };
+            press(manager, "i");
+        } finally {
+            Date.prototype.getTime = originalGetTime;
+        }
+
+        expect(controller.received).to.deep.eq([]);
+    });
+
+    it("ignore plain keys in inputs", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+        let input = document.createElement("input");
+        controller.view.node.appendChild(input);
+
+        manager.register("?", controller);
+        manager.register("ctrl+s", controller);
+        input.focus();
+        press(manager, "?", ["shift"]);
+        press(manager, "s", ["ctrl"]);
+
+        expect(controller.received).to.deep.eq(["hotkey:ctrl+s"]);
+    });
+
+    it("remove hotkeys of destroyed owner", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+
+        let remove = manager.register("a", controller, { global: true });
+        manager.register("b", controller, { global: true });
+        remove();
+
+        expect(manager.getCombinations(controller)).to.deep.eq(["b"]);
+
+        controller.dispatchEvent(new OwlEvent(ControllerBase.EVENT_DESTROYED));
+
+        expect(manager.getCombinations(controller)).to.deep.eq([]);
+    });
+
+    it("attach to document", () => {
+        let manager = new HotkeyManager(document);
+        let controller = new FakeController();
+
+        manager.register("x", controller, { global: true });
+        manager.attach();
+
+        let evt = new KeyboardEvent("keydown", { key: "x", bubbles: true, cancelable: true });
+        document.body.dispatchEvent(evt);
+        manager.detach();
+        document.body.dispatchEvent(evt);
+
+        expect(controller.received).to.deep.eq(["hotkey:x"]);
+    });
+});
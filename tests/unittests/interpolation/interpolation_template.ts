@@ -0,0 +1,102 @@
+import { InterpolationTemplate, escapeHtml } from "../../../src/interpolation"
+import { expect } from "chai"
+
+
+describe("Interpolation template", () => {
+
+    let context = {
+        name: "<b>foo</b>",
+        count: 2,
+        user: { name: "bar", address: null },
+        label(prefix: string, count: number) : string { return prefix + ":" + count + ":" + this.count; },
+        fail() : string { throw new Error("fail"); }
+    };
+
+    it("text without expressions", () => {
+        let template = InterpolationTemplate.parse("foo bar");
+
+        expect(template.hasExpressions).false;
+        expect(template.render(context, false)).to.eq("foo bar");
+    });
+
+    it("evaluate expressions in context", () => {
+        let template = InterpolationTemplate.parse("count: {{ this.count }}, missing: {{ this.missing }}");
+
+        expect(template.hasExpressions).true;
+        expect(template.hasRawExpressions).false;
+        expect(template.render(context, false)).to.eq("count: 2, missing: ");
+    });
+
+    it("evaluate property paths and method calls", () => {
+        let template = InterpolationTemplate.parse(
+            "{{ this.user.name }}, {{ user.address.city }}, {{ this.label('a', 1) }}, {{ this.missing() }}");
+
+        expect(template.render(context, false)).to.eq("bar, , a:1:2, ");
+    });
+
+    it("escape expressions by default", () => {
+        let template = InterpolationTemplate.parse("<{{ this.name }}>");
+
+        expect(template.render(context, true)).to.eq("&lt;&lt;b&gt;foo&lt;/b&gt;&gt;");
+    });
+
+    it("do not escape raw expressions", () => {
+        let template = InterpolationTemplate.parse("{{{ this.name }}} {{ this.name }}");
+
+        expect(template.hasRawExpressions).true;
+        expect(template.render(context, true)).to.eq("<b>foo</b> " + escapeHtml("<b>foo</b>"));
+    });
+
+    it("report invalid expression", () => {
+        let reported: string[] = [];
+        let consoleError = console.error;
+        let template: InterpolationTemplate;
+
+        console.error = (message: string) => { reported.push(message); };
+
+        try {
+            template = InterpolationTemplate.parse("count: {{ this.count + }}, name: {{ this.name }}");
+        } finally {
+            console.error = consoleError;
+        }
+
+        expect(reported).to.deep.eq(["Expression 'this.count +' is invalid"]);
+        expect(template.render(context, false)).to.eq("count: , name: <b>foo</b>");
+    });
+
+    it("reject code other than path", () => {
+        let reported: string[] = [];
+        let consoleError = console.error;
+
+        console.error = (message: string) => { reported.push(message); };
+
+        try {
+            InterpolationTemplate.parse("{{ this.count + 1 }}{{ alert(document.cookie) }}{{ this['name'] }}");
+        } finally {
+            console.error = consoleError;
+        }
+
+        expect(reported).to.deep.eq([
+            "Expression 'this.count + 1' is invalid",
+            "Expression 'alert(document.cookie)' is invalid",
+            "Expression 'this['name']' is invalid"
+        ]);
+    });
+
+    it("report failed evaluation once", () => {
+        let reported: string[] = [];
+        let consoleError = console.error;
+        let template = InterpolationTemplate.parse("{{ this.fail() }}{{ this.count }}");
+
+        console.error = (message: string) => { reported.push(message); };
+
+        try {
+            expect(template.render(context, false)).to.eq("2");
+            expect(template.render(context, false)).to.eq("2");
+        } finally {
+            console.error = consoleError;
+        }
+
+        expect(reported).to.deep.eq(["Expression 'this.fail()' failed"]);
+    });
+});
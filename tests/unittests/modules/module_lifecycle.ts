@@ -0,0 +1,169 @@
+import { ModuleManager, ModuleError, ServiceManagerLookup } from "../../../src/modules"
+import { ServiceManager } from "../../../src/service_management"
+import { expect } from "chai"
+
+
+describe("Module lifecycle", () => {
+
+    let manager: ModuleManager;
+    let sm: ServiceManager;
+    let log: string[];
+
+    function delay(value: string) : Promise<void> {
+        return new Promise<void>((resolve: Function) => {
+            setTimeout(() => {
+                log.push(value);
+                resolve();
+            }, 0);
+        });
+    }
+
+    beforeEach(() => {
+        manager = new ModuleManager();
+        sm = new ServiceManager();
+        log = new Array<string>();
+    });
+
+    it("initialize modules in order of dependencies", () => {
+        manager.addModule("ui", ["core"], (root: ServiceManager, own: ServiceManager, deps: ServiceManagerLookup) => {
+            log.push("ui factory");
+            expect(deps["core"].getServiceByPath("config")).to.eq("loaded");
+        });
+        manager.addModule("core", [], (root: ServiceManager, own: ServiceManager) => {
+            let config: string = null;
+
+            log.push("core factory");
+            own.registerService("config", () => { return config; });
+
+            return {
+                init: () => {
+                    return delay("core init").then(() => { config = "loaded"; });
+                }
+            };
+        });
+
+        return manager.initializeModules(sm).then(() => {
+            expect(log).to.deep.eq(["core factory", "core init", "ui factory"]);
+            expect(manager.getInitializedModuleNames()).to.deep.eq(["core", "ui"]);
+        });
+    });
+
+    it("mark services registered in init with the module name", () => {
+        sm.source = "app";
+        manager.addModule("core", [], (root: ServiceManager, own: ServiceManager) => {
+            return {
+                init: () => {
+                    return delay("core init").then(() => {
+                        root.registerService("app.config", () => { return {}; });
+                        own.registerService("connection", () => { return {}; });
+                    });
+                }
+            };
+        });
+
+        return manager.initializeModules(sm).then(() => {
+            expect(sm.listServices("app.config")[0].source).to.eq("core");
+            expect(sm.listServices("module.core.connection")[0].source).to.eq("core");
+            expect(sm.source).to.eq("app");
+        });
+    });
+
+    it("start and stop modules", () => {
+        let disposed: boolean = false;
+        let moduleLevel: ServiceManager = null;
+
+        manager.addModule("first", [], (root: ServiceManager, own: ServiceManager) => {
+            moduleLevel = own.parent;
+            own.registerService("resource", () => { return { dispose: () => { disposed = true; } }; });
+            own.getServiceByPath("resource");
+
+            return {
+                start: () => { log.push("first start"); },
+                stop: () => { return delay("first stop"); }
+            };
+        });
+        manager.addModule("second", ["first"], () => {
+            return {
+                start: () => { return delay("second start"); },
+                stop: () => { log.push("second stop"); }
+            };
+        });
+
+        return manager.initializeModules(sm).then(() => {
+            return manager.startModules();
+        }).then(() => {
+            expect(log).to.deep.eq(["first start", "second start"]);
+
+            return manager.stopModules();
+        }).then(() => {
+            expect(log).to.deep.eq(["first start", "second start", "second stop", "first stop"]);
+            expect(disposed).to.be.true;
+            expect(moduleLevel.disposed).to.be.true;
+            expect(sm.disposed).to.be.false;
+            expect(manager.getInitializedModuleNames()).to.deep.eq([]);
+        });
+    });
+
+    it("report failed module", () => {
+        manager.addModule("core", [], () => {
+            return { init: () => { return Promise.reject(new Error("offline")); } };
+        });
+        manager.addModule("ui", ["core"], () => {
+            log.push("ui factory");
+        });
+
+        return manager.initializeModules(sm).then(() => {
+            throw new Error("initialization resolved");
+        }, (err: ModuleError) => {
+            expect(err).to.be.instanceof(ModuleError);
+            expect(err.moduleName).to.eq("core");
+            expect(err.phase).to.eq("init");
+            expect(err.cause.message).to.eq("offline");
+            expect(err.message).to.eq("Module 'core' failed in init: offline");
+            expect(log).to.deep.eq([]);
+        });
+    });
+
+    it("report failed factory", () => {
+        manager.addModule("broken", [], () => {
+            throw new Error("no config");
+        });
+
+        return manager.initializeModules(sm).then(() => {
+            throw new Error("initialization resolved");
+        }, (err: ModuleError) => {
+            expect(err).to.be.instanceof(ModuleError);
+            expect(err.moduleName).to.eq("broken");
+            expect(err.phase).to.eq("factory");
+        });
+    });
+
+    it("stop all modules even if some fails", () => {
+        manager.addModule("first", [], () => {
+            return { stop: () => { log.push("first stop"); } };
+        });
+        manager.addModule("second", ["first"], () => {
+            return { stop: () => { throw new Error("busy"); } };
+        });
+
+        return manager.initializeModules(sm).then(() => {
+            return manager.stopModules();
+        }).then(() => {
+            throw new Error("stop resolved");
+        }, (err: ModuleError) => {
+            expect(err.moduleName).to.eq("second");
+            expect(err.phase).to.eq("stop");
+            expect(log).to.deep.eq(["first stop"]);
+        });
+    });
+
+    it("reject unsatisfied dependencies", () => {
+        manager.addModule("ui", ["missing"], () => {});
+
+        return manager.initializeModules(sm).then(() => {
+            throw new Error("initialization resolved");
+        }, (err: Error) => {
+            expect(err.message).to.eq("Dependencies are not satisfied");
+        });
+    });
+});
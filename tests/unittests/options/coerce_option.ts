@@ -0,0 +1,37 @@
+import { coerceOption, toKebabCase, toCamelCase } from "../../../src/options"
+import { expect } from "chai"
+
+
+describe("Option coercion", () => {
+
+    it("string", () => {
+        expect(coerceOption("foo", "string")).to.eq("foo");
+    });
+
+    it("number", () => {
+        expect(coerceOption("42.5", "number")).to.eq(42.5);
+        expect(() => { coerceOption("foo", "number"); }).throw();
+        expect(() => { coerceOption("", "number"); }).throw();
+    });
+
+    it("boolean", () => {
+        expect(coerceOption("", "boolean")).true;
+        expect(coerceOption("true", "boolean")).true;
+        expect(coerceOption("false", "boolean")).false;
+        expect(coerceOption("0", "boolean")).false;
+    });
+
+    it("json", () => {
+        expect(coerceOption("{\"a\": [1, 2]}", "json")).to.deep.eq({ a: [1, 2] });
+        expect(() => { coerceOption("{a}", "json"); }).throw();
+    });
+
+    it("kebab case attribute name", () => {
+        expect(toKebabCase("slideDuration")).to.eq("slide-duration");
+    });
+
+    it("camel case property name", () => {
+        expect(toCamelCase("slide-duration")).to.eq("slideDuration");
+        expect(toCamelCase("count")).to.eq("count");
+    });
+});
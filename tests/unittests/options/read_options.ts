@@ -0,0 +1,48 @@
+import { readOptions, OptionError, OptionDefinitionLookup } from "../../../src/options"
+import { CommonHtmlElement } from "../../../src/dom"
+import { createDomManipulator } from "../dom/utils"
+import { expect } from "chai"
+
+
+describe("Read options", () => {
+
+    function createElement(html: string) : CommonHtmlElement {
+        return createDomManipulator().createNewFragment(html);
+    }
+
+    let schema: OptionDefinitionLookup = {
+        duration: { type: "number", attribute: "slide-duration", default: 0 },
+        size: { values: ["auto", "content"], default: "auto" },
+        visible: { type: "boolean", default: true }
+    };
+
+    it("use defaults", () => {
+        let options = readOptions(createElement("<div></div>"), schema);
+
+        expect(options).to.deep.eq({ duration: 0, size: "auto", visible: true });
+    });
+
+    it("coerce values", () => {
+        let options = readOptions(createElement("<div slide-duration='300' size='content' visible='false'></div>"), schema);
+
+        expect(options).to.deep.eq({ duration: 300, size: "content", visible: false });
+    });
+
+    it("invalid number", () => {
+        let element = createElement("<div slide-duration='slow'></div>");
+
+        expect(() => { readOptions(element, schema); }).throw(OptionError, "slide-duration");
+    });
+
+    it("value not allowed", () => {
+        let element = createElement("<div size='huge'></div>");
+
+        expect(() => { readOptions(element, schema); }).throw(OptionError, "auto, content");
+    });
+
+    it("missing required attribute", () => {
+        let element = createElement("<div></div>");
+
+        expect(() => { readOptions(element, { name: { required: true } }); }).throw(OptionError, "required");
+    });
+});
@@ -0,0 +1,65 @@
+import { DefinedRenderer } from "../../../src/definition"
+import { RenderResult } from "../../../src/rendering"
+import { DomManipulator, CommonHtmlElement } from "../../../src/dom"
+import { createDomManipulator } from "../dom/utils"
+import { expect } from "chai"
+
+
+describe("Content projection", () => {
+
+    let template: string = "<div class='card'>"
+        + "<h2 owl-entry='header'>Default title</h2>"
+        + "<div owl-entry='content'></div>"
+        + "<div owl-entry='footer'><i>no footer</i></div>"
+        + "</div>";
+
+    function render(html: string) : RenderResult {
+        let manipulator: DomManipulator = createDomManipulator();
+        let renderer: DefinedRenderer = new DefinedRenderer({ name: "card", template: template });
+        let original: CommonHtmlElement = manipulator.createNewFragment(html);
+
+        return renderer.render(original, manipulator, new Object());
+    }
+
+    function entryHtml(result: RenderResult, name: string) : string {
+        return (<CommonHtmlElement>result.entryNodes[name]).element.innerHTML;
+    }
+
+    it("named slot", () => {
+        let result = render("<div><b slot='header'>Title</b></div>");
+
+        expect(entryHtml(result, "header")).to.eq("<b slot=\"header\">Title</b>");
+    });
+
+    it("default slot", () => {
+        let result = render("<div><p>one</p><b slot='header'>Title</b><p>two</p></div>");
+
+        expect(entryHtml(result, "content")).to.eq("<p>one</p><p>two</p>");
+    });
+
+    it("explicit default slot", () => {
+        let result = render("<div><p slot='default'>one</p></div>");
+
+        expect(entryHtml(result, "content")).to.eq("<p slot=\"default\">one</p>");
+    });
+
+    it("unknown slot falls to default", () => {
+        let result = render("<div><p slot='sidebar'>one</p></div>");
+
+        expect(entryHtml(result, "content")).to.eq("<p slot=\"sidebar\">one</p>");
+    });
+
+    it("fallback content", () => {
+        let result = render("<div>  <p>body</p>  </div>");
+
+        expect(entryHtml(result, "header")).to.eq("Default title");
+        expect(entryHtml(result, "footer")).to.eq("<i>no footer</i>");
+    });
+
+    it("element replaces fallback even if empty", () => {
+        let result = render("<div> <span slot='footer'>  </span> </div>");
+
+        expect(entryHtml(result, "footer")).to.eq("<span slot=\"footer\">  </span>");
+        expect(entryHtml(result, "header")).to.eq("Default title");
+    });
+});
@@ -0,0 +1,227 @@
+import { ServiceManager, CircularDependencyError } from "../../../src/service_management"
+import { ComponentFactory, ComponentInserter, ControllerBase, ControllerManager, registerAsyncFunctionFactory, ComponentClasses } from "../../../src/component"
+import { DefinedRenderer } from "../../../src/definition"
+import { RenderResult, EntryNodeLookup } from "../../../src/rendering"
+import { DomManipulator } from "../../../src/dom"
+import { expect } from "chai"
+
+
+class Connection {
+
+    constructor(public name: string) {
+    }
+}
+
+
+class HeavyRenderer extends DefinedRenderer {
+
+    constructor() {
+        super({ name: "heavy", template: "<div class='heavy'><span owl-entry='content'></span></div>" });
+    }
+}
+
+
+class HeavyController extends ControllerBase {
+}
+
+
+class ConnectedController extends ControllerBase {
+
+    static inject: string[] = ["app.label", "app.connection"];
+
+    constructor(type: string, public label: string, public connection: Connection) {
+        super(type);
+    }
+}
+
+
+describe("Asynchronous services", () => {
+
+    let sm: ServiceManager;
+
+    beforeEach(() => {
+        sm = new ServiceManager();
+    });
+
+    it("get asynchronous service", () => {
+        sm.registerAsyncService("app.connection", () => { return Promise.resolve(new Connection("db")); });
+
+        return sm.getServiceAsync("app.connection").then((connection: Connection) => {
+            expect(connection).to.be.instanceof(Connection);
+            expect(connection.name).to.eq("db");
+        });
+    });
+
+    it("deduplicate concurrent requests of shared service", () => {
+        let calls: number = 0;
+
+        sm.registerAsyncService("app.connection", () => {
+            ++calls;
+            return Promise.resolve(new Connection("db"));
+        });
+
+        return Promise.all([sm.getServiceAsync("app.connection"), sm.getServiceAsync("app.connection")]).then((instances: any[]) => {
+            expect(calls).to.eq(1);
+            expect(instances[0]).to.eq(instances[1]);
+        });
+    });
+
+    it("deduplicate concurrent requests of scoped service", () => {
+        let scope = sm.createScope();
+        let calls: number = 0;
+
+        sm.registerAsyncService("app.connection", () => {
+            ++calls;
+            return Promise.resolve(new Connection("db"));
+        }, false);
+        sm.registerScopedService("app.session", (connection: Connection) => { return { connection: connection }; }, ["app.connection"]);
+
+        return Promise.all([scope.getServiceAsync("app.session"), scope.getServiceAsync("app.session")]).then((instances: any[]) => {
+            expect(calls).to.eq(1);
+            expect(instances[0]).to.eq(instances[1]);
+            expect(scope.getServiceByPath("app.session")).to.eq(instances[0]);
+        });
+    });
+
+    it("create new instance of asynchronous transient service", () => {
+        sm.registerAsyncService("app.connection", () => { return Promise.resolve(new Connection("db")); }, false);
+
+        return Promise.all([sm.getServiceAsync("app.connection"), sm.getServiceAsync("app.connection")]).then((instances: any[]) => {
+            expect(instances[0]).not.to.eq(instances[1]);
+        });
+    });
+
+    it("synchronous access after loading", () => {
+        sm.registerAsyncService("app.connection", () => { return Promise.resolve(new Connection("db")); });
+
+        expect(sm.isServiceAsync("app.connection")).to.be.true;
+        expect(() => { sm.getServiceByPath("app.connection"); })
+            .to.throw("Service 'app.connection' is asynchronous, use getServiceAsync");
+
+        return sm.getServiceAsync("app.connection").then((connection: Connection) => {
+            expect(sm.isServiceAsync("app.connection")).to.be.false;
+            expect(sm.getServiceByPath("app.connection")).to.eq(connection);
+        });
+    });
+
+    it("resolve asynchronous dependencies", () => {
+        sm.registerAsyncService("app.connection", () => { return Promise.resolve(new Connection("db")); });
+        sm.registerService("app.repository", (connection: Connection) => { return { connection: connection }; }, true, ["app.connection"]);
+
+        expect(sm.isServiceAsync("app.repository")).to.be.true;
+
+        return sm.getServiceAsync("app.repository").then((repository: any) => {
+            expect(repository.connection).to.eq(sm.getServiceByPath("app.connection"));
+            expect(sm.getServiceByPath("app.repository")).to.eq(repository);
+        });
+    });
+
+    it("reject missing service and circular dependency", () => {
+        sm.registerAsyncService("app.a", (b: any) => { return Promise.resolve({}); }, true, ["app.b"]);
+        sm.registerAsyncService("app.b", (a: any) => { return Promise.resolve({}); }, true, ["app.a"]);
+
+        return sm.getServiceAsync("app.missing").then(() => {
+            throw new Error("missing service resolved");
+        }, (err: any) => {
+            expect(err).to.be.instanceof(Error);
+            expect(err.message).to.eq("Service 'missing' not found");
+
+            return sm.getServiceAsync("app.a");
+        }).then(() => {
+            throw new Error("cycle resolved");
+        }, (err: any) => {
+            expect(err).to.be.instanceof(CircularDependencyError);
+            expect(err.cycle).to.deep.eq(["app.a", "app.b", "app.a"]);
+        });
+    });
+
+    it("retry failed loading", () => {
+        let calls: number = 0;
+
+        sm.registerAsyncService("app.connection", () => {
+            return ++calls == 1 ? Promise.reject(new Error("offline")) : Promise.resolve(new Connection("db"));
+        });
+
+        return sm.getServiceAsync("app.connection").then(() => {
+            throw new Error("failed loading resolved");
+        }, (err: any) => {
+            expect(err.message).to.eq("offline");
+
+            return sm.getServiceAsync("app.connection");
+        }).then((connection: Connection) => {
+            expect(connection.name).to.eq("db");
+            expect(calls).to.eq(2);
+        });
+    });
+
+    it("load component on demand", () => {
+        let manipulator = new DomManipulator(window, document.body);
+        let factory = new ComponentFactory(sm, manipulator);
+        let controllerManager = new ControllerManager();
+        let root = new ControllerBase("root");
+        let loads: number = 0;
+
+        sm.registerService("owl.controllerManager", () => { return controllerManager; });
+        root.serviceManager = sm;
+        root.setup(new RenderResult(manipulator.createNewFragment("<div></div>"), new EntryNodeLookup()), {});
+        document.body.appendChild(root.view.node);
+
+        registerAsyncFunctionFactory("app.heavy", "heavy", () => {
+            ++loads;
+            return Promise.resolve(<ComponentClasses>{ renderer: HeavyRenderer, controller: HeavyController });
+        })(factory, sm);
+
+        let inserter = new ComponentInserter(factory, controllerManager, root);
+        let element = <HTMLElement>root.view.node;
+
+        element.innerHTML = "<owl:heavy><owl:heavy></owl:heavy></owl:heavy><owl:heavy></owl:heavy>";
+
+        expect(factory.isComponentReady("heavy")).to.be.false;
+        expect(inserter.insertComponentsInto(element).length).to.eq(0);
+
+        return inserter.insertComponentsIntoAsync(element).then((controllers: ControllerBase[]) => {
+            // placeholders already replaced by the first insertion are skipped
+            expect(loads).to.eq(1);
+            expect(factory.isComponentReady("heavy")).to.be.true;
+            expect(element.querySelectorAll(".heavy").length).to.eq(3);
+            expect(element.querySelectorAll(".heavy .heavy").length).to.eq(1);
+            expect(root.children.length).to.eq(2);
+
+            document.body.innerHTML = "";
+        });
+    });
+
+    it("resolve dependencies of loaded controller in the requesting scope", () => {
+        let manipulator = new DomManipulator(window, document.body);
+        let factory = new ComponentFactory(sm, manipulator);
+        let controllerManager = new ControllerManager();
+        let root = new ControllerBase("root");
+
+        sm.registerService("owl.controllerManager", () => { return controllerManager; });
+        sm.registerService("app.label", () => { return "root"; });
+        sm.registerAsyncService("app.connection", () => { return Promise.resolve(new Connection("db")); });
+        root.serviceManager = sm;
+        root.setup(new RenderResult(manipulator.createNewFragment("<div></div>"), new EntryNodeLookup()), {});
+        root.createServiceScope().registerService("app.label", () => { return "scoped"; });
+        document.body.appendChild(root.view.node);
+
+        registerAsyncFunctionFactory("app.connected", "connected", () => {
+            return Promise.resolve(<ComponentClasses>{ renderer: HeavyRenderer, controller: ConnectedController });
+        })(factory, sm);
+
+        let inserter = new ComponentInserter(factory, controllerManager, root);
+        let element = <HTMLElement>root.view.node;
+
+        element.innerHTML = "<owl:connected></owl:connected>";
+
+        return inserter.insertComponentsIntoAsync(element).then((controllers: ControllerBase[]) => {
+            let controller = <ConnectedController>controllers[0];
+
+            expect(controller).to.be.instanceof(ConnectedController);
+            expect(controller.label).to.eq("scoped");
+            expect(controller.connection.name).to.eq("db");
+
+            document.body.innerHTML = "";
+        });
+    });
+});
@@ -0,0 +1,147 @@
+import { ServiceManager, CircularDependencyError, LazyService, inject, getDependencies } from "../../../src/service_management"
+import { registerFunctionFactory, ComponentFactory, ControllerBase } from "../../../src/component"
+import { expect } from "chai"
+
+
+class Logger {
+}
+
+
+class Repository {
+
+    static inject: string[] = ["app.logger"];
+
+    constructor(public logger: Logger) {
+    }
+}
+
+
+class UserService {
+
+    static inject: string[] = ["app.repository", "app.logger"];
+
+    constructor(public repository: Repository, public logger: Logger) {
+    }
+}
+
+
+describe("Dependency injection", () => {
+
+    it("inject constructor dependencies", () => {
+        let sm = new ServiceManager();
+
+        sm.registerClass("app.logger", Logger);
+        sm.registerClass("app.repository", Repository);
+        sm.registerClass("app.users", UserService);
+
+        let users = <UserService>sm.getServiceByPath("app.users");
+
+        expect(users).to.be.instanceof(UserService);
+        expect(users.repository).to.be.instanceof(Repository);
+        expect(users.logger).to.eq(sm.getServiceByPath("app.logger"));
+        expect(users.repository.logger).to.eq(users.logger);
+    });
+
+    it("inject factory dependencies", () => {
+        let sm = new ServiceManager();
+
+        sm.registerService("app.logger", () => { return new Logger(); });
+        sm.registerService("app.repository", (logger: Logger) => { return new Repository(logger); }, false, ["app.logger"]);
+
+        let first = <Repository>sm.getServiceByPath("app.repository");
+        let second = <Repository>sm.getServiceByPath("app.repository");
+
+        expect(first).not.to.eq(second);
+        expect(first.logger).to.eq(second.logger);
+    });
+
+    it("inject decorator", () => {
+        class Decorated {
+            constructor(public logger: Logger) {
+            }
+        }
+
+        inject("app.logger")(Decorated);
+
+        let sm = new ServiceManager();
+        sm.registerClass("app.logger", Logger);
+        sm.registerClass("app.decorated", Decorated);
+
+        expect(getDependencies(Decorated)).to.deep.eq(["app.logger"]);
+        expect((<Decorated>sm.getServiceByPath("app.decorated")).logger).to.be.instanceof(Logger);
+    });
+
+    it("missing dependency", () => {
+        let sm = new ServiceManager();
+        sm.registerClass("app.repository", Repository);
+
+        expect(() => { sm.getServiceByPath("app.repository"); }).to.throw("Service 'logger' not found");
+    });
+
+    it("detect circular dependency", () => {
+        let sm = new ServiceManager();
+        let error: CircularDependencyError = null;
+
+        sm.registerService("app.a", (b: any) => { return {}; }, true, ["app.b"]);
+        sm.registerService("app.b", (c: any) => { return {}; }, true, ["app.c"]);
+        sm.registerService("app.c", (b: any) => { return {}; }, true, ["app.b"]);
+
+        try {
+            sm.getServiceByPath("app.a");
+        } catch (err) {
+            error = err;
+        }
+
+        expect(error).to.be.instanceof(CircularDependencyError);
+        expect(error.message).to.eq("Circular dependency 'app.b -> app.c -> app.b'");
+        expect(error.cycle).to.deep.eq(["app.b", "app.c", "app.b"]);
+
+        // resolution state is cleared after the error
+        sm.registerService("app.d", () => { return {}; });
+        expect(() => { sm.getServiceByPath("app.d"); }).not.to.throw();
+    });
+
+    it("lazy dependency breaks cycle", () => {
+        let sm = new ServiceManager();
+        let created: string[] = [];
+
+        sm.registerService("app.parent", (child: any) => {
+            created.push("parent");
+            return { child: child };
+        }, true, ["app.child"]);
+        sm.registerService("app.child", (parent: LazyService<any>) => {
+            created.push("child");
+            return { parent: parent };
+        }, true, ["lazy:app.parent"]);
+
+        let parent: any = sm.getServiceByPath("app.parent");
+        let lazy: LazyService<any> = parent.child.parent;
+
+        expect(lazy.resolved).to.be.false;
+        expect(lazy.instance).to.eq(parent);
+        expect(lazy.resolved).to.be.true;
+        expect(created).to.deep.eq(["child", "parent"]);
+    });
+
+    it("inject controller dependencies", () => {
+        class ServiceController extends ControllerBase {
+
+            static inject: string[] = ["app.logger"];
+
+            constructor(type: string, public logger: Logger) {
+                super(type);
+            }
+        }
+
+        let sm = new ServiceManager();
+        let cm = new ComponentFactory(sm, null);
+
+        sm.registerClass("app.logger", Logger);
+        registerFunctionFactory("app.component", "appComponent", Object, ServiceController)(cm, sm);
+
+        let controller = <ServiceController>sm.getServiceByPath("app.component.controller");
+
+        expect(controller.type).to.eq("appComponent");
+        expect(controller.logger).to.eq(sm.getServiceByPath("app.logger"));
+    });
+});
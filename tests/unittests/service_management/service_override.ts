@@ -0,0 +1,136 @@
+import { ServiceManager, ServiceNamespace, ServiceCollisionError, ServiceInfo, LookupError } from "../../../src/service_management"
+import { expect } from "chai"
+
+
+class Renderer {
+
+    public render() : string {
+        return "original";
+    }
+}
+
+
+describe("Service override and decoration", () => {
+
+    let sm: ServiceManager;
+
+    beforeEach(() => {
+        sm = new ServiceManager();
+    });
+
+    it("reject duplicate registration", () => {
+        sm.registerClass("app.renderer", Renderer);
+
+        expect(() => { sm.registerClass("app.renderer", Renderer); })
+            .to.throw(ServiceCollisionError, "Service 'renderer' is already registered");
+    });
+
+    it("detect collision of service and namespace", () => {
+        sm.registerClass("app.renderer", Renderer);
+        sm.registerClass("app.ns.service", Renderer);
+
+        expect(() => { sm.registerClass("app.renderer.nested", Renderer); })
+            .to.throw(ServiceCollisionError, "Namespace 'renderer' collides with service");
+        expect(() => { sm.registerClass("app.ns", Renderer); })
+            .to.throw(ServiceCollisionError, "Service 'ns' collides with namespace");
+        expect(() => { sm.getNamespaceByPath("app.renderer"); }).to.throw(ServiceCollisionError);
+    });
+
+    it("lookup through service does not collide", () => {
+        sm.registerClass("app.renderer", Renderer);
+
+        expect(() => { sm.getServiceByPath("app.renderer.nested"); }).to.throw(LookupError, "Service 'nested' not found");
+        expect(sm.hasService("app.renderer.nested")).to.be.false;
+        expect(() => { sm.getServiceByPath("app.missing.nested"); }).to.throw("Service 'nested' not found");
+        expect(sm.listServices().length).to.eq(1);
+    });
+
+    it("namespace ignores inherited properties", () => {
+        let ns = new ServiceNamespace();
+
+        expect(ns.getNamespace("constructor")).to.be.instanceof(ServiceNamespace);
+        expect(ns.getServiceContainer("toString")).to.be.null;
+    });
+
+    it("override service", () => {
+        let custom = new Renderer();
+
+        sm.registerClass("app.renderer", Renderer);
+        sm.overrideService("app.renderer", () => { return custom; });
+
+        expect(sm.getServiceByPath("app.renderer")).to.eq(custom);
+        expect(() => { sm.overrideService("app.missing", () => { return null; }); })
+            .to.throw("Service 'app.missing' not found");
+    });
+
+    it("override parent service in the scope", () => {
+        let scope = sm.createScope();
+
+        sm.registerClass("app.renderer", Renderer);
+        scope.overrideService("app.renderer", () => { return "scoped"; });
+
+        expect(scope.getServiceByPath("app.renderer")).to.eq("scoped");
+        expect(sm.getServiceByPath("app.renderer")).to.be.instanceof(Renderer);
+    });
+
+    it("decorate service", () => {
+        sm.registerService("app.prefix", () => { return "decorated "; });
+        sm.registerClass("app.renderer", Renderer, false);
+        sm.decorateService("app.renderer", (instance: Renderer, manager: ServiceManager) => {
+            let render = instance.render;
+            instance.render = () => { return <string>manager.getServiceByPath("app.prefix") + render.call(instance); };
+
+            return instance;
+        });
+
+        expect((<Renderer>sm.getServiceByPath("app.renderer")).render()).to.eq("decorated original");
+    });
+
+    it("apply decorators in order of registration", () => {
+        sm.registerService("app.value", () => { return "a"; });
+        sm.decorateService("app.value", (value: string) => { return value + "b"; });
+        sm.decorateService("app.value", (value: string) => { return value + "c"; });
+
+        expect(sm.getServiceByPath("app.value")).to.eq("abc");
+    });
+
+    it("reject decoration of instantiated shared service", () => {
+        sm.registerClass("app.renderer", Renderer);
+        sm.getServiceByPath("app.renderer");
+
+        expect(() => { sm.decorateService("app.renderer", (instance: any) => { return instance; }); })
+            .to.throw("Service 'app.renderer' is already instantiated");
+        expect(() => { sm.decorateService("app.missing", (instance: any) => { return instance; }); })
+            .to.throw("Service 'app.missing' not found");
+    });
+
+    it("list services", () => {
+        let scope = sm.createScope();
+
+        sm.registerClass("app.renderer", Renderer, false);
+        sm.registerClass("app.shared", Renderer);
+        sm.registerClass("other.service", Renderer);
+        scope.registerScopedClass("app.scoped", Renderer);
+        scope.source = "module";
+        scope.registerClass("app.shared", Renderer);
+        sm.getServiceByPath("app.shared");
+
+        let services: ServiceInfo[] = scope.listServices("app");
+
+        expect(services.map((info: ServiceInfo) => { return info.path; }))
+            .to.deep.eq(["app.renderer", "app.scoped", "app.shared"]);
+        expect(services[0].shared).to.be.false;
+        expect(services[0].lifetime).to.eq("transient");
+        expect(services[1].lifetime).to.eq("scoped");
+        expect(services[2].shared).to.be.true;
+        expect(services[2].instantiated).to.be.false;
+        expect(services[2].source).to.eq("module");
+        expect(sm.listServices("app.shared")[0].instantiated).to.be.true;
+        expect(sm.listServices("app.shared")[0].source).to.be.null;
+        expect(sm.listServices().length).to.eq(3);
+        expect(sm.listServices("ap").length).to.eq(0);
+        expect(sm.hasService("other.service")).to.be.true;
+        expect(scope.hasService("other.service")).to.be.true;
+        expect(sm.hasService("other.missing")).to.be.false;
+    });
+});
@@ -0,0 +1,154 @@
+import { ServiceManager } from "../../../src/service_management"
+import { ControllerBase, ControllerManager } from "../../../src/component"
+import { RenderResult, EntryNodeLookup } from "../../../src/rendering"
+import { DomManipulator } from "../../../src/dom"
+import { expect } from "chai"
+
+
+class Resource {
+
+    static inject: string[] = ["app.log"];
+
+    public disposed: boolean;
+
+    constructor(public log: string[]) {
+        this.disposed = false;
+    }
+
+    public dispose() : void {
+        this.disposed = true;
+        this.log.push("resource");
+    }
+}
+
+
+describe("Service scopes", () => {
+
+    let root: ServiceManager;
+    let log: string[];
+
+    beforeEach(() => {
+        log = new Array<string>();
+        root = new ServiceManager();
+        root.registerService("app.log", () => { return log; });
+    });
+
+    it("fall back to the parent", () => {
+        let scope = root.createScope();
+
+        scope.registerService("app.local", () => { return {}; });
+
+        expect(scope.parent).to.eq(root);
+        expect(scope.getServiceByPath("app.log")).to.eq(log);
+        expect(scope.getServiceByPath("app.local")).to.be.an("object");
+        expect(() => { root.getServiceByPath("app.local"); }).to.throw("Service 'local' not found");
+    });
+
+    it("override service in the scope", () => {
+        let scope = root.createScope();
+        let local: string[] = [];
+
+        scope.registerService("app.log", () => { return local; });
+
+        expect(scope.getServiceByPath("app.log")).to.eq(local);
+        expect(root.getServiceByPath("app.log")).to.eq(log);
+    });
+
+    it("one instance of scoped service per scope", () => {
+        root.registerScopedClass("app.resource", Resource);
+
+        let first = root.createScope();
+        let second = root.createScope();
+        let resource = first.getServiceByPath("app.resource");
+
+        expect(resource).to.be.instanceof(Resource);
+        expect(first.getServiceByPath("app.resource")).to.eq(resource);
+        expect(second.getServiceByPath("app.resource")).not.to.eq(resource);
+        expect(root.getServiceByPath("app.resource")).not.to.eq(resource);
+    });
+
+    it("resolve dependencies of scoped service in the scope", () => {
+        let scope = root.createScope();
+        let local: string[] = [];
+
+        root.registerScopedClass("app.resource", Resource);
+        scope.registerService("app.log", () => { return local; });
+
+        expect((<Resource>scope.getServiceByPath("app.resource")).log).to.eq(local);
+        expect((<Resource>root.getServiceByPath("app.resource")).log).to.eq(log);
+    });
+
+    it("shared service is shared by all scopes", () => {
+        root.registerClass("app.resource", Resource);
+
+        let scope = root.createScope();
+
+        expect(scope.getServiceByPath("app.resource")).to.eq(root.getServiceByPath("app.resource"));
+    });
+
+    it("dispose scoped instances", () => {
+        let scope = root.createScope();
+        let nested = scope.createScope();
+
+        root.registerScopedService("app.first", (log: string[]) => {
+            return { dispose: () => { log.push("first"); } };
+        }, ["app.log"]);
+        root.registerScopedService("app.second", (log: string[]) => {
+            return { dispose: () => { log.push("second"); } };
+        }, ["app.log"]);
+
+        scope.getServiceByPath("app.first");
+        scope.getServiceByPath("app.second");
+        nested.getServiceByPath("app.first");
+        log.push("dispose");
+
+        scope.dispose();
+
+        expect(log).to.deep.eq(["dispose", "first", "second", "first"]);
+        expect(scope.disposed).to.be.true;
+        expect(nested.disposed).to.be.true;
+        expect(root.disposed).to.be.false;
+        expect(() => { scope.getServiceByPath("app.log"); }).to.throw("Service scope is disposed");
+        expect(() => { scope.createScope(); }).to.throw("Service scope is disposed");
+    });
+
+    it("dispose shared instances owned by the scope", () => {
+        let scope = root.createScope();
+
+        root.registerClass("app.resource", Resource);
+        scope.registerClass("app.local", Resource);
+
+        let shared = <Resource>scope.getServiceByPath("app.resource");
+        let local = <Resource>scope.getServiceByPath("app.local");
+
+        scope.dispose();
+
+        expect(local.disposed).to.be.true;
+        expect(shared.disposed).to.be.false;
+    });
+
+    it("controller scope", () => {
+        let manipulator = new DomManipulator(window, document.body);
+        let controller = new ControllerBase("test");
+
+        root.registerService("owl.controllerManager", () => { return new ControllerManager(); });
+        root.registerScopedClass("app.resource", Resource);
+
+        controller.serviceManager = root;
+        controller.setup(new RenderResult(manipulator.createNewFragment("<div></div>"), new EntryNodeLookup()), {});
+
+        expect(controller.childServiceManager).to.eq(root);
+
+        let scope = controller.createServiceScope();
+        let resource = <Resource>scope.getServiceByPath("app.resource");
+
+        expect(controller.createServiceScope()).to.eq(scope);
+        expect(controller.childServiceManager).to.eq(scope);
+        expect(scope.parent).to.eq(root);
+
+        controller.destroy();
+
+        expect(scope.disposed).to.be.true;
+        expect(resource.disposed).to.be.true;
+    });
+});
@@ -0,0 +1,219 @@
+import { StaticEventBinding, HootSyntaxError, IStaticEventOwner } from "../../../src/static_events";
+import { ControllerBase, ControllerManager, bindStaticEvents } from "../../../src/component";
+import { ServiceManager } from "../../../src/service_management";
+import { RenderResult, EntryNodeLookup } from "../../../src/rendering";
+import { DomManipulator } from "../../../src/dom";
+import { EventDispatcher, OwlEvent, DomEvent, HandlerErrorEvent } from "../../../src/events";
+import { expect } from "chai";
+
+
+describe("Static event binding", () => {
+
+    class FakeController extends EventDispatcher implements IStaticEventOwner {
+
+        public calls: any[][] = [];
+
+        public controllerManager: ControllerManager = new ControllerManager();
+
+        public id: string = null;
+
+        public type: string = "fake";
+
+        public listenForDomEvent(eventType: string) : void {
+        }
+
+        public toggle(...args: any[]) : void {
+            this.calls.push(args);
+        }
+    }
+
+    class ToggleController extends ControllerBase {
+
+        public calls: any[][] = [];
+
+        public toggle(...args: any[]) : void {
+            this.calls.push(args);
+        }
+    }
+
+    function createToggle(id: string) : ToggleController {
+        let manipulator = new DomManipulator(window, document.body);
+        let serviceManager = new ServiceManager();
+        let controller = new ToggleController("toggle");
+
+        serviceManager.registerService("owl.controllerManager", () => { return new ControllerManager(); });
+        controller.serviceManager = serviceManager;
+        controller.setup(new RenderResult(manipulator.createNewFragment("<div></div>"), new EntryNodeLookup()), { id: id });
+
+        return controller;
+    }
+
+    function keyEvent(key: string, ctrlKey: boolean=false) : DomEvent {
+        return new DomEvent(new KeyboardEvent("keydown", { key: key, ctrlKey: ctrlKey, bubbles: true, cancelable: true }));
+    }
+
+    it("parse own method call", () => {
+        let binding = new StaticEventBinding("hoot:click", "toggle()");
+
+        expect(binding.eventType).to.eq("click");
+        expect(binding.calls).to.deep.eq([{ target: null, method: "toggle", args: [] }]);
+    });
+
+    it("parse target and arguments", () => {
+        let binding = new StaticEventBinding("hoot:click", "#side-bar.toggle('a\\'b', -1.5, true, null, $event); this.close");
+
+        expect(binding.calls).to.deep.eq([
+            {
+                target: "side-bar",
+                method: "toggle",
+                args: [
+                    { isEvent: false, value: "a'b" },
+                    { isEvent: false, value: -1.5 },
+                    { isEvent: false, value: true },
+                    { isEvent: false, value: null },
+                    { isEvent: true, value: null }
+                ]
+            },
+            { target: null, method: "close", args: [{ isEvent: true, value: null }] }
+        ]);
+    });
+
+    it("reject invalid expression", () => {
+        expect(() => { new StaticEventBinding("hoot:click", "this.x = 1"); }).to.throw(HootSyntaxError, "hoot:click");
+        expect(() => { new StaticEventBinding("hoot:click", "toggle(window)"); }).to.throw(HootSyntaxError, "window");
+        expect(() => { new StaticEventBinding("hoot:click", "#.toggle()"); }).to.throw(HootSyntaxError, "controller id");
+        expect(() => { new StaticEventBinding("hoot:click", ""); }).to.throw(HootSyntaxError, "empty");
+    });
+
+    it("reject unknown modifier", () => {
+        expect(() => { new StaticEventBinding("hoot:click.twice", "toggle()"); }).to.throw(HootSyntaxError, "twice");
+    });
+
+    it("call method of the controller", () => {
+        let controller = new FakeController();
+        new StaticEventBinding("hoot:ping", "toggle(1, $event)").bind(controller);
+
+        let evt = new OwlEvent("ping");
+        controller.dispatchEvent(evt);
+
+        expect(controller.calls).to.deep.eq([[1, evt]]);
+    });
+
+    it("call method of other controller", () => {
+        let controller = new FakeController();
+        let sidebar = createToggle("sidebar");
+
+        controller.controllerManager.registerComponent(sidebar);
+        new StaticEventBinding("hoot:ping", "#sidebar.toggle()").bind(controller);
+        controller.dispatchEvent(new OwlEvent("ping"));
+
+        expect(sidebar.calls).to.deep.eq([[]]);
+    });
+
+    it("missing target and method", () => {
+        let controller = new FakeController();
+        let errors: string[] = [];
+
+        controller.errorPolicy = "rethrow";
+        new StaticEventBinding("hoot:ping", "#sidebar.toggle()").bind(controller);
+        new StaticEventBinding("hoot:pong", "open()").bind(controller);
+
+        expect(() => { controller.dispatchEvent(new OwlEvent("ping")); }).to.throw("controller 'sidebar' does not exist");
+        expect(() => { controller.dispatchEvent(new OwlEvent("pong")); }).to.throw("has no method 'open'");
+    });
+
+    it("once modifier", () => {
+        let controller = new FakeController();
+        new StaticEventBinding("hoot:ping.once", "toggle()").bind(controller);
+
+        controller.dispatchEvent(new OwlEvent("ping"));
+        controller.dispatchEvent(new OwlEvent("ping"));
+
+        expect(controller.calls).to.have.length(1);
+    });
+
+    it("key modifier", () => {
+        let controller = new FakeController();
+        new StaticEventBinding("hoot:keydown.enter", "toggle()").bind(controller);
+
+        controller.dispatchEvent(keyEvent("a"));
+        controller.dispatchEvent(keyEvent("Enter"));
+
+        expect(controller.calls).to.have.length(1);
+    });
+
+    it("once modifier applied after key modifiers", () => {
+        let controller = new FakeController();
+        new StaticEventBinding("hoot:keydown.ctrl.enter.once", "toggle()").bind(controller);
+
+        controller.dispatchEvent(keyEvent("a", true));
+        controller.dispatchEvent(keyEvent("Enter"));
+        expect(controller.calls).to.have.length(0);
+
+        controller.dispatchEvent(keyEvent("Enter", true));
+        controller.dispatchEvent(keyEvent("Enter", true));
+        expect(controller.calls).to.have.length(1);
+    });
+
+    it("debounce modifier", (done) => {
+        let controller = new FakeController();
+        new StaticEventBinding("hoot:ping.debounce.10", "toggle()").bind(controller);
+
+        controller.dispatchEvent(new OwlEvent("ping"));
+        controller.dispatchEvent(new OwlEvent("ping"));
+        expect(controller.calls).to.have.length(0);
+
+        setTimeout(() => {
+            expect(controller.calls).to.have.length(1);
+            done();
+        }, 30);
+    });
+
+    it("apply error policy to debounced call", (done) => {
+        let controller = new FakeController();
+        let errors: any[] = [];
+
+        controller.errorPolicy = "event";
+        controller.addEventListener(EventDispatcher.EVENT_ERROR, (evt: HandlerErrorEvent) => { errors.push(evt.error); });
+        new StaticEventBinding("hoot:ping.debounce.10", "missing()").bind(controller);
+
+        controller.dispatchEvent(new OwlEvent("ping"));
+
+        setTimeout(() => {
+            expect(errors).to.have.length(1);
+            expect(errors[0].message).to.eq("Handler of 'hoot:ping.debounce.10': controller 'fake' has no method 'missing'");
+            done();
+        }, 30);
+    });
+
+    it("remove listener and pending debounced call", (done) => {
+        let controller = new FakeController();
+        let remover = new StaticEventBinding("hoot:ping.debounce.10", "toggle()").bind(controller);
+
+        controller.dispatchEvent(new OwlEvent("ping"));
+        remover();
+        controller.dispatchEvent(new OwlEvent("ping"));
+
+        setTimeout(() => {
+            expect(controller.calls).to.have.length(0);
+            done();
+        }, 30);
+    });
+
+    it("unbind static events of destroyed controller", (done) => {
+        let controller = createToggle(null);
+        let element = document.createElement("div");
+
+        element.setAttribute("hoot:ping.debounce.10", "toggle()");
+        bindStaticEvents(controller, element);
+
+        controller.dispatchEvent(new OwlEvent("ping"));
+        controller.destroy();
+        controller.dispatchEvent(new OwlEvent("ping"));
+
+        setTimeout(() => {
+            expect(controller.calls).to.have.length(0);
+            done();
+        }, 30);
+    });
+});
\ No newline at end of file
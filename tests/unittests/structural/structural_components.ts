@@ -0,0 +1,133 @@
+import * as Structural from "../../../src/view/components/structural/register"
+import { ControllerBase, ControllerManager } from "../../../src/component"
+import { ObservableModel } from "../../../src/binding"
+import { createComponentFixture, insertComponents, ComponentFixture } from "../component/utils"
+import { expect } from "chai"
+
+
+describe("Structural components", () => {
+
+    let model: ObservableModel;
+    let controllerManager: ControllerManager;
+    let fixture: ComponentFixture;
+
+    function insert(html: string) : HTMLElement {
+        insertComponents(fixture, html);
+        return <HTMLElement>fixture.root.view.node;
+    }
+
+    function texts(element: HTMLElement, selector: string) : string[] {
+        let nodes: Element[] = Array.prototype.slice.call(element.querySelectorAll(selector));
+        return nodes.map((node: Element) => { return node.textContent; });
+    }
+
+    beforeEach(() => {
+        fixture = createComponentFixture();
+        model = new ObservableModel();
+        controllerManager = fixture.controllerManager;
+
+        fixture.serviceManager.registerService("owl.model", () => { return model; });
+        Structural.register(fixture.factory, fixture.serviceManager);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("if renders template when test is truthy", () => {
+        let element = insert("<owl:if id='cond' test='visible'><b class='content'>shown</b></owl:if>");
+        let condition: ControllerBase = controllerManager.get("cond");
+
+        expect(element.querySelector(".content")).to.be.null;
+        expect(condition.children.length).to.eq(0);
+
+        model.set("visible", true);
+
+        let fragment: ControllerBase = condition.children[0];
+
+        expect(element.querySelector(".content").textContent).to.eq("shown");
+        expect(condition.children.length).to.eq(1);
+
+        model.set("visible", 1);
+
+        expect(condition.children[0]).to.eq(fragment);
+        expect(element.querySelectorAll(".content").length).to.eq(1);
+    });
+
+    it("if destroys template when test is falsy", () => {
+        model.set("visible", true);
+
+        let element = insert("<owl:if id='cond' test='visible'><b class='content'>shown</b></owl:if>");
+        let condition: ControllerBase = controllerManager.get("cond");
+        let fragment: ControllerBase = condition.children[0];
+
+        expect(element.querySelector(".content")).not.to.be.null;
+
+        model.set("visible", false);
+
+        expect(fragment.destroyed).to.be.true;
+        expect(condition.children.length).to.eq(0);
+        expect(element.querySelector(".content")).to.be.null;
+    });
+
+    it("repeat renders item of the collection", () => {
+        model.set("todos", [{ id: 1, name: "a" }, { id: 2, name: "b" }]);
+
+        let element = insert("<owl:repeat id='list' items='todos' key='id'><i>{{ this.model.get('item.name') }}{{ this.index }}</i></owl:repeat>");
+
+        expect(texts(element, "i")).to.deep.eq(["a0", "b1"]);
+        expect(controllerManager.get("list").children.length).to.eq(2);
+    });
+
+    it("repeat reuses fragments of the reordered items", () => {
+        model.set("todos", [{ id: 1, name: "a" }, { id: 2, name: "b" }, { id: 3, name: "c" }]);
+
+        let element = insert("<owl:repeat id='list' items='todos' key='id'><i>{{ this.model.get('item.name') }}{{ this.index }}</i></owl:repeat>");
+        let fragments: ControllerBase[] = controllerManager.get("list").children;
+
+        model.set("todos", [{ id: 3, name: "c" }, { id: 1, name: "a" }, { id: 2, name: "b" }]);
+
+        let reordered: ControllerBase[] = controllerManager.get("list").children;
+
+        expect(texts(element, "i")).to.deep.eq(["c0", "a1", "b2"]);
+        expect(reordered.length).to.eq(3);
+        expect(fragments.every((fragment: ControllerBase) => { return reordered.indexOf(fragment) != -1; })).to.be.true;
+        expect(fragments.some((fragment: ControllerBase) => { return fragment.destroyed; })).to.be.false;
+    });
+
+    it("repeat creates fragments of inserted items", () => {
+        model.set("todos", [{ id: 1, name: "a" }, { id: 2, name: "b" }]);
+
+        let element = insert("<owl:repeat id='list' items='todos' key='id'><i>{{ this.model.get('item.name') }}{{ this.index }}</i></owl:repeat>");
+        let fragments: ControllerBase[] = controllerManager.get("list").children;
+
+        model.set("todos", [{ id: 1, name: "a" }, { id: 4, name: "d" }, { id: 2, name: "b" }]);
+
+        let updated: ControllerBase[] = controllerManager.get("list").children;
+
+        expect(texts(element, "i")).to.deep.eq(["a0", "d1", "b2"]);
+        expect(updated.length).to.eq(3);
+        expect(updated.indexOf(fragments[0])).not.to.eq(-1);
+        expect(updated.indexOf(fragments[1])).not.to.eq(-1);
+    });
+
+    it("repeat destroys fragments of removed items", () => {
+        model.set("todos", [{ id: 1, name: "a" }, { id: 2, name: "b" }, { id: 3, name: "c" }]);
+
+        let element = insert("<owl:repeat id='list' items='todos' key='id'><i>{{ this.model.get('item.name') }}{{ this.index }}</i></owl:repeat>");
+        let fragments: ControllerBase[] = controllerManager.get("list").children;
+
+        model.set("todos", [{ id: 1, name: "a" }, { id: 3, name: "c" }]);
+
+        expect(texts(element, "i")).to.deep.eq(["a0", "c1"]);
+        expect(fragments[0].destroyed).to.be.false;
+        expect(fragments[1].destroyed).to.be.true;
+        expect(fragments[2].destroyed).to.be.false;
+
+        model.set("todos", []);
+
+        expect(element.querySelectorAll("i").length).to.eq(0);
+        expect(fragments[0].destroyed).to.be.true;
+        expect(controllerManager.get("list").children.length).to.eq(0);
+    });
+});
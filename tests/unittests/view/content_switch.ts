@@ -0,0 +1,114 @@
+import * as ContentSwitch from "../../../src/view/components/container/content_switch";
+import { ControllerBase, ControllerManager } from "../../../src/component";
+import { ServiceManager } from "../../../src/service_management";
+import { IRenderer } from "../../../src/rendering";
+import { DomManipulator, CommonHtmlElement } from "../../../src/dom";
+import { OwlEvent } from "../../../src/events";
+import { sizerFactory } from "../../../src/view/sizer/factory";
+import { expect } from "chai";
+
+
+describe("Content switch", () => {
+
+    let serviceManager: ServiceManager;
+    let manipulator: DomManipulator;
+    let switcher: ContentSwitch.Controller;
+    let log: string[];
+
+    function render(renderer: IRenderer, controller: ControllerBase, html: string, parent: ControllerBase=null) : ControllerBase {
+        let original = <CommonHtmlElement>manipulator.createNewFragment(html);
+        let options: Object = renderer.getOptions(original);
+        let result = renderer.render(original, manipulator, options);
+
+        controller.serviceManager = serviceManager;
+        controller.renderer = renderer;
+        controller.setup(result, options);
+        (parent ? <HTMLElement>parent.view.node : document.body).appendChild(result.rootNode.node);
+        controller.initialize();
+
+        return controller;
+    }
+
+    function addItem(name: string) : ContentSwitch.ItemController {
+        let item = new ContentSwitch.ItemController("owlContentSwitchItem", sizerFactory());
+
+        return <ContentSwitch.ItemController>render(new ContentSwitch.ItemRenderer(), item, "<div name='" + name + "'></div>", switcher);
+    }
+
+    beforeEach(() => {
+        serviceManager = new ServiceManager();
+        serviceManager.registerService("owl.controllerManager", () => { return new ControllerManager(); });
+        serviceManager.registerService("owl.sizerFactory", () => { return sizerFactory(); });
+        manipulator = new DomManipulator(window, document.body);
+        log = new Array<string>();
+
+        switcher = <ContentSwitch.Controller>render(new ContentSwitch.Renderer(), new ContentSwitch.Controller("owlContentSwitch", sizerFactory()), "<div></div>");
+        addItem("a");
+        addItem("b");
+
+        switcher.addEventListener(ContentSwitch.Controller.EVENT_BEFORE_CHANGE, (evt: OwlEvent) => {
+            log.push("before " + evt.data["previousIndex"] + " " + evt.data["index"]);
+        });
+        switcher.addEventListener(ControllerBase.EVENT_CHANGE, (evt: OwlEvent) => {
+            log.push("change " + evt.data["index"]);
+        });
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("activate the first item", () => {
+        expect(switcher.activeIndex).to.eq(0);
+    });
+
+    it("sync aria-hidden of the item", () => {
+        let item = render(new ContentSwitch.ItemRenderer(), new ContentSwitch.ItemController("owlContentSwitchItem", sizerFactory()), "<div></div>");
+
+        expect((<HTMLElement>item.view.node).getAttribute("aria-hidden")).to.eq("false");
+    });
+
+    it("cancel the initial activation", () => {
+        let other = <ContentSwitch.Controller>render(new ContentSwitch.Renderer(), new ContentSwitch.Controller("owlContentSwitch", sizerFactory()), "<div></div>");
+        let first = new ContentSwitch.ItemController("owlContentSwitchItem", sizerFactory());
+        let second = new ContentSwitch.ItemController("owlContentSwitchItem", sizerFactory());
+
+        other.once(ContentSwitch.Controller.EVENT_BEFORE_CHANGE, (evt: OwlEvent) => { evt.preventDefault(); });
+        render(new ContentSwitch.ItemRenderer(), first, "<div></div>", other);
+
+        expect(other.activeIndex).to.eq(-1);
+        expect(first.visible).to.be.false;
+
+        render(new ContentSwitch.ItemRenderer(), second, "<div></div>", other);
+
+        expect(other.activeIndex).to.eq(1);
+        expect(second.visible).to.be.true;
+    });
+
+    it("change the active item", () => {
+        switcher.setActiveName("b");
+
+        expect(switcher.activeIndex).to.eq(1);
+        expect(log).to.deep.eq(["before 0 1", "change 1"]);
+    });
+
+    it("cancel the change", () => {
+        switcher.addEventListener(ContentSwitch.Controller.EVENT_BEFORE_CHANGE, (evt: OwlEvent) => { evt.preventDefault(); });
+        switcher.setActiveIndex(1);
+
+        expect(switcher.activeIndex).to.eq(0);
+        expect(log).to.deep.eq(["before 0 1"]);
+    });
+
+    it("ignore the active item", () => {
+        switcher.setActiveIndex(0);
+
+        expect(switcher.activeIndex).to.eq(0);
+        expect(log).to.deep.eq([]);
+    });
+
+    it("reject missing item", () => {
+        expect(() => { switcher.setActiveIndex(2); }).to.throw("Item index '2' was not found.");
+        expect(() => { switcher.setActiveName("c"); }).to.throw("Item name 'c' not found.");
+    });
+});
@@ -0,0 +1,117 @@
+import * as Components from "../../../src/view/components/register";
+import * as List from "../../../src/view/components/container/list";
+import * as Layout from "../../../src/view/components/layout/vh_base";
+import { ControllerBase } from "../../../src/component";
+import { sizerFactory } from "../../../src/view/sizer/factory";
+import { createComponentFixture, insertComponents, ComponentFixture } from "../component/utils";
+import { expect } from "chai";
+
+
+describe("Keyboard navigation of the components", () => {
+
+    let fixture: ComponentFixture;
+
+    function insert(html: string) : ControllerBase {
+        insertComponents(fixture, html);
+        return fixture.controllerManager.get("container");
+    }
+
+    function keyDown(item: ControllerBase, key: string) : Event {
+        let evt = new KeyboardEvent("keydown", { key: key, bubbles: true, cancelable: true });
+        item.view.node.dispatchEvent(evt);
+
+        return evt;
+    }
+
+    function tabIndexes(container: ControllerBase) : number[] {
+        return container.children.map((item: ControllerBase) => { return item.tabIndex; });
+    }
+
+    beforeEach(() => {
+        fixture = createComponentFixture();
+        fixture.serviceManager.registerService("owl.sizerFactory", () => { return sizerFactory(); });
+        Components.register(fixture.factory, fixture.serviceManager);
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("navigate list items", () => {
+        let list = <List.Controller>insert(
+            "<owl:owl-list id='container' navigation='true'>" +
+                "<owl:owl-list-item>a</owl:owl-list-item>" +
+                "<owl:owl-list-item>b</owl:owl-list-item>" +
+                "<owl:owl-list-item>c</owl:owl-list-item>" +
+            "</owl:owl-list>");
+        let items: ControllerBase[] = list.children;
+        let selected = () => {
+            return items.map((item: ControllerBase) => { return (<HTMLElement>item.view.node).getAttribute("aria-selected"); });
+        };
+
+        expect(tabIndexes(list)).to.deep.eq([0, -1, -1]);
+
+        expect(keyDown(items[0], "ArrowDown").defaultPrevented).to.be.true;
+        expect(document.activeElement).to.eq(items[1].view.node);
+        expect(tabIndexes(list)).to.deep.eq([-1, 0, -1]);
+        expect(selected()).to.deep.eq(["false", "true", "false"]);
+
+        expect(keyDown(items[1], "ArrowRight").defaultPrevented).to.be.false;
+        expect(list.navigation.activeItem).to.eq(items[1]);
+
+        keyDown(items[1], "End");
+        expect(list.navigation.activeItem).to.eq(items[2]);
+
+        keyDown(items[2], "ArrowDown");
+        expect(list.navigation.activeItem).to.eq(items[0]);
+        expect(selected()).to.deep.eq(["true", "false", "false"]);
+    });
+
+    it("navigate horizontal box items", () => {
+        let box = <Layout.BaseBoxController>insert(
+            "<owl:owl-horizontal-box id='container' navigation='true'>" +
+                "<owl:owl-horizontal-box-item>a</owl:owl-horizontal-box-item>" +
+                "<owl:owl-horizontal-box-item>b</owl:owl-horizontal-box-item>" +
+            "</owl:owl-horizontal-box>");
+        let items: ControllerBase[] = box.children;
+
+        expect(tabIndexes(box)).to.deep.eq([0, -1]);
+
+        keyDown(items[0], "ArrowDown");
+        expect(box.navigation.activeItem).to.eq(items[0]);
+
+        keyDown(items[0], "ArrowRight");
+        expect(box.navigation.activeItem).to.eq(items[1]);
+        expect(document.activeElement).to.eq(items[1].view.node);
+        expect(tabIndexes(box)).to.deep.eq([-1, 0]);
+    });
+
+    it("navigate vertical box items", () => {
+        let box = <Layout.BaseBoxController>insert(
+            "<owl:owl-vertical-box id='container' navigation='true'>" +
+                "<owl:owl-vertical-box-item>a</owl:owl-vertical-box-item>" +
+                "<owl:owl-vertical-box-item>b</owl:owl-vertical-box-item>" +
+            "</owl:owl-vertical-box>");
+        let items: ControllerBase[] = box.children;
+
+        keyDown(items[0], "ArrowRight");
+        expect(box.navigation.activeItem).to.eq(items[0]);
+
+        keyDown(items[0], "ArrowDown");
+        expect(box.navigation.activeItem).to.eq(items[1]);
+        expect(document.activeElement).to.eq(items[1].view.node);
+    });
+
+    it("box without navigation keeps the tab order", () => {
+        let box = <Layout.BaseBoxController>insert(
+            "<owl:owl-vertical-box id='container'>" +
+                "<owl:owl-vertical-box-item>a</owl:owl-vertical-box-item>" +
+                "<owl:owl-vertical-box-item>b</owl:owl-vertical-box-item>" +
+            "</owl:owl-vertical-box>");
+
+        expect(box.navigation).to.be.null;
+        expect(keyDown(box.children[0], "ArrowDown").defaultPrevented).to.be.false;
+        expect(box.children.map((item: ControllerBase) => { return (<HTMLElement>item.view.node).hasAttribute("tabindex"); }))
+            .to.deep.eq([false, false]);
+    });
+});
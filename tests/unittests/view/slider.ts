@@ -0,0 +1,108 @@
+import * as Slider from "../../../src/view/components/layout/slider";
+import { ControllerBase, ControllerManager } from "../../../src/component";
+import { ServiceManager } from "../../../src/service_management";
+import { IRenderer } from "../../../src/rendering";
+import { DomManipulator, CommonHtmlElement } from "../../../src/dom";
+import { OwlEvent } from "../../../src/events";
+import { sizerFactory } from "../../../src/view/sizer/factory";
+import { expect } from "chai";
+
+
+describe("Slider", () => {
+
+    let serviceManager: ServiceManager;
+    let manipulator: DomManipulator;
+    let slider: Slider.Controller;
+    let log: string[];
+
+    function render(renderer: IRenderer, controller: ControllerBase, html: string, parent: ControllerBase=null) : ControllerBase {
+        let original = <CommonHtmlElement>manipulator.createNewFragment(html);
+        let options: Object = renderer.getOptions(original);
+        let result = renderer.render(original, manipulator, options);
+
+        controller.serviceManager = serviceManager;
+        controller.renderer = renderer;
+        controller.setup(result, options);
+        (parent ? <HTMLElement>parent.view.node : document.body).appendChild(result.rootNode.node);
+        controller.initialize();
+
+        return controller;
+    }
+
+    function addPage(name: string) : Slider.SliderPageController {
+        return <Slider.SliderPageController>render(new Slider.SliderPageRenderer(), new Slider.SliderPageController("owlSliderPage"), "<div name='" + name + "'></div>", slider);
+    }
+
+    beforeEach(() => {
+        serviceManager = new ServiceManager();
+        serviceManager.registerService("owl.controllerManager", () => { return new ControllerManager(); });
+        serviceManager.registerService("owl.sizerFactory", () => { return sizerFactory(); });
+        manipulator = new DomManipulator(window, document.body);
+        log = new Array<string>();
+
+        slider = <Slider.Controller>render(new Slider.Renderer(), new Slider.Controller("owlSlider"), "<div></div>");
+        addPage("a");
+        addPage("b");
+
+        // jsdom does not implement scrolling
+        (<HTMLElement>slider.view.node).scrollTo = () => { log.push("scroll"); };
+
+        slider.addEventListener(Slider.Controller.EVENT_BEFORE_SLIDE, (evt: OwlEvent) => { log.push("before " + evt.data["page"]); });
+        slider.addEventListener(Slider.Controller.EVENT_SLID, (evt: OwlEvent) => { log.push("slid " + evt.data["page"]); });
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = "";
+    });
+
+    it("show the first page", () => {
+        let pages = <Slider.SliderPageController[]>slider.children;
+
+        expect(pages.map((page) => { return page.current; })).to.deep.eq([true, false]);
+        expect(pages.map((page) => { return (<HTMLElement>page.view.node).getAttribute("aria-hidden"); })).to.deep.eq(["false", "true"]);
+    });
+
+    it("slide to the page", () => {
+        let pages = <Slider.SliderPageController[]>slider.children;
+
+        slider.goto("b");
+
+        expect(log).to.deep.eq(["before b", "scroll", "slid b"]);
+        expect(pages.map((page) => { return page.current; })).to.deep.eq([false, true]);
+    });
+
+    it("cancel sliding", () => {
+        slider.addEventListener(Slider.Controller.EVENT_BEFORE_SLIDE, (evt: OwlEvent) => { evt.preventDefault(); });
+        slider.goto("b");
+
+        expect(log).to.deep.eq(["before b"]);
+        expect((<Slider.SliderPageController>slider.children[1]).current).to.be.false;
+    });
+
+    it("slide smoothly", (done: Function) => {
+        slider.duration = 30;
+        slider.addEventListener(Slider.Controller.EVENT_SLID, () => {
+            expect(log).to.deep.eq(["before b", "scroll", "slid b"]);
+            done();
+        });
+        slider.goto("b");
+
+        expect(log).to.deep.eq(["before b"]);
+    });
+
+    it("stop sliding on destroy", (done: Function) => {
+        slider.duration = 30;
+        slider.goto("b");
+        slider.destroy();
+
+        setTimeout(() => {
+            expect(log).to.deep.eq(["before b"]);
+            done();
+        }, 50);
+    });
+
+    it("reject missing page", () => {
+        expect(() => { slider.goto("c"); }).to.throw("Page 'c' not found");
+        expect(log).to.deep.eq([]);
+    });
+});
@@ -2,10 +2,38 @@ module.exports = {
     entry: [
         "./tests/unittests/events/event.ts",
         "./tests/unittests/events/event_dispatcher.ts",
+        "./tests/unittests/events/event_propagation.ts",
+        "./tests/unittests/events/async_dispatch.ts",
         "./tests/unittests/service_management/service_manager.ts",
         "./tests/unittests/service_management/service_namespace.ts",
+        "./tests/unittests/service_management/dependency_injection.ts",
+        "./tests/unittests/service_management/service_scope.ts",
+        "./tests/unittests/service_management/service_override.ts",
+        "./tests/unittests/service_management/async_services.ts",
+        "./tests/unittests/modules/module_lifecycle.ts",
         "./tests/unittests/dom/dom_manipulator.ts",
-        "./tests/unittests/dom/common_html_element.ts"
+        "./tests/unittests/dom/common_html_element.ts",
+        "./tests/unittests/event_bus/event_bus.ts",
+        "./tests/unittests/component/controller_lifecycle.ts",
+        "./tests/unittests/component/shadow_dom.ts",
+        "./tests/unittests/component_observer/component_observer.ts",
+        "./tests/unittests/custom_elements/custom_element_adapter.ts",
+        "./tests/unittests/hotkeys/hotkey_manager.ts",
+        "./tests/unittests/focus/focus_manager.ts",
+        "./tests/unittests/aria/aria_roles.ts",
+        "./tests/unittests/static_events/static_event_binding.ts",
+        "./tests/unittests/binding/observable_model.ts",
+        "./tests/unittests/binding/alias_model.ts",
+        "./tests/unittests/binding/property_binding.ts",
+        "./tests/unittests/structural/structural_components.ts",
+        "./tests/unittests/interpolation/interpolation_template.ts",
+        "./tests/unittests/options/coerce_option.ts",
+        "./tests/unittests/options/read_options.ts",
+        "./tests/unittests/rendering/content_projection.ts",
+        "./tests/unittests/definition/define_component.ts",
+        "./tests/unittests/view/content_switch.ts",
+        "./tests/unittests/view/slider.ts",
+        "./tests/unittests/view/navigation.ts"
     ],
     output: {
         filename: "./tests/browser_runner/bundle.js"